@@ -16,6 +16,8 @@ module sui_echo::echo {
     use sui::event;
     use sui::dynamic_field;
     use sui::ed25519;
+    use sui::bcs;
+    use std::hash;
 
     // ========== Error Codes ==========
     // Authorization & Access Control
@@ -27,11 +29,34 @@ module sui_echo::echo {
     const EPoolNotFound: u64 = 5;
     const EAlreadyRegistered: u64 = 6;
     const EInvalidSignature: u64 = 9;
-    const ETeePubkeyNotSet: u64 = 10;
+    const EUnknownTeeKey: u64 = 10;
+    const ERewardAlreadyClaimed: u64 = 11;
+    // TEE Attestation
+    const EInvalidAttestation: u64 = 12;
+    const EAttestationMismatch: u64 = 13;
+    const EAttestationExpired: u64 = 14;
+    const ETeeKeyInactive: u64 = 15;
+    const ETeeKeyRevoked: u64 = 16;
+    // Course Reps
+    const ERepRevoked: u64 = 17;
+    const ERepExpired: u64 = 18;
+    const ENotCourseRep: u64 = 19;
+    // Lecturers & Code Words
+    const ENotLecturerForCourse: u64 = 20;
+    const ECodeWordNotSet: u64 = 21;
+    const EInvalidCodeWord: u64 = 22;
+    // Official handouts are lecturer material, not student contributions
+    const EOfficialHandout: u64 = 23;
+    // Course reps verify other students' handouts for their own course only
+    const ENotRepForCourse: u64 = 24;
+    const ECannotVerifyOwnHandout: u64 = 25;
 
     // ========== Constants ==========
     const DEFAULT_REWARD_AMOUNT: u64 = 100_000_000; // 0.1 SUI
     const MIN_BLOB_ID_LENGTH: u64 = 10;
+    const ATTESTATION_VERSION: u8 = 1;
+    const CONTENT_HASH_LENGTH: u64 = 32; // SHA-256
+    const MIN_CODE_WORD_SALT_LENGTH: u64 = 16;
 
     // ========== Events ==========
     
@@ -39,6 +64,8 @@ module sui_echo::echo {
         id: object::ID,
         uploader: address,
         blob_id: String,
+        course_code: String,
+        official: bool,
         timestamp: u64,
     }
 
@@ -59,6 +86,7 @@ module sui_echo::echo {
         id: object::ID,
         course_code: String,
         broadcaster: address,
+        verified: bool,
     }
 
     public struct CourseSponsored has copy, drop {
@@ -79,6 +107,7 @@ module sui_echo::echo {
         applicant: address,
         course_code: String,
         approved_by: address,
+        expires_at_epoch: Option<u64>,
     }
 
     public struct CourseRepRejected has copy, drop {
@@ -88,6 +117,68 @@ module sui_echo::echo {
         reason: String,
     }
 
+    public struct CourseRepRevoked has copy, drop {
+        rep_id: object::ID,
+        rep_address: address,
+        course_code: String,
+        revoked_by: address,
+    }
+
+    public struct CourseRepHandedOver has copy, drop {
+        course_code: String,
+        previous_rep: address,
+        previous_rep_id: object::ID,
+        new_rep: address,
+        new_rep_id: object::ID,
+        handed_over_by: address,
+        expires_at_epoch: Option<u64>,
+    }
+
+    public struct LecturerCapIssued has copy, drop {
+        lecturer_id: object::ID,
+        lecturer: address,
+        name: String,
+        course_codes: vector<String>,
+        issued_by: address,
+    }
+
+    public struct CourseCodeWordSet has copy, drop {
+        course_code: String,
+        lecturer_id: object::ID,
+        set_by: address,
+    }
+
+    public struct HandoutEndorsed has copy, drop {
+        id: object::ID,
+        course_code: String,
+        lecturer_id: object::ID,
+        endorsed_by: address,
+    }
+
+    public struct CourseRepNominated has copy, drop {
+        application_id: object::ID,
+        nominee: address,
+        course_code: String,
+        lecturer_id: object::ID,
+        nominated_by: address,
+    }
+
+    public struct TeeKeyRegistered has copy, drop {
+        key_id: String,
+        pubkey: vector<u8>,
+        activated_at_epoch: u64,
+    }
+
+    public struct TeeKeyRetired has copy, drop {
+        key_id: String,
+        retired_at_epoch: u64,
+    }
+
+    public struct TeeKeyRevoked has copy, drop {
+        key_id: String,
+        revoked_by: address,
+    }
+
     // ========== Capability Objects ==========
 
     /// Capability for Admin actions
@@ -102,24 +193,44 @@ module sui_echo::echo {
     }
 
     /// Capability for Course Representatives
+    /// Only usable while it is the rep's current cap in the registry and before `expires_at_epoch`
     public struct CourseRepCap has key, store {
         id: UID,
         course_code: String,
         rep_address: address,
         verified_by: address,
         verified_at: u64,
+        expires_at_epoch: Option<u64>,
+    }
+
+    /// Capability for Lecturers, scoped to the courses they teach
+    public struct LecturerCap has key, store {
+        id: UID,
+        name: String,
+        lecturer_address: address,
+        course_codes: vector<String>,
+        issued_by: address,
+        issued_at: u64,
     }
 
     // ========== Core Objects ==========
 
     /// Represents a student's uploaded note/handout
+    /// Shared, so admins, course reps and lecturers can verify or endorse it; rewards always go to `uploader`
     public struct Handout has key, store {
         id: UID,
         blob_id: String,
         description: String,
+        course_code: String,
         uploader: address,
         verified: bool,
         verified_by: address,
+        reward_claimed: bool,
+        content_hash: vector<u8>,
+        // Published by a lecturer with their LecturerCap
+        official: bool,
+        // Lecturer who confirmed the handout matches their course material
+        endorsed_by: Option<address>,
         created_at: u64,
     }
 
@@ -130,6 +241,8 @@ module sui_echo::echo {
         audio_blob_id: String,
         message: String,
         broadcaster: address,
+        // True only when sent with a CourseRepCap for this course
+        verified: bool,
         created_at: u64,
     }
 
@@ -159,12 +272,45 @@ module sui_echo::echo {
         id: UID,
         pending_applications: Table<address, bool>,
         verified_reps: Table<address, String>,
+        // Current CourseRepCap ID for each verified rep
+        rep_caps: Table<address, ID>,
+        // Caps that were revoked or handed over and must no longer be honoured
+        revoked_caps: Table<ID, bool>,
+        // Salted hash of each course's code word, set by the course lecturer
+        code_words: Table<String, CodeWordHash>,
+    }
+
+    /// sha2_256(salt || code word); applicants must present the code word to apply
+    public struct CodeWordHash has store, drop {
+        salt: vector<u8>,
+        hash: vector<u8>,
     }
 
-    /// TEE Configuration - stores the TEE verifier's public key
+    /// A named TEE verifier key, valid from `activated_at_epoch` until `retired_at_epoch` (exclusive)
+    public struct TeeVerifierKey has store, drop {
+        pubkey: vector<u8>,
+        activated_at_epoch: u64,
+        retired_at_epoch: Option<u64>,
+        revoked: bool,
+    }
+
+    /// TEE Configuration - registry of TEE verifier keys by key ID
+    /// Several keys can be active at once (multiple verifier instances, overlap during rotation)
     public struct TeeConfig has key {
         id: UID,
-        tee_pubkey: vector<u8>,
+        keys: Table<String, TeeVerifierKey>,
+    }
+
+    /// Decoded TEE attestation payload (BCS-encoded, signed by the TEE)
+    /// Layout: version: u8, handout_id: address, blob_id: vector<u8>,
+    /// content_hash: vector<u8>, key_id: vector<u8>, issued_at_epoch: u64, expires_at_epoch: u64
+    public struct AttestationPayload has drop {
+        handout_id: address,
+        blob_id: vector<u8>,
+        content_hash: vector<u8>,
+        key_id: vector<u8>,
+        issued_at_epoch: u64,
+        expires_at_epoch: u64,
     }
 
     // ========== Initialization ==========
@@ -190,12 +336,15 @@ module sui_echo::echo {
             id: object::new(ctx),
             pending_applications: table::new(ctx),
             verified_reps: table::new(ctx),
+            rep_caps: table::new(ctx),
+            revoked_caps: table::new(ctx),
+            code_words: table::new(ctx),
         });
 
-        // Initialize TEE config with empty pubkey (admin must set it)
+        // Initialize TEE config with an empty key registry (admin must register keys)
         transfer::share_object(TeeConfig {
             id: object::new(ctx),
-            tee_pubkey: vector::empty(),
+            keys: table::new(ctx),
         });
     }
 
@@ -215,6 +364,48 @@ module sui_echo::echo {
         }, recipient);
     }
 
+    /// Admin issues a lecturer capability for the given course codes
+    public fun issue_lecturer_cap(
+        _admin: &AdminCap,
+        name: vector<u8>,
+        course_codes: vector<vector<u8>>,
+        recipient: address,
+        ctx: &mut TxContext
+    ) {
+        assert!(!vector::is_empty(&course_codes), EInvalidInput);
+
+        let mut codes = vector::empty<String>();
+        let mut i = 0;
+        while (i < vector::length(&course_codes)) {
+            let code = *vector::borrow(&course_codes, i);
+            assert!(!vector::is_empty(&code), EInvalidInput);
+            vector::push_back(&mut codes, string::utf8(code));
+            i = i + 1;
+        };
+
+        let lecturer_uid = object::new(ctx);
+        let lecturer_id = object::uid_to_inner(&lecturer_uid);
+        let name_str = string::utf8(name);
+        let issuer = tx_context::sender(ctx);
+
+        event::emit(LecturerCapIssued {
+            lecturer_id,
+            lecturer: recipient,
+            name: name_str,
+            course_codes: codes,
+            issued_by: issuer,
+        });
+
+        transfer::transfer(LecturerCap {
+            id: lecturer_uid,
+            name: name_str,
+            lecturer_address: recipient,
+            course_codes: codes,
+            issued_by: issuer,
+            issued_at: tx_context::epoch_timestamp_ms(ctx),
+        }, recipient);
+    }
+
     /// Admin updates the reward amount
     public fun set_reward_amount(
         _admin: &AdminCap,
@@ -226,22 +417,106 @@ module sui_echo::echo {
         ajo.reward_amount = new_amount;
     }
 
-    /// Admin sets the TEE verifier's Ed25519 public key (32 bytes)
-    public fun set_tee_pubkey(
+    /// Admin registers a TEE verifier's Ed25519 public key (32 bytes) under a new key ID
+    /// The key is accepted from `activated_at_epoch` onwards
+    public fun register_tee_key(
         _admin: &AdminCap,
         tee_config: &mut TeeConfig,
+        key_id: vector<u8>,
         pubkey: vector<u8>,
+        activated_at_epoch: u64,
         _ctx: &mut TxContext
     ) {
-        // Ensure 32-byte key length for Ed25519
+        // Ensure 32-byte key length for Ed25519 and a non-empty key ID
         assert!(vector::length(&pubkey) == 32, EInvalidInput);
-        // Set the public key in the shared config object
-        tee_config.tee_pubkey = pubkey;
+        assert!(!vector::is_empty(&key_id), EInvalidInput);
+
+        // Key IDs are never reused, even after retirement or revocation
+        let key_id_str = string::utf8(key_id);
+        assert!(!table::contains(&tee_config.keys, key_id_str), EAlreadyRegistered);
+
+        table::add(&mut tee_config.keys, key_id_str, TeeVerifierKey {
+            pubkey,
+            activated_at_epoch,
+            retired_at_epoch: option::none(),
+            revoked: false,
+        });
+
+        event::emit(TeeKeyRegistered { key_id: key_id_str, pubkey, activated_at_epoch });
+    }
+
+    /// Admin schedules a TEE key's retirement (rotation)
+    /// Attestations signed with the key keep verifying until `retired_at_epoch`
+    public fun retire_tee_key(
+        _admin: &AdminCap,
+        tee_config: &mut TeeConfig,
+        key_id: vector<u8>,
+        retired_at_epoch: u64,
+        _ctx: &mut TxContext
+    ) {
+        let key_id_str = string::utf8(key_id);
+        assert!(table::contains(&tee_config.keys, key_id_str), EUnknownTeeKey);
+
+        let key = table::borrow_mut(&mut tee_config.keys, key_id_str);
+        assert!(retired_at_epoch >= key.activated_at_epoch, EInvalidInput);
+        key.retired_at_epoch = option::some(retired_at_epoch);
+
+        event::emit(TeeKeyRetired { key_id: key_id_str, retired_at_epoch });
+    }
+
+    /// Admin revokes a compromised TEE key immediately
+    public fun revoke_tee_key(
+        _admin: &AdminCap,
+        tee_config: &mut TeeConfig,
+        key_id: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let key_id_str = string::utf8(key_id);
+        assert!(table::contains(&tee_config.keys, key_id_str), EUnknownTeeKey);
+
+        // Keep the entry so the key ID can't be registered again
+        let key = table::borrow_mut(&mut tee_config.keys, key_id_str);
+        key.revoked = true;
+
+        event::emit(TeeKeyRevoked { key_id: key_id_str, revoked_by: tx_context::sender(ctx) });
     }
 
     // ========== Course Rep Registration ==========
 
+    /// Lecturer sets (or rotates) the code word students need to apply as rep for a course
+    /// Only the salted hash is stored: `hash` must equal sha2_256(salt || code word)
+    public fun set_course_code_word(
+        lecturer: &LecturerCap,
+        registry: &mut CourseRepRegistry,
+        course_code: vector<u8>,
+        salt: vector<u8>,
+        hash: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let code_str = string::utf8(course_code);
+        assert_lecturer_for_course(lecturer, &code_str);
+        assert!(vector::length(&salt) >= MIN_CODE_WORD_SALT_LENGTH, EInvalidInput);
+        assert!(vector::length(&hash) == 32, EInvalidInput);
+
+        if (table::contains(&registry.code_words, code_str)) {
+            table::remove(&mut registry.code_words, code_str);
+        };
+        table::add(&mut registry.code_words, code_str, CodeWordHash { salt, hash });
+
+        event::emit(CourseCodeWordSet {
+            course_code: code_str,
+            lecturer_id: object::id(lecturer),
+            set_by: tx_context::sender(ctx),
+        });
+    }
+
+    /// Aborts unless the lecturer teaches the course
+    fun assert_lecturer_for_course(lecturer: &LecturerCap, course_code: &String) {
+        assert!(vector::contains(&lecturer.course_codes, course_code), ENotLecturerForCourse);
+    }
+
     /// User submits an application to be a course rep
+    /// `code_word` must match the hash the course lecturer registered
     public fun apply_for_course_rep(
         registry: &mut CourseRepRegistry,
         course_code: vector<u8>,
@@ -249,6 +524,7 @@ module sui_echo::echo {
         student_id: vector<u8>,
         department: vector<u8>,
         reason: vector<u8>,
+        code_word: vector<u8>,
         ctx: &mut TxContext
     ) {
         let sender = tx_context::sender(ctx);
@@ -256,9 +532,17 @@ module sui_echo::echo {
         assert!(!table::contains(&registry.verified_reps, sender), EAlreadyRegistered);
         assert!(!table::contains(&registry.pending_applications, sender), EAlreadyRegistered);
 
+        let code_str = string::utf8(course_code);
+
+        // Check the code word against the lecturer's salted hash
+        assert!(table::contains(&registry.code_words, code_str), ECodeWordNotSet);
+        let stored = table::borrow(&registry.code_words, code_str);
+        let mut preimage = stored.salt;
+        vector::append(&mut preimage, code_word);
+        assert!(hash::sha2_256(preimage) == stored.hash, EInvalidCodeWord);
+
         let application_uid = object::new(ctx);
         let id = object::uid_to_inner(&application_uid);
-        let code_str = string::utf8(course_code);
         let timestamp = tx_context::epoch_timestamp_ms(ctx);
 
         let application = CourseRepApplication {
@@ -286,11 +570,64 @@ module sui_echo::echo {
         });
     }
 
+    /// Lecturer nominates a student as rep for one of their courses
+    /// Files an application on the nominee's behalf (no code word needed) for an admin to approve
+    public fun nominate_course_rep(
+        lecturer: &LecturerCap,
+        registry: &mut CourseRepRegistry,
+        nominee: address,
+        course_code: vector<u8>,
+        full_name: vector<u8>,
+        student_id: vector<u8>,
+        department: vector<u8>,
+        reason: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let code_str = string::utf8(course_code);
+        assert_lecturer_for_course(lecturer, &code_str);
+        assert!(!table::contains(&registry.verified_reps, nominee), EAlreadyRegistered);
+        assert!(!table::contains(&registry.pending_applications, nominee), EAlreadyRegistered);
+
+        let application_uid = object::new(ctx);
+        let id = object::uid_to_inner(&application_uid);
+        let timestamp = tx_context::epoch_timestamp_ms(ctx);
+
+        let application = CourseRepApplication {
+            id: application_uid,
+            applicant: nominee,
+            course_code: code_str,
+            full_name: string::utf8(full_name),
+            student_id: string::utf8(student_id),
+            department: string::utf8(department),
+            reason: string::utf8(reason),
+            created_at: timestamp,
+        };
+
+        table::add(&mut registry.pending_applications, nominee, true);
+        dynamic_field::add(&mut registry.id, nominee, application);
+
+        event::emit(CourseRepApplicationSubmitted {
+            application_id: id,
+            applicant: nominee,
+            course_code: code_str,
+            timestamp,
+        });
+        event::emit(CourseRepNominated {
+            application_id: id,
+            nominee,
+            course_code: code_str,
+            lecturer_id: object::id(lecturer),
+            nominated_by: tx_context::sender(ctx),
+        });
+    }
+
     /// Admin approves a course rep application by applicant address
+    /// `expires_at_epoch` optionally ends the rep's term at that epoch
     public fun approve_course_rep(
         _admin: &AdminCap,
         registry: &mut CourseRepRegistry,
         applicant: address,
+        expires_at_epoch: Option<u64>,
         ctx: &mut TxContext
     ) {
         // Retrieve and remove application from dynamic fields
@@ -305,32 +642,16 @@ module sui_echo::echo {
             table::remove(&mut registry.pending_applications, app_addr);
         };
 
-        // Add to verified reps list
-        if (!table::contains(&registry.verified_reps, app_addr)) {
-            table::add(&mut registry.verified_reps, app_addr, course_code);
-        };
-
-        let rep_cap_uid = object::new(ctx);
-        let rep_id = object::uid_to_inner(&rep_cap_uid);
-        let approver = tx_context::sender(ctx);
-
-        // Create and transfer the CourseRepCap to the user
-        let rep_cap = CourseRepCap {
-            id: rep_cap_uid,
-            course_code,
-            rep_address: app_addr,
-            verified_by: approver,
-            verified_at: tx_context::epoch_timestamp_ms(ctx),
-        };
+        let rep_id = issue_rep_cap(registry, course_code, app_addr, expires_at_epoch, ctx);
 
         event::emit(CourseRepApproved {
             rep_id,
             applicant: app_addr,
             course_code,
-            approved_by: approver,
+            approved_by: tx_context::sender(ctx),
+            expires_at_epoch,
         });
 
-        transfer::transfer(rep_cap, app_addr);
         object::delete(id);
     }
 
@@ -364,6 +685,100 @@ module sui_echo::echo {
         object::delete(id);
     }
 
+    /// Admin revokes a course rep's cap; it can no longer broadcast or verify handouts
+    public fun revoke_course_rep(
+        _admin: &AdminCap,
+        registry: &mut CourseRepRegistry,
+        rep_address: address,
+        ctx: &mut TxContext
+    ) {
+        let (rep_id, course_code) = revoke_rep_cap(registry, rep_address);
+
+        event::emit(CourseRepRevoked {
+            rep_id,
+            rep_address,
+            course_code,
+            revoked_by: tx_context::sender(ctx),
+        });
+    }
+
+    /// Admin hands a course over from the outgoing rep to a newly elected one
+    /// The outgoing cap is revoked and the new rep gets a fresh cap for the same course
+    public fun hand_over_course_rep(
+        _admin: &AdminCap,
+        registry: &mut CourseRepRegistry,
+        outgoing_rep: address,
+        incoming_rep: address,
+        expires_at_epoch: Option<u64>,
+        ctx: &mut TxContext
+    ) {
+        assert!(outgoing_rep != incoming_rep, EInvalidInput);
+
+        let (previous_rep_id, course_code) = revoke_rep_cap(registry, outgoing_rep);
+        let new_rep_id = issue_rep_cap(registry, course_code, incoming_rep, expires_at_epoch, ctx);
+
+        event::emit(CourseRepHandedOver {
+            course_code,
+            previous_rep: outgoing_rep,
+            previous_rep_id,
+            new_rep: incoming_rep,
+            new_rep_id,
+            handed_over_by: tx_context::sender(ctx),
+            expires_at_epoch,
+        });
+    }
+
+    /// Creates a CourseRepCap for `rep_address`, records it in the registry and sends it
+    fun issue_rep_cap(
+        registry: &mut CourseRepRegistry,
+        course_code: String,
+        rep_address: address,
+        expires_at_epoch: Option<u64>,
+        ctx: &mut TxContext
+    ): ID {
+        // One active cap per rep; revoke the old one first to move a rep to another course
+        assert!(!table::contains(&registry.verified_reps, rep_address), EAlreadyRegistered);
+        if (option::is_some(&expires_at_epoch)) {
+            assert!(*option::borrow(&expires_at_epoch) > tx_context::epoch(ctx), EInvalidInput);
+        };
+
+        let rep_cap_uid = object::new(ctx);
+        let rep_id = object::uid_to_inner(&rep_cap_uid);
+
+        table::add(&mut registry.verified_reps, rep_address, course_code);
+        table::add(&mut registry.rep_caps, rep_address, rep_id);
+
+        transfer::transfer(CourseRepCap {
+            id: rep_cap_uid,
+            course_code,
+            rep_address,
+            verified_by: tx_context::sender(ctx),
+            verified_at: tx_context::epoch_timestamp_ms(ctx),
+            expires_at_epoch,
+        }, rep_address);
+
+        rep_id
+    }
+
+    /// Removes a rep from the registry and marks their cap revoked
+    fun revoke_rep_cap(registry: &mut CourseRepRegistry, rep_address: address): (ID, String) {
+        assert!(table::contains(&registry.verified_reps, rep_address), ENotCourseRep);
+
+        let course_code = table::remove(&mut registry.verified_reps, rep_address);
+        let rep_id = table::remove(&mut registry.rep_caps, rep_address);
+        table::add(&mut registry.revoked_caps, rep_id, true);
+
+        (rep_id, course_code)
+    }
+
+    /// Aborts unless the cap is still the rep's current, unexpired cap
+    fun assert_rep_active(registry: &CourseRepRegistry, rep: &CourseRepCap, ctx: &TxContext) {
+        assert!(!table::contains(&registry.revoked_caps, object::id(rep)), ERepRevoked);
+        if (option::is_some(&rep.expires_at_epoch)) {
+            assert!(tx_context::epoch(ctx) < *option::borrow(&rep.expires_at_epoch), ERepExpired);
+        };
+    }
+
     /// Checks if an address is a verified course rep
     public fun is_course_rep(registry: &CourseRepRegistry, addr: address): bool {
         // efficient lookup in the verified_reps table
@@ -372,18 +787,21 @@ module sui_echo::echo {
 
     // ========== Handout Functions ==========
 
-    /// User mints a new handout
+    /// User mints a new handout for a course (the course decides which reward pool pays out)
     public fun mint_handout(
         blob_id: vector<u8>,
         description: vector<u8>,
+        course_code: vector<u8>,
         ctx: &mut TxContext
     ) {
         // Validate input length
         assert!(vector::length(&blob_id) >= MIN_BLOB_ID_LENGTH, EInvalidInput);
+        assert!(!vector::is_empty(&course_code), EInvalidInput);
         
         let handout_uid = object::new(ctx);
         let id = object::uid_to_inner(&handout_uid);
         let blob_id_str = string::utf8(blob_id);
+        let code_str = string::utf8(course_code);
         let sender = tx_context::sender(ctx);
         let timestamp = tx_context::epoch_timestamp_ms(ctx);
 
@@ -391,14 +809,59 @@ module sui_echo::echo {
             id: handout_uid,
             blob_id: blob_id_str,
             description: string::utf8(description),
+            course_code: code_str,
             uploader: sender,
             verified: false,
             verified_by: @0x0,
+            reward_claimed: false,
+            content_hash: vector::empty(),
+            official: false,
+            endorsed_by: option::none(),
             created_at: timestamp,
         };
 
-        event::emit(HandoutMinted { id, uploader: sender, blob_id: blob_id_str, timestamp });
-        transfer::transfer(handout, sender);
+        event::emit(HandoutMinted { id, uploader: sender, blob_id: blob_id_str, course_code: code_str, official: false, timestamp });
+        transfer::share_object(handout);
+    }
+
+    /// Lecturer publishes official course material; it is verified on mint
+    public fun mint_official_handout(
+        lecturer: &LecturerCap,
+        ajo: &mut AlumniAjo,
+        blob_id: vector<u8>,
+        description: vector<u8>,
+        course_code: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        assert!(vector::length(&blob_id) >= MIN_BLOB_ID_LENGTH, EInvalidInput);
+        let code_str = string::utf8(course_code);
+        assert_lecturer_for_course(lecturer, &code_str);
+
+        let handout_uid = object::new(ctx);
+        let id = object::uid_to_inner(&handout_uid);
+        let blob_id_str = string::utf8(blob_id);
+        let sender = tx_context::sender(ctx);
+        let timestamp = tx_context::epoch_timestamp_ms(ctx);
+
+        let handout = Handout {
+            id: handout_uid,
+            blob_id: blob_id_str,
+            description: string::utf8(description),
+            course_code: code_str,
+            uploader: sender,
+            verified: true,
+            verified_by: sender,
+            reward_claimed: false,
+            content_hash: vector::empty(),
+            official: true,
+            endorsed_by: option::some(sender),
+            created_at: timestamp,
+        };
+        ajo.total_verified = ajo.total_verified + 1;
+
+        event::emit(HandoutMinted { id, uploader: sender, blob_id: blob_id_str, course_code: code_str, official: true, timestamp });
+        event::emit(HandoutVerified { id, verified_by: sender, verifier_type: string::utf8(b"LECTURER") });
+        transfer::share_object(handout);
     }
 
     /// TEE verifies a handout using capability
@@ -445,13 +908,19 @@ module sui_echo::echo {
         });
     }
 
-    /// Course rep verifies a handout
+    /// Course rep verifies another student's handout for the rep's course
     public fun verify_handout_rep(
         rep: &CourseRepCap,
+        registry: &CourseRepRegistry,
         handout: &mut Handout,
         ajo: &mut AlumniAjo,
-        _ctx: &mut TxContext
+        ctx: &mut TxContext
     ) {
+        assert_rep_active(registry, rep, ctx);
+        // Handouts are shared, so the cap alone would let a rep verify (and fund) any course
+        assert!(rep.course_code == handout.course_code, ENotRepForCourse);
+        assert!(handout.uploader != rep.rep_address, ECannotVerifyOwnHandout);
+
         // Ensure not already verified
         assert!(!handout.verified, EAlreadyVerified);
 
@@ -467,26 +936,44 @@ module sui_echo::echo {
         });
     }
 
-    /// Self-verification (for testing/dev)
-    public fun verify_handout(handout: &mut Handout, ctx: &mut TxContext) {
-        // Restrict to uploader only
-        assert!(handout.uploader == tx_context::sender(ctx), ENotAuthorized);
-        assert!(!handout.verified, EAlreadyVerified);
-        
-        // Mark verified without incrementing global stats (test mode)
-        handout.verified = true;
-        handout.verified_by = tx_context::sender(ctx);
+    /// Lecturer endorses a student handout as matching their course material
+    /// An unverified handout is verified by the endorsement
+    public fun endorse_handout(
+        lecturer: &LecturerCap,
+        handout: &mut Handout,
+        ajo: &mut AlumniAjo,
+        ctx: &mut TxContext
+    ) {
+        assert_lecturer_for_course(lecturer, &handout.course_code);
+        assert!(option::is_none(&handout.endorsed_by), EAlreadyVerified);
+
+        let id = object::uid_to_inner(&handout.id);
+        handout.endorsed_by = option::some(lecturer.lecturer_address);
+
+        if (!handout.verified) {
+            handout.verified = true;
+            handout.verified_by = lecturer.lecturer_address;
+            ajo.total_verified = ajo.total_verified + 1;
+
+            event::emit(HandoutVerified {
+                id,
+                verified_by: lecturer.lecturer_address,
+                verifier_type: string::utf8(b"LECTURER"),
+            });
+        };
 
-        event::emit(HandoutVerified {
-            id: object::uid_to_inner(&handout.id),
-            verified_by: tx_context::sender(ctx),
-            verifier_type: string::utf8(b"SELF"),
+        event::emit(HandoutEndorsed {
+            id,
+            course_code: handout.course_code,
+            lecturer_id: object::id(lecturer),
+            endorsed_by: lecturer.lecturer_address,
         });
     }
 
     /// Verify a handout using a TEE attestation signature
-    /// The message should be: handout_id_bytes ++ blob_id_bytes (concatenated)
-    /// Signature must be a valid Ed25519 signature from the registered TEE
+    /// The message is a BCS-encoded AttestationPayload that must refer to this handout
+    /// and its blob, and must be within its validity window.
+    /// Signature must be a valid Ed25519 signature from the active TEE key named in the payload
     public fun verify_with_attestation(
         tee_config: &TeeConfig,
         handout: &mut Handout,
@@ -499,17 +986,32 @@ module sui_echo::echo {
         assert!(handout.uploader == tx_context::sender(ctx), ENotAuthorized);
         assert!(!handout.verified, EAlreadyVerified);
 
-        // TEE pubkey must be configured
-        let pubkey = &tee_config.tee_pubkey;
-        assert!(vector::length(pubkey) == 32, ETeePubkeyNotSet);
+        // The signing key must be registered, not revoked and active in the current epoch
+        let payload = parse_attestation(message);
+        let key_id = string::utf8(payload.key_id);
+        assert!(table::contains(&tee_config.keys, key_id), EUnknownTeeKey);
+
+        let key = table::borrow(&tee_config.keys, key_id);
+        let current_epoch = tx_context::epoch(ctx);
+        assert!(!key.revoked, ETeeKeyRevoked);
+        assert!(is_key_active_at(key, current_epoch), ETeeKeyInactive);
 
         // Verify the TEE's Ed25519 signature against the message
-        let is_valid = ed25519::ed25519_verify(&signature, pubkey, &message);
+        let is_valid = ed25519::ed25519_verify(&signature, &key.pubkey, &message);
         assert!(is_valid, EInvalidSignature);
 
-        // Mark as verified
+        // The signed payload must describe this exact handout
+        assert!(payload.handout_id == object::uid_to_address(&handout.id), EAttestationMismatch);
+        assert!(payload.blob_id == *string::as_bytes(&handout.blob_id), EAttestationMismatch);
+
+        // Reject attestations outside their validity window
+        assert!(payload.issued_at_epoch <= current_epoch, EAttestationExpired);
+        assert!(current_epoch <= payload.expires_at_epoch, EAttestationExpired);
+
+        // Mark as verified and record the attested content hash
         handout.verified = true;
         handout.verified_by = tx_context::sender(ctx);
+        handout.content_hash = payload.content_hash;
         ajo.total_verified = ajo.total_verified + 1;
 
         event::emit(HandoutVerified {
@@ -519,18 +1021,50 @@ module sui_echo::echo {
         });
     }
 
+    /// Checks whether a TEE key's activation window covers the given epoch
+    fun is_key_active_at(key: &TeeVerifierKey, epoch: u64): bool {
+        if (epoch < key.activated_at_epoch) return false;
+        if (option::is_some(&key.retired_at_epoch)) {
+            epoch < *option::borrow(&key.retired_at_epoch)
+        } else { true }
+    }
+
+    /// Decodes a BCS-encoded attestation payload, rejecting unknown versions and trailing bytes
+    fun parse_attestation(message: vector<u8>): AttestationPayload {
+        let mut reader = bcs::new(message);
+        assert!(bcs::peel_u8(&mut reader) == ATTESTATION_VERSION, EInvalidAttestation);
+
+        let payload = AttestationPayload {
+            handout_id: bcs::peel_address(&mut reader),
+            blob_id: bcs::peel_vec_u8(&mut reader),
+            content_hash: bcs::peel_vec_u8(&mut reader),
+            key_id: bcs::peel_vec_u8(&mut reader),
+            issued_at_epoch: bcs::peel_u64(&mut reader),
+            expires_at_epoch: bcs::peel_u64(&mut reader),
+        };
+
+        assert!(vector::is_empty(&bcs::into_remainder_bytes(reader)), EInvalidAttestation);
+        assert!(vector::length(&payload.content_hash) == CONTENT_HASH_LENGTH, EInvalidAttestation);
+        assert!(payload.issued_at_epoch <= payload.expires_at_epoch, EInvalidAttestation);
+        payload
+    }
+
     // ========== Reward Functions ==========
 
-    /// User claims reward for a verified handout
+    /// User claims reward for a verified handout (once per handout)
+    /// The reward is drawn from the pool of the course the handout was minted for
+    /// Uploaders can't verify their own handouts except through a TEE attestation, so every
+    /// payout is backed by a TEE, admin, course rep or lecturer
     public fun claim_reward(
         ajo: &mut AlumniAjo,
-        handout: &Handout,
-        course_code: vector<u8>,
+        handout: &mut Handout,
         ctx: &mut TxContext
     ) {
-        // Ensure handout is verified and pool exists
+        // Ensure handout is verified, unclaimed and pool exists
         assert!(handout.verified, ENotVerified);
-        let code_str = string::utf8(course_code);
+        assert!(!handout.official, EOfficialHandout);
+        assert!(!handout.reward_claimed, ERewardAlreadyClaimed);
+        let code_str = handout.course_code;
         assert!(table::contains(&ajo.pools, code_str), EPoolNotFound);
         
         let pool = table::borrow_mut(&mut ajo.pools, code_str);
@@ -544,6 +1078,9 @@ module sui_echo::echo {
         let reward_coin = coin::from_balance(reward_balance, ctx);
         ajo.total_rewards_paid = ajo.total_rewards_paid + reward_amount;
 
+        // Mark as paid out so the same handout can't drain the pool again
+        handout.reward_claimed = true;
+
         event::emit(RewardClaimed {
             handout_id: object::uid_to_inner(&handout.id),
             recipient: handout.uploader,
@@ -559,10 +1096,13 @@ module sui_echo::echo {
     /// Course rep sends a broadcast
     public fun broadcast_verified(
         rep: &CourseRepCap,
+        registry: &CourseRepRegistry,
         audio_blob_id: vector<u8>,
         message: vector<u8>,
         ctx: &mut TxContext
     ) {
+        assert_rep_active(registry, rep, ctx);
+
         let broadcast_uid = object::new(ctx);
         let id = object::uid_to_inner(&broadcast_uid);
 
@@ -573,14 +1113,15 @@ module sui_echo::echo {
             audio_blob_id: string::utf8(audio_blob_id),
             message: string::utf8(message),
             broadcaster: rep.rep_address,
+            verified: true,
             created_at: tx_context::epoch_timestamp_ms(ctx),
         };
 
-        event::emit(BroadcastCreated { id, course_code: rep.course_code, broadcaster: rep.rep_address });
+        event::emit(BroadcastCreated { id, course_code: rep.course_code, broadcaster: rep.rep_address, verified: true });
         transfer::transfer(broadcast_obj, rep.rep_address);
     }
 
-    /// Anyone can broadcast (generic)
+    /// Anyone can broadcast (generic), marked unverified
     public fun broadcast(
         course_code: vector<u8>,
         audio_blob_id: vector<u8>,
@@ -599,10 +1140,11 @@ module sui_echo::echo {
             audio_blob_id: string::utf8(audio_blob_id),
             message: string::utf8(message),
             broadcaster: sender,
+            verified: false,
             created_at: tx_context::epoch_timestamp_ms(ctx),
         };
 
-        event::emit(BroadcastCreated { id, course_code: code_str, broadcaster: sender });
+        event::emit(BroadcastCreated { id, course_code: code_str, broadcaster: sender, verified: false });
         transfer::transfer(broadcast_obj, sender);
     }
 
@@ -658,4 +1200,58 @@ module sui_echo::echo {
         // Check if a specific handout is verified
         handout.verified 
     }
+
+    public fun get_course_code(handout: &Handout): String {
+        // Return the course a handout was minted for
+        handout.course_code
+    }
+
+    public fun is_tee_key_active(tee_config: &TeeConfig, key_id: String, epoch: u64): bool {
+        // Check if a TEE key would currently be accepted for attestations
+        if (!table::contains(&tee_config.keys, key_id)) return false;
+        let key = table::borrow(&tee_config.keys, key_id);
+        !key.revoked && is_key_active_at(key, epoch)
+    }
+
+    public fun get_content_hash(handout: &Handout): vector<u8> {
+        // Return the SHA-256 content hash attested by the TEE (empty until verified)
+        handout.content_hash
+    }
+
+    public fun is_reward_claimed(handout: &Handout): bool {
+        // Check if the reward for a handout has already been paid out
+        handout.reward_claimed
+    }
+
+    public fun is_rep_cap_revoked(registry: &CourseRepRegistry, rep_id: ID): bool {
+        // Check if a CourseRepCap was revoked or handed over
+        table::contains(&registry.revoked_caps, rep_id)
+    }
+
+    public fun has_course_code_word(registry: &CourseRepRegistry, course_code: String): bool {
+        // Check if a lecturer has opened rep applications for a course
+        table::contains(&registry.code_words, course_code)
+    }
+
+    public fun is_official(handout: &Handout): bool {
+        // Check if a handout was published by a lecturer
+        handout.official
+    }
+
+    public fun get_endorsed_by(handout: &Handout): Option<address> {
+        // Return the lecturer who endorsed a handout, if any
+        handout.endorsed_by
+    }
+
+    public fun is_broadcast_verified(broadcast: &CourseRepBroadcast): bool {
+        // Check if a broadcast was sent by a verified course rep
+        broadcast.verified
+    }
+
+    // ========== Test Helpers ==========
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
 }
@@ -0,0 +1,254 @@
+/// Handout verification flows: a student mints a shared handout, someone else verifies it,
+/// and the reward is paid to the uploader
+#[test_only]
+module sui_echo::echo_tests {
+    use sui::coin::{Self, Coin};
+    use sui::sui::SUI;
+    use sui::test_scenario::{Self as ts, Scenario};
+    use sui_echo::echo::{Self, AdminCap, AlumniAjo, CourseRepCap, CourseRepRegistry, Handout, LecturerCap};
+
+    const ADMIN: address = @0xA11CE;
+    const STUDENT: address = @0xB0B;
+    const REP: address = @0xCAFE;
+    const LECTURER: address = @0xD0C;
+
+    const POOL_FUNDING: u64 = 1_000_000_000;
+    const REWARD: u64 = 100_000_000;
+
+    /// Publishes the module, funds the CSC101 pool and mints one student handout
+    fun setup(): Scenario {
+        let mut scenario = ts::begin(ADMIN);
+        echo::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(ADMIN);
+        {
+            let mut ajo = scenario.take_shared<AlumniAjo>();
+            let payment = coin::mint_for_testing<SUI>(POOL_FUNDING, scenario.ctx());
+            echo::sponsor_course(&mut ajo, b"CSC101", payment, scenario.ctx());
+            ts::return_shared(ajo);
+        };
+
+        scenario.next_tx(STUDENT);
+        echo::mint_handout(b"walrus-blob-0001", b"Week 1 notes", b"CSC101", scenario.ctx());
+
+        scenario
+    }
+
+    /// Issues a lecturer cap for CSC101 and MTH201 to LECTURER
+    fun issue_lecturer(scenario: &mut Scenario) {
+        scenario.next_tx(ADMIN);
+        let admin = scenario.take_from_sender<AdminCap>();
+        echo::issue_lecturer_cap(&admin, b"Dr. Ade", vector[b"CSC101", b"MTH201"], LECTURER, scenario.ctx());
+        scenario.return_to_sender(admin);
+    }
+
+    /// Lecturer nominates REP for a course; the admin approves the nomination
+    fun appoint_rep(scenario: &mut Scenario, course_code: vector<u8>) {
+        issue_lecturer(scenario);
+
+        scenario.next_tx(LECTURER);
+        {
+            let lecturer = scenario.take_from_sender<LecturerCap>();
+            let mut registry = scenario.take_shared<CourseRepRegistry>();
+            echo::nominate_course_rep(&lecturer, &mut registry, REP, course_code, b"Rep", b"ID-1", b"CS", b"Elected", scenario.ctx());
+            ts::return_shared(registry);
+            scenario.return_to_sender(lecturer);
+        };
+
+        scenario.next_tx(ADMIN);
+        {
+            let admin = scenario.take_from_sender<AdminCap>();
+            let mut registry = scenario.take_shared<CourseRepRegistry>();
+            echo::approve_course_rep(&admin, &mut registry, REP, option::none(), scenario.ctx());
+            ts::return_shared(registry);
+            scenario.return_to_sender(admin);
+        };
+    }
+
+    /// REP verifies the most recently minted handout
+    fun verify_as_rep(scenario: &mut Scenario) {
+        scenario.next_tx(REP);
+        let rep = scenario.take_from_sender<CourseRepCap>();
+        let registry = scenario.take_shared<CourseRepRegistry>();
+        let mut ajo = scenario.take_shared<AlumniAjo>();
+        let mut handout = scenario.take_shared<Handout>();
+        echo::verify_handout_rep(&rep, &registry, &mut handout, &mut ajo, scenario.ctx());
+        assert!(echo::is_verified(&handout), 2);
+        ts::return_shared(handout);
+        ts::return_shared(ajo);
+        ts::return_shared(registry);
+        scenario.return_to_sender(rep);
+    }
+
+    fun claim_as_student(scenario: &mut Scenario) {
+        scenario.next_tx(STUDENT);
+        let mut ajo = scenario.take_shared<AlumniAjo>();
+        let mut handout = scenario.take_shared<Handout>();
+        echo::claim_reward(&mut ajo, &mut handout, scenario.ctx());
+        assert!(echo::is_reward_claimed(&handout), 0);
+        ts::return_shared(handout);
+        ts::return_shared(ajo);
+    }
+
+    fun assert_student_paid(scenario: &mut Scenario) {
+        scenario.next_tx(STUDENT);
+        let reward = scenario.take_from_sender<Coin<SUI>>();
+        assert!(coin::value(&reward) == REWARD, 1);
+        scenario.return_to_sender(reward);
+    }
+
+    #[test]
+    fun admin_verifies_student_handout_and_student_claims() {
+        let mut scenario = setup();
+
+        scenario.next_tx(ADMIN);
+        {
+            let admin = scenario.take_from_sender<AdminCap>();
+            let mut ajo = scenario.take_shared<AlumniAjo>();
+            let mut handout = scenario.take_shared<Handout>();
+            echo::verify_handout_admin(&admin, &mut handout, &mut ajo, scenario.ctx());
+            assert!(echo::is_verified(&handout), 2);
+            assert!(echo::get_total_verified(&ajo) == 1, 3);
+            ts::return_shared(handout);
+            ts::return_shared(ajo);
+            scenario.return_to_sender(admin);
+        };
+
+        claim_as_student(&mut scenario);
+        assert_student_paid(&mut scenario);
+        scenario.end();
+    }
+
+    #[test]
+    fun course_rep_verifies_student_handout() {
+        let mut scenario = setup();
+        appoint_rep(&mut scenario, b"CSC101");
+        verify_as_rep(&mut scenario);
+
+        claim_as_student(&mut scenario);
+        assert_student_paid(&mut scenario);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::ENotRepForCourse)]
+    fun course_rep_cannot_verify_other_courses() {
+        let mut scenario = setup();
+        appoint_rep(&mut scenario, b"MTH201");
+        verify_as_rep(&mut scenario);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::ECannotVerifyOwnHandout)]
+    fun course_rep_cannot_verify_own_handout() {
+        let mut scenario = setup();
+        appoint_rep(&mut scenario, b"CSC101");
+
+        scenario.next_tx(REP);
+        echo::mint_handout(b"walrus-blob-0002", b"Rep's own notes", b"CSC101", scenario.ctx());
+
+        // take_shared picks the rep's handout, the most recently shared one
+        verify_as_rep(&mut scenario);
+        scenario.end();
+    }
+
+    #[test]
+    fun lecturer_endorsement_verifies_student_handout() {
+        let mut scenario = setup();
+        issue_lecturer(&mut scenario);
+
+        scenario.next_tx(LECTURER);
+        {
+            let lecturer = scenario.take_from_sender<LecturerCap>();
+            let mut ajo = scenario.take_shared<AlumniAjo>();
+            let mut handout = scenario.take_shared<Handout>();
+            echo::endorse_handout(&lecturer, &mut handout, &mut ajo, scenario.ctx());
+            assert!(echo::is_verified(&handout), 2);
+            assert!(echo::get_endorsed_by(&handout) == option::some(LECTURER), 4);
+            ts::return_shared(handout);
+            ts::return_shared(ajo);
+            scenario.return_to_sender(lecturer);
+        };
+
+        claim_as_student(&mut scenario);
+        assert_student_paid(&mut scenario);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::ENotLecturerForCourse)]
+    fun lecturer_cannot_endorse_other_courses() {
+        let mut scenario = setup();
+
+        scenario.next_tx(ADMIN);
+        {
+            let admin = scenario.take_from_sender<AdminCap>();
+            echo::issue_lecturer_cap(&admin, b"Dr. Bello", vector[b"MTH201"], LECTURER, scenario.ctx());
+            scenario.return_to_sender(admin);
+        };
+
+        scenario.next_tx(LECTURER);
+        let lecturer = scenario.take_from_sender<LecturerCap>();
+        let mut ajo = scenario.take_shared<AlumniAjo>();
+        let mut handout = scenario.take_shared<Handout>();
+        echo::endorse_handout(&lecturer, &mut handout, &mut ajo, scenario.ctx());
+
+        ts::return_shared(handout);
+        ts::return_shared(ajo);
+        scenario.return_to_sender(lecturer);
+        scenario.end();
+    }
+
+    /// ADMIN verifies the most recently minted handout
+    fun verify_as_admin(scenario: &mut Scenario) {
+        scenario.next_tx(ADMIN);
+        let admin = scenario.take_from_sender<AdminCap>();
+        let mut ajo = scenario.take_shared<AlumniAjo>();
+        let mut handout = scenario.take_shared<Handout>();
+        echo::verify_handout_admin(&admin, &mut handout, &mut ajo, scenario.ctx());
+        ts::return_shared(handout);
+        ts::return_shared(ajo);
+        scenario.return_to_sender(admin);
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::ERewardAlreadyClaimed)]
+    fun reward_is_paid_only_once() {
+        let mut scenario = setup();
+        verify_as_admin(&mut scenario);
+
+        claim_as_student(&mut scenario);
+        claim_as_student(&mut scenario);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::EOfficialHandout)]
+    fun official_handouts_earn_no_reward() {
+        let mut scenario = setup();
+        issue_lecturer(&mut scenario);
+
+        scenario.next_tx(LECTURER);
+        {
+            let lecturer = scenario.take_from_sender<LecturerCap>();
+            let mut ajo = scenario.take_shared<AlumniAjo>();
+            echo::mint_official_handout(&lecturer, &mut ajo, b"walrus-blob-0003", b"Course outline", b"CSC101", scenario.ctx());
+            ts::return_shared(ajo);
+            scenario.return_to_sender(lecturer);
+        };
+
+        // Official handouts are verified on mint; take_shared picks the official one, the most recently shared
+        scenario.next_tx(LECTURER);
+        let mut ajo = scenario.take_shared<AlumniAjo>();
+        let mut handout = scenario.take_shared<Handout>();
+        assert!(echo::is_verified(&handout), 2);
+        echo::claim_reward(&mut ajo, &mut handout, scenario.ctx());
+
+        ts::return_shared(handout);
+        ts::return_shared(ajo);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = sui_echo::echo::ENotVerified)]
+    fun unverified_handout_cannot_be_claimed() {
+        let mut scenario = setup();
+        claim_as_student(&mut scenario);
+        scenario.end();
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Suiecho Service Worker
+ * Keeps the reader usable offline:
+ * - /reader and /dashboard/library are cached network-first, their Next.js assets cache-first
+ * - Walrus aggregator blob requests are answered from the offline library in IndexedDB
+ *
+ * OFFLINE_DB_NAME and HANDOUT_STORE must match src/lib/offline-library.ts
+ */
+
+const CACHE_NAME = "sui-echo-pages-v1";
+const OFFLINE_PAGES = ["/reader", "/dashboard/library"];
+const OFFLINE_DB_NAME = "sui-echo-offline";
+const HANDOUT_STORE = "handouts";
+const BLOB_PATH_PATTERN = /\/v1\/blobs\/([^/]+)$/;
+const STATIC_ASSET_PATTERN = /\/_next\/static\/[^"'\s)\\]+/g;
+
+/**
+ * Caches the offline pages and the static assets their HTML references
+ */
+async function cacheOfflinePages() {
+    const cache = await caches.open(CACHE_NAME);
+    await Promise.all(OFFLINE_PAGES.map(async (page) => {
+        const response = await fetch(page);
+        if (!response.ok) return;
+
+        const html = await response.clone().text();
+        await cache.put(page, response);
+
+        const assets = [...new Set(html.match(STATIC_ASSET_PATTERN) ?? [])];
+        await Promise.all(assets.map(asset => cache.add(asset).catch(() => undefined)));
+    }));
+}
+
+/**
+ * Reads a saved handout's content; null if it was never saved or the library doesn't exist yet
+ */
+function getOfflineBlob(blobId) {
+    return new Promise((resolve) => {
+        const request = indexedDB.open(OFFLINE_DB_NAME);
+        // No library yet: don't create an empty database the page would then fail to upgrade
+        request.onupgradeneeded = () => request.transaction.abort();
+        request.onerror = () => resolve(null);
+        request.onsuccess = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(HANDOUT_STORE)) {
+                db.close();
+                resolve(null);
+                return;
+            }
+
+            const get = db.transaction(HANDOUT_STORE, "readonly").objectStore(HANDOUT_STORE).get(blobId);
+            get.onsuccess = () => resolve(get.result ? get.result.content : null);
+            get.onerror = () => resolve(null);
+            get.transaction.oncomplete = () => db.close();
+        };
+    });
+}
+
+async function handleBlobRequest(request, blobId) {
+    // Blobs are immutable, so a saved copy never needs revalidating
+    const content = await getOfflineBlob(decodeURIComponent(blobId));
+    if (content !== null) {
+        return new Response(content, { headers: { "Content-Type": "application/octet-stream" } });
+    }
+    return fetch(request);
+}
+
+async function handlePageRequest(request, page) {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) await cache.put(page, response.clone());
+        return response;
+    } catch (error) {
+        // Query strings such as ?blobId= are read client-side, so one cached copy serves every handout
+        const cached = await cache.match(page);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+async function handleAssetRequest(request) {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+}
+
+self.addEventListener("install", (event) => {
+    event.waitUntil(cacheOfflinePages().catch(() => undefined).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener("message", (event) => {
+    if (event.data?.type === "cache-offline-pages") {
+        event.waitUntil(cacheOfflinePages().catch(() => undefined));
+    }
+});
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    if (request.method !== "GET") return;
+
+    const url = new URL(request.url);
+    const blobMatch = url.pathname.match(BLOB_PATH_PATTERN);
+
+    if (url.origin !== self.location.origin) {
+        if (blobMatch) event.respondWith(handleBlobRequest(request, blobMatch[1]));
+        return;
+    }
+
+    if (request.mode === "navigate" && OFFLINE_PAGES.includes(url.pathname)) {
+        event.respondWith(handlePageRequest(request, url.pathname));
+    } else if (url.pathname.startsWith("/_next/static/")) {
+        event.respondWith(handleAssetRequest(request));
+    }
+});
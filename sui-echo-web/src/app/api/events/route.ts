@@ -0,0 +1,59 @@
+/**
+ * Indexed Events API Route
+ * GET /api/events?type=&course=&address=&objectId=&from=&to=&limit=
+ *
+ * Queries echo events from the local indexer instead of the fullnode
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { INDEXED_EVENT_NAMES, type IndexedEventName } from '@/lib/indexer/events';
+import { parseTimeParam } from '@/lib/indexer/store';
+import { getFreshIndexerStore } from '@/lib/indexer/sync';
+
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+    try {
+        const params = request.nextUrl.searchParams;
+
+        const type = params.get('type');
+        if (type && !(INDEXED_EVENT_NAMES as readonly string[]).includes(type)) {
+            return NextResponse.json(
+                { error: `Unknown event type. Expected one of: ${INDEXED_EVENT_NAMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const fromMs = parseTimeParam(params.get('from'));
+        const toMs = parseTimeParam(params.get('to'));
+        const limit = Number(params.get('limit') || 100);
+        if (Number.isNaN(fromMs) || Number.isNaN(toMs) || !Number.isInteger(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid from, to or limit' },
+                { status: 400 }
+            );
+        }
+
+        const store = await getFreshIndexerStore();
+        const events = store.queryEvents({
+            name: (type as IndexedEventName) || undefined,
+            courseCode: params.get('course')?.trim().toUpperCase() || undefined,
+            address: params.get('address') || undefined,
+            objectId: params.get('objectId') || undefined,
+            fromMs,
+            toMs,
+            limit: Math.min(limit, MAX_LIMIT),
+        });
+
+        return NextResponse.json({
+            events,
+            lastSyncedAtMs: store.lastSyncedAtMs,
+        });
+    } catch (error) {
+        console.error('[Events] Query failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to query events' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Indexed Handouts API Route
+ * GET /api/handouts?course=&uploader=&status=&from=&to=&limit=
+ *
+ * Lists handouts built from HandoutMinted, HandoutVerified, HandoutEndorsed and RewardClaimed events
+ * The time range filters on mint time
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTimeParam, type HandoutStatus } from '@/lib/indexer/store';
+import { getFreshIndexerStore } from '@/lib/indexer/sync';
+
+const HANDOUT_STATUSES: HandoutStatus[] = ['pending', 'verified', 'claimed'];
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+    try {
+        const params = request.nextUrl.searchParams;
+
+        const status = params.get('status');
+        if (status && !HANDOUT_STATUSES.includes(status as HandoutStatus)) {
+            return NextResponse.json(
+                { error: `Invalid status. Expected one of: ${HANDOUT_STATUSES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const fromMs = parseTimeParam(params.get('from'));
+        const toMs = parseTimeParam(params.get('to'));
+        const limit = Number(params.get('limit') || 100);
+        if (Number.isNaN(fromMs) || Number.isNaN(toMs) || !Number.isInteger(limit) || limit < 1) {
+            return NextResponse.json(
+                { error: 'Invalid from, to or limit' },
+                { status: 400 }
+            );
+        }
+
+        const store = await getFreshIndexerStore();
+        const handouts = store.queryHandouts({
+            courseCode: params.get('course')?.trim().toUpperCase() || undefined,
+            uploader: params.get('uploader') || undefined,
+            status: (status as HandoutStatus) || undefined,
+            fromMs,
+            toMs,
+            limit: Math.min(limit, MAX_LIMIT),
+        });
+
+        return NextResponse.json({
+            handouts,
+            lastSyncedAtMs: store.lastSyncedAtMs,
+        });
+    } catch (error) {
+        console.error('[Handouts] Query failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to query handouts' },
+            { status: 500 }
+        );
+    }
+}
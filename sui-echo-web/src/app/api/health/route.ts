@@ -4,17 +4,26 @@
  */
 
 import { NextResponse } from 'next/server';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 
 const SUI_NETWORK = process.env.SUI_NETWORK || 'testnet';
 const PACKAGE_ID = process.env.PACKAGE_ID || process.env.NEXT_PUBLIC_PACKAGE_ID || '';
 const ADMIN_SECRET_KEY = process.env.ADMIN_SECRET_KEY || '';
+const TEE_KEY_ID = process.env.TEE_KEY_ID || 'tee-1';
 
 export async function GET() {
+    // Report the key the TEE is currently signing attestations with
+    const teePublicKey = ADMIN_SECRET_KEY
+        ? Buffer.from(Ed25519Keypair.fromSecretKey(ADMIN_SECRET_KEY).getPublicKey().toRawBytes()).toString('hex')
+        : null;
+
     return NextResponse.json({
         status: 'healthy',
         version: '1.0.0',
         network: SUI_NETWORK,
         packageId: PACKAGE_ID ? `${PACKAGE_ID.slice(0, 10)}...` : 'NOT_CONFIGURED',
         adminKeyConfigured: !!ADMIN_SECRET_KEY,
+        teeKeyId: ADMIN_SECRET_KEY ? TEE_KEY_ID : null,
+        teePublicKey,
     });
 }
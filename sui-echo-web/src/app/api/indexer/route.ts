@@ -0,0 +1,44 @@
+/**
+ * Indexer API Route
+ * GET  /api/indexer - index statistics
+ * POST /api/indexer - pull new events from the node (or fixture) now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndexerStore, syncIndexer } from '@/lib/indexer/sync';
+
+// Optional shared secret for triggering syncs from a cron job
+const INDEXER_SYNC_TOKEN = process.env.INDEXER_SYNC_TOKEN || '';
+
+export async function GET() {
+    try {
+        return NextResponse.json(getIndexerStore().getStats());
+    } catch (error) {
+        console.error('[Indexer] Failed to read stats', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to read indexer stats' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (INDEXER_SYNC_TOKEN && request.headers.get('authorization') !== `Bearer ${INDEXER_SYNC_TOKEN}`) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const added = await syncIndexer();
+        const store = getIndexerStore();
+        return NextResponse.json({ added, ...store.getStats() });
+    } catch (error) {
+        console.error('[Indexer] Sync failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Indexer sync failed', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Reading Progress API Route
+ * GET /api/reading-progress?blobId= - progress synced for the signed-in address
+ * PUT /api/reading-progress         - save progress (the newer copy wins)
+ *
+ * Both require `Authorization: Bearer <zkLogin JWT>` and `X-ZkLogin-Salt` from zkLogin users,
+ * or a signed wallet auth message from browser-wallet users (see lib/wallet-auth)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyZkLoginRequest } from '@/lib/zklogin-auth';
+import { verifyWalletRequest } from '@/lib/wallet-auth';
+import { validateReadingProgress, type ReadingProgress } from '@/lib/reading-progress';
+import { getReadingProgressStore } from '@/lib/reading-progress-store';
+
+async function authenticate(request: NextRequest): Promise<string | NextResponse> {
+    try {
+        // The ID token expires long before the zkLogin session, so an expired one still identifies the user
+        const { address } = request.headers.has('authorization')
+            ? await verifyZkLoginRequest(request.headers, { allowExpired: true })
+            : await verifyWalletRequest(request.headers);
+        return normalizeSuiAddress(address);
+    } catch (error) {
+        return NextResponse.json(
+            { error: 'Unauthorized', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 401 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    const address = await authenticate(request);
+    if (address instanceof NextResponse) return address;
+
+    const blobId = request.nextUrl.searchParams.get('blobId');
+    if (!blobId) {
+        return NextResponse.json(
+            { error: 'Missing blobId' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const store = getReadingProgressStore();
+        await store.load();
+        return NextResponse.json({ progress: store.get(address, blobId) });
+    } catch (error) {
+        console.error('[Reading Progress] Read failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to read reading progress' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    const address = await authenticate(request);
+    if (address instanceof NextResponse) return address;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const problem = validateReadingProgress(body);
+    if (problem) {
+        return NextResponse.json(
+            { error: 'Invalid reading progress', details: problem },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const store = getReadingProgressStore();
+        await store.load();
+        // Keep only known fields
+        const { blobId, sentenceIndex, updatedAt, bookmarks } = body as ReadingProgress;
+        const progress = store.put(address, {
+            blobId,
+            sentenceIndex,
+            updatedAt,
+            bookmarks: bookmarks.map(({ id, name, sentenceIndex, createdAt }) => ({ id, name: name.trim(), sentenceIndex, createdAt })),
+        });
+        await store.save();
+        return NextResponse.json({ progress });
+    } catch (error) {
+        console.error('[Reading Progress] Save failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to save reading progress' },
+            { status: 500 }
+        );
+    }
+}
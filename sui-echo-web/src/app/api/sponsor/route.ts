@@ -1,40 +1,99 @@
 /**
- * Enoki Sponsored Transaction API Route
- * Uses private API key to sponsor and execute transactions for gasless UX
+ * Sponsored Transaction API Route
+ * Sponsors and executes transactions for gasless UX through the configured sponsor
+ * provider (Enoki or a self-hosted sponsor keypair, see lib/sponsor/providers)
+ *
+ * Sponsor requests must pass the sponsor policy (see lib/sponsor/policy); refusals return
+ * `{ error, rejection: { code, message, ... } }`
+ * Both steps require `Authorization: Bearer <zkLogin JWT>` and `X-ZkLogin-Salt` from zkLogin users,
+ * or a signed wallet auth message from browser-wallet users (see lib/wallet-auth)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { EnokiClient } from '@mysten/enoki';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getZkLoginAccountKey, verifyZkLoginRequest } from '@/lib/zklogin-auth';
+import { verifyWalletRequest } from '@/lib/wallet-auth';
+import {
+    checkQuotas,
+    checkSender,
+    checkTransactionKind,
+    getSponsoredTargets,
+    SPONSOR_QUOTA_LIMITS,
+    type SponsorRejection,
+    type SponsorRejectionCode,
+} from '@/lib/sponsor/policy';
+import { getSponsorQuotaStore } from '@/lib/sponsor/quotas';
+import { getSponsorProvider, type SponsorProvider, type SponsoredTransaction } from '@/lib/sponsor/providers';
 
-// This must be a private/secret API key (not public)
-const ENOKI_PRIVATE_KEY = process.env.NEXT_PUBLIC_ENOKI_PRIVATE_API_KEY;
+const REJECTION_STATUS: Record<SponsorRejectionCode, number> = {
+    invalid_transaction: 400,
+    unsupported_transaction_kind: 403,
+    command_not_allowed: 403,
+    target_not_allowed: 403,
+    gas_coin_not_allowed: 403,
+    sender_mismatch: 403,
+    address_quota_exceeded: 429,
+    function_quota_exceeded: 429,
+};
+
+function rejectTransaction(sender: string, rejection: SponsorRejection) {
+    console.warn('[Sponsor API] Rejected transaction', { sender, code: rejection.code, target: rejection.target });
+    return NextResponse.json(
+        { error: 'Transaction rejected by sponsor policy', rejection },
+        { status: REJECTION_STATUS[rejection.code] }
+    );
+}
 
 export async function POST(request: NextRequest) {
     try {
-        // Validate private key is configured
-        if (!ENOKI_PRIVATE_KEY) {
-            console.error('[Sponsor API] ENOKI_PRIVATE_API_KEY not configured');
+        // Validate the sponsor provider is configured
+        let provider: SponsorProvider;
+        try {
+            provider = getSponsorProvider();
+        } catch (error) {
+            console.error('[Sponsor API] Provider not configured', { error: error instanceof Error ? error.message : error });
             return NextResponse.json(
                 { error: 'Sponsorship not configured' },
                 { status: 500 }
             );
         }
 
+        const allowedTargets = getSponsoredTargets();
+        if (allowedTargets.length === 0) {
+            console.error('[Sponsor API] PACKAGE_ID not configured');
+            return NextResponse.json(
+                { error: 'Sponsorship not configured' },
+                { status: 500 }
+            );
+        }
+
+        // The ID token may have expired; the zkLogin signature is what authorizes execution
+        let verifiedAddress: string;
+        // Quotas follow the OAuth account for zkLogin users, since any salt gives a fresh address
+        let quotaKey: string;
+        try {
+            if (request.headers.has('authorization')) {
+                const identity = await verifyZkLoginRequest(request.headers, { allowExpired: true });
+                verifiedAddress = identity.address;
+                quotaKey = getZkLoginAccountKey(identity);
+            } else {
+                ({ address: verifiedAddress } = await verifyWalletRequest(request.headers));
+                quotaKey = normalizeSuiAddress(verifiedAddress);
+            }
+        } catch (error) {
+            return NextResponse.json(
+                { error: 'Unauthorized', details: error instanceof Error ? error.message : 'Unknown error' },
+                { status: 401 }
+            );
+        }
+
         // Parse request body
         const body = await request.json();
         const { transactionBytes, sender, signature } = body;
 
-        // Initialize Enoki client with private key
-        const enokiClient = new EnokiClient({
-            apiKey: ENOKI_PRIVATE_KEY,
-        });
-
         // If signature is provided, this is an execute request
         if (signature) {
-            const executeResponse = await enokiClient.executeSponsoredTransaction({
-                digest: body.digest,
-                signature: signature,
-            });
+            const executeResponse = await provider.execute(body.digest, signature);
 
             return NextResponse.json({
                 success: true,
@@ -43,22 +102,43 @@ export async function POST(request: NextRequest) {
         }
 
         // Otherwise, this is a sponsor request
-        if (!transactionBytes || !sender) {
+        if (!transactionBytes || !sender || typeof transactionBytes !== 'string' || typeof sender !== 'string') {
             return NextResponse.json(
                 { error: 'Missing transactionBytes or sender' },
                 { status: 400 }
             );
         }
 
-        // Sponsor the transaction (Enoki pays gas)
-        console.log('[Sponsor API] Sponsoring transaction for:', sender);
-        const sponsoredResponse = await enokiClient.createSponsoredTransaction({
-            network: 'testnet',
-            transactionKindBytes: transactionBytes,
-            sender: sender,
-            allowedMoveCallTargets: undefined, // Use dashboard config
-            allowedAddresses: undefined, // Use dashboard config
-        });
+        const senderRejection = checkSender(sender, verifiedAddress);
+        if (senderRejection) return rejectTransaction(sender, senderRejection);
+
+        const kindCheck = checkTransactionKind(transactionBytes, allowedTargets);
+        if (!kindCheck.allowed) return rejectTransaction(sender, kindCheck.rejection);
+
+        // Reserve quota before sponsoring so concurrent requests can't both slip under the limit
+        const quotaStore = getSponsorQuotaStore();
+        await quotaStore.load();
+        const now = Date.now();
+        const functionNames = kindCheck.moveCalls.map(call => call.functionName);
+        const quotaRejection = checkQuotas(quotaStore.getUsage(quotaKey, now), kindCheck.moveCalls, SPONSOR_QUOTA_LIMITS, now);
+        if (quotaRejection) return rejectTransaction(sender, quotaRejection);
+        quotaStore.record(quotaKey, functionNames, now);
+
+        // Sponsor the transaction (the provider pays gas)
+        console.log(`[Sponsor API] Sponsoring transaction via ${provider.name} for:`, sender, functionNames);
+        let sponsoredResponse: SponsoredTransaction;
+        try {
+            sponsoredResponse = await provider.sponsor({
+                transactionKindBytes: transactionBytes,
+                sender,
+                allowedMoveCallTargets: kindCheck.moveCalls.map(call => call.target),
+            });
+        } catch (error) {
+            quotaStore.release(quotaKey, functionNames, now);
+            throw error;
+        } finally {
+            await quotaStore.save();
+        }
 
         console.log('[Sponsor API] Transaction sponsored successfully');
 
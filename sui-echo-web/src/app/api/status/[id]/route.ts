@@ -65,6 +65,7 @@ export async function GET(
                 handoutId,
                 verified: fields?.verified || false,
                 blobId: fields?.blob_id || null,
+                courseCode: fields?.course_code || null,
                 uploader: fields?.uploader || null,
             },
             { headers: corsHeaders }
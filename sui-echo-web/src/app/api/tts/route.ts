@@ -0,0 +1,133 @@
+/**
+ * Text-to-Speech API Route
+ * GET  /api/tts?blobId= - the recorded audio track for a handout, or null
+ * POST /api/tts         - render a handout's audio track with the local TTS engine and upload it to Walrus
+ *
+ * POST requires `Authorization: Bearer <zkLogin JWT>` and `X-ZkLogin-Salt` from zkLogin users,
+ * or a signed wallet auth message from browser-wallet users (see lib/wallet-auth)
+ * Only handouts the indexer has seen minted are rendered, and each account may start
+ * TTS_ADDRESS_DAILY_LIMIT renders a day; returning an existing track is not counted
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getZkLoginAccountKey, verifyZkLoginRequest } from '@/lib/zklogin-auth';
+import { verifyWalletRequest } from '@/lib/wallet-auth';
+import { getFreshIndexerStore } from '@/lib/indexer/sync';
+import { getQuotaResetTime } from '@/lib/sponsor/quotas';
+import { getAudioTrackStore } from '@/lib/tts/store';
+import { getRenderQuotaStore, TTS_RENDERS_PER_ADDRESS } from '@/lib/tts/quotas';
+import { getTtsEngine } from '@/lib/tts/engines';
+import { renderAudioTrack } from '@/lib/tts/render';
+
+// Engines run as local processes
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+    const blobId = request.nextUrl.searchParams.get('blobId');
+    if (!blobId) {
+        return NextResponse.json(
+            { error: 'Missing blobId' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const store = getAudioTrackStore();
+        await store.load();
+        return NextResponse.json({ track: store.get(blobId) });
+    } catch (error) {
+        console.error('[TTS] Read failed', { error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to read audio track' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    // Renders are capped per OAuth account for zkLogin users, since any salt gives a fresh address
+    let quotaKey: string;
+    try {
+        // The ID token expires long before the zkLogin session, so an expired one still identifies the user
+        quotaKey = request.headers.has('authorization')
+            ? getZkLoginAccountKey(await verifyZkLoginRequest(request.headers, { allowExpired: true }))
+            : normalizeSuiAddress((await verifyWalletRequest(request.headers)).address);
+    } catch (error) {
+        return NextResponse.json(
+            { error: 'Unauthorized', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 401 }
+        );
+    }
+
+    let blobId: unknown;
+    try {
+        ({ blobId } = await request.json());
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    if (!blobId || typeof blobId !== 'string' || blobId.length > 200) {
+        return NextResponse.json(
+            { error: 'Missing or invalid blobId' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        getTtsEngine();
+    } catch (error) {
+        return NextResponse.json(
+            { error: 'Audio rendering unavailable', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 503 }
+        );
+    }
+
+    const trackStore = getAudioTrackStore();
+    await trackStore.load();
+    const existing = trackStore.get(blobId);
+    if (existing) return NextResponse.json({ track: existing });
+
+    // Rendering is expensive, so only narrate blobs that were minted as handouts
+    const indexer = await getFreshIndexerStore();
+    if (indexer.queryHandouts({ blobId, limit: 1 }).length === 0) {
+        return NextResponse.json(
+            { error: 'Unknown handout', details: 'No minted handout has this blob ID' },
+            { status: 404 }
+        );
+    }
+
+    // Reserve the render before starting so concurrent requests can't both slip under the limit
+    const quotaStore = getRenderQuotaStore();
+    await quotaStore.load();
+    const now = Date.now();
+    if (quotaStore.getUsage(quotaKey, now) >= TTS_RENDERS_PER_ADDRESS) {
+        console.warn('[TTS] Render quota exceeded', { account: quotaKey });
+        return NextResponse.json(
+            {
+                error: 'Render limit reached',
+                details: `You can render ${TTS_RENDERS_PER_ADDRESS} audio tracks a day`,
+                resetsAt: getQuotaResetTime(now),
+            },
+            { status: 429 }
+        );
+    }
+    quotaStore.record(quotaKey, now);
+    await quotaStore.save();
+
+    try {
+        const track = await renderAudioTrack(blobId);
+        return NextResponse.json({ track });
+    } catch (error) {
+        quotaStore.release(quotaKey, now);
+        await quotaStore.save();
+        console.error('[TTS] Render failed', { blobId, error: error instanceof Error ? error.message : error });
+        return NextResponse.json(
+            { error: 'Failed to render audio', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,17 +5,26 @@
  * Flow:
  * 1. Receives Blob ID and Handout Object ID
  * 2. Fetches content from Walrus
- * 3. Performs content verification
- * 4. Returns Ed25519 signature for user to submit to contract
+ * 3. Parses the handout document (JSON schema or legacy plain text) and checks it
+ *    against the on-chain handout
+ * 4. Returns Ed25519 signature over a structured attestation payload
+ *    (handout ID, blob ID, content hash, key ID, validity epochs) for user to submit to contract
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { isValidSuiObjectId, normalizeSuiObjectId } from '@mysten/sui/utils';
 import crypto from 'crypto';
+import { encodeAttestationPayload, ATTESTATION_TTL_EPOCHS } from '@/lib/attestation';
+import { parseHandoutContent, getDocumentText, type ParsedHandoutContent } from '@/lib/handout-document';
 
 // Configuration
 const WALRUS_AGGREGATOR = process.env.WALRUS_AGGREGATOR || 'https://aggregator.walrus-testnet.walrus.space';
 const ADMIN_SECRET_KEY = process.env.ADMIN_SECRET_KEY || '';
+const TEE_KEY_ID = process.env.TEE_KEY_ID || 'tee-1';
+const SUI_NETWORK = (process.env.SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet' | 'devnet';
+const client = new SuiClient({ url: getFullnodeUrl(SUI_NETWORK) });
 
 // CORS headers
 const corsHeaders = {
@@ -29,6 +38,16 @@ export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 }
 
+/**
+ * Checks that the document was written for the course the handout was minted for
+ */
+async function matchesHandoutCourse(handoutId: string, courseCode: string): Promise<boolean> {
+    const handout = await client.getObject({ id: handoutId, options: { showContent: true } });
+    const content = handout.data?.content;
+    if (content?.dataType !== 'moveObject') return false;
+    return (content.fields as { course_code?: string }).course_code === courseCode;
+}
+
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
@@ -48,9 +67,16 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (!isValidSuiObjectId(handoutId)) {
+            return NextResponse.json(
+                { error: 'handoutId is not a valid Sui object ID' },
+                { status: 400, headers: corsHeaders }
+            );
+        }
+
         // Sanitize inputs
         const sanitizedBlobId = blobId.replace(/[^a-zA-Z0-9_-]/g, '');
-        const sanitizedHandoutId = handoutId.replace(/[^a-zA-Z0-9x]/g, '');
+        const sanitizedHandoutId = normalizeSuiObjectId(handoutId);
 
         console.log('[TEE] Starting verification', { blobId: sanitizedBlobId, handoutId: sanitizedHandoutId });
 
@@ -70,16 +96,28 @@ export async function POST(request: NextRequest) {
             throw new Error(`Walrus fetch failed: ${response.status}`);
         }
 
-        const textContent = await response.text();
+        const contentBytes = Buffer.from(await response.arrayBuffer());
+        const textContent = contentBytes.toString('utf8');
         console.log('[TEE] Content fetched from Walrus', { contentLength: textContent.length });
 
-        // Step 2: Content verification
-        const contentHash = crypto.createHash('sha256').update(textContent).digest('hex');
+        // Step 2: Content verification (hash the exact stored bytes)
+        const contentHashBytes = crypto.createHash('sha256').update(contentBytes).digest();
+        const contentHash = contentHashBytes.toString('hex');
+
+        // Step 3: Structure checks; legacy plain-text blobs always parse
+        let parsed: ParsedHandoutContent | null = null;
+        try {
+            parsed = parseHandoutContent(textContent);
+        } catch (error) {
+            console.warn('[TEE] Invalid handout document', { error: error instanceof Error ? error.message : error });
+        }
 
         const verificationResults = {
-            minLengthCheck: textContent.length >= 10,
+            minLengthCheck: !!parsed && getDocumentText(parsed.document).length >= 10,
             hashCheck: expectedHash ? contentHash === expectedHash : true,
             contentIntegrity: true,
+            schemaCheck: !!parsed,
+            courseCodeCheck: !parsed || parsed.legacy || await matchesHandoutCourse(sanitizedHandoutId, parsed.document.courseCode),
         };
 
         const isVerified = Object.values(verificationResults).every(v => v);
@@ -98,7 +136,7 @@ export async function POST(request: NextRequest) {
 
         console.log('[TEE] Content verified successfully', { contentHash });
 
-        // Step 3: Generate attestation (signature) - NO TRANSACTION!
+        // Step 4: Generate attestation (signature) - NO TRANSACTION!
         if (!ADMIN_SECRET_KEY) {
             console.warn('[TEE] Admin key not configured');
             return NextResponse.json(
@@ -107,6 +145,7 @@ export async function POST(request: NextRequest) {
                     message: 'Content verified but TEE key not configured for attestation.',
                     contentHash,
                     verificationResults,
+                    legacyFormat: parsed?.legacy ?? false,
                 },
                 { headers: corsHeaders }
             );
@@ -116,17 +155,26 @@ export async function POST(request: NextRequest) {
         const keypair = Ed25519Keypair.fromSecretKey(ADMIN_SECRET_KEY);
         const publicKeyBytes = keypair.getPublicKey().toRawBytes();
 
-        // Create message: handoutId (hex bytes) + blobId (utf8 bytes)
-        // Remove 0x prefix from handout ID and convert to bytes
-        const handoutIdHex = sanitizedHandoutId.replace('0x', '');
-        const handoutIdBytes = Buffer.from(handoutIdHex, 'hex');
-        const blobIdBytes = Buffer.from(sanitizedBlobId, 'utf8');
-        const message = Buffer.concat([handoutIdBytes, blobIdBytes]);
+        // Create message: BCS attestation payload bound to this handout, blob and key,
+        // valid from the current epoch for ATTESTATION_TTL_EPOCHS epochs
+        const { epoch } = await client.getLatestSuiSystemState();
+        const issuedAtEpoch = Number(epoch);
+        const expiresAtEpoch = issuedAtEpoch + ATTESTATION_TTL_EPOCHS;
+
+        const message = encodeAttestationPayload({
+            handoutId: sanitizedHandoutId,
+            blobId: sanitizedBlobId,
+            contentHash: contentHashBytes,
+            keyId: TEE_KEY_ID,
+            issuedAtEpoch,
+            expiresAtEpoch,
+        });
 
         // Sign the message with Ed25519
         const signature = await keypair.sign(message);
 
         console.log('[TEE] Attestation generated', {
+            keyId: TEE_KEY_ID,
             publicKey: Buffer.from(publicKeyBytes).toString('hex'),
             messageLength: message.length,
             signatureLength: signature.length,
@@ -137,12 +185,17 @@ export async function POST(request: NextRequest) {
                 status: 'attestation_ready',
                 contentHash,
                 verificationResults,
+                legacyFormat: parsed?.legacy ?? false,
                 attestation: {
                     signature: Array.from(signature), // Convert Uint8Array to array for JSON
                     publicKey: Array.from(publicKeyBytes),
                     message: Array.from(message),
                     handoutId: sanitizedHandoutId,
                     blobId: sanitizedBlobId,
+                    contentHash,
+                    keyId: TEE_KEY_ID,
+                    issuedAtEpoch,
+                    expiresAtEpoch,
                     timestamp: new Date().toISOString(),
                 },
             },
@@ -2,7 +2,8 @@
 
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { completeZkLoginCallback } from "@/utils/zklogin-proof";
+import { completeZkLoginCallback, takeZkLoginReturnPath } from "@/utils/zklogin-proof";
+import { completeRenewalCallback, persistZkLoginSession } from "@/lib/zklogin-session";
 import { CheckCircle, XCircle, Loader2, ShieldCheck, User } from "lucide-react";
 
 type AuthStatus = "loading" | "generating_proof" | "success" | "error";
@@ -21,6 +22,13 @@ function CallbackContent() {
                 // 1. Extract ID token from URL hash (OIDC implicit flow)
                 const hash = window.location.hash.substring(1);
                 const params = new URLSearchParams(hash);
+
+                // Renewal popups hand the token back to the tab that opened them
+                if (completeRenewalCallback(params)) {
+                    setMessage("Renewing your session...");
+                    return;
+                }
+
                 let idToken = params.get("id_token");
 
                 // Also check query params as fallback
@@ -39,15 +47,22 @@ function CallbackContent() {
                 setMessage("Generating zero-knowledge proof...");
 
                 const result = await completeZkLoginCallback(idToken);
+                try {
+                    await persistZkLoginSession();
+                } catch (persistError) {
+                    // The session still works in this tab
+                    console.warn("[zkLogin] Could not persist session:", persistError);
+                }
 
                 // 3. Success!
                 setZkLoginAddress(result.zkLoginAddress);
                 setStatus("success");
                 setMessage("Authentication successful!");
 
-                // 4. Redirect after short delay
+                // 4. Redirect after short delay, back to the page a renewal started from if any
+                const returnPath = takeZkLoginReturnPath();
                 setTimeout(() => {
-                    router.push("/dashboard");
+                    router.push(returnPath);
                 }, 2000);
 
             } catch (err: any) {
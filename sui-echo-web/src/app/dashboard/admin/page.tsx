@@ -1,12 +1,16 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, ShieldCheck, Users, FileText, Check, X, RefreshCw, ExternalLink } from "lucide-react";
+import { Loader2, ShieldCheck, Users, FileText, Check, X, RefreshCw, ExternalLink, UserX, ArrowRightLeft, GraduationCap } from "lucide-react";
 import Sidebar from "@/components/Sidebar";
-import { getSuiClient, getZkLoginAddress, isZkLoginSessionValid } from "@/utils/zklogin-proof";
-import { TYPES, ADMIN_CAP_ID, COURSE_REP_REGISTRY_ID, TARGETS, PACKAGE_ID, isContractConfigured } from "@/lib/contract";
-import { useRouter } from "next/navigation";
+import { getSuiClient, getCurrentEpoch } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import { listCourseReps, type CourseRepEntry } from "@/lib/course-reps";
+import type { IndexedHandout } from "@/lib/indexer/store";
+import { TYPES, ADMIN_CAP_ID, COURSE_REP_REGISTRY_ID, ALUMNI_AJO_ID, TARGETS, PACKAGE_ID, MODULE_NAME, isContractConfigured } from "@/lib/contract";
 import { SUI_NETWORK } from "@/config";
+import { Transaction } from "@mysten/sui/transactions";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
 
 interface Application {
     id: string;
@@ -15,152 +19,434 @@ interface Application {
     name: string;
     studentId: string;
     department: string;
+    reason: string;
     createdAt: string;
+    // Lecturer address when the application was filed as a nomination
+    nominatedBy: string | null;
 }
 
 interface Handout {
     id: string;
     owner: string;
     blobId: string;
+    courseCode: string;
     metadata: string;
     verified: boolean;
     createdAt: string;
 }
 
+// Fields of a CourseRepApplication stored as a dynamic field value on the registry
+interface ApplicationFields {
+    applicant: string;
+    course_code: string;
+    full_name: string;
+    student_id: string;
+    department: string;
+    reason: string;
+    created_at: string;
+}
+
+// Payload of the CourseRepNominated event
+interface CourseRepNominatedEvent {
+    application_id: string;
+    nominated_by: string;
+}
+
+interface Lecturer {
+    id: string;
+    address: string;
+    name: string;
+    courseCodes: string[];
+}
+
+// Payload of the LecturerCapIssued event
+interface LecturerCapIssuedEvent {
+    lecturer_id: string;
+    lecturer: string;
+    name: string;
+    course_codes: string[];
+}
+
+// multiGetObjects accepts at most 50 IDs per request
+const MULTI_GET_LIMIT = 50;
+
 export default function AdminPage() {
-    const router = useRouter();
-    const [loading, setLoading] = useState(true);
+    const signer = useEchoSigner();
+    // Nothing to check until the contract is configured
+    const [loading, setLoading] = useState(isContractConfigured);
     const [isAdmin, setIsAdmin] = useState(false);
+    const [adminCapId, setAdminCapId] = useState<string | null>(null);
     const [applications, setApplications] = useState<Application[]>([]);
     const [pendingHandouts, setPendingHandouts] = useState<Handout[]>([]);
-    const [activeTab, setActiveTab] = useState<'applications' | 'handouts'>('applications');
+    const [courseReps, setCourseReps] = useState<CourseRepEntry[]>([]);
+    const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
+    const [lecturers, setLecturers] = useState<Lecturer[]>([]);
+    const [lecturerForm, setLecturerForm] = useState({ name: "", address: "", courseCodes: "" });
+    const [activeTab, setActiveTab] = useState<'applications' | 'handouts' | 'reps' | 'lecturers'>('applications');
     const [processing, setProcessing] = useState<string | null>(null);
-    const [adminAddress, setAdminAddress] = useState<string | null>(null);
+    const [refreshing, setRefreshing] = useState(false);
+    const [rejectingApplicant, setRejectingApplicant] = useState<string | null>(null);
+    const [rejectionReason, setRejectionReason] = useState("");
+    // Optional rep term in epochs, applied to approvals and hand-overs
+    const [termEpochs, setTermEpochs] = useState("");
+    const [handingOverRep, setHandingOverRep] = useState<string | null>(null);
+    const [incomingRep, setIncomingRep] = useState("");
+    const adminAddress = signer.address;
 
-    useEffect(() => {
-        checkAdminStatus();
-    }, []);
+    async function fetchPendingData() {
+        setRefreshing(true);
+        try {
+            console.log("[Admin] Fetching pending data...");
+            const [apps, handouts, reps, issuedLecturers, epoch] = await Promise.all([
+                fetchPendingApplications(),
+                fetchUnverifiedHandouts(),
+                COURSE_REP_REGISTRY_ID ? listCourseReps(getSuiClient()) : Promise.resolve([]),
+                fetchLecturers(),
+                getCurrentEpoch(),
+            ]);
+            setApplications(apps);
+            setPendingHandouts(handouts);
+            setCourseReps(reps);
+            setLecturers(issuedLecturers);
+            setCurrentEpoch(epoch);
+        } catch (error) {
+            console.error("[Admin] Error fetching data:", error);
+        } finally {
+            setRefreshing(false);
+        }
+    }
 
-    async function checkAdminStatus() {
-        if (!isZkLoginSessionValid()) {
-            router.push("/");
-            return;
+    // Pending applications live as dynamic fields on CourseRepRegistry, keyed by applicant address
+    async function fetchPendingApplications(): Promise<Application[]> {
+        if (!COURSE_REP_REGISTRY_ID) return [];
+        const client = getSuiClient();
+
+        const fieldIds: string[] = [];
+        let cursor: string | null = null;
+        do {
+            const page = await client.getDynamicFields({ parentId: COURSE_REP_REGISTRY_ID, cursor });
+            for (const field of page.data) {
+                if (field.objectType.endsWith(`::${MODULE_NAME}::CourseRepApplication`)) {
+                    fieldIds.push(field.objectId);
+                }
+            }
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+
+        const nominations = await fetchNominations();
+        const apps: Application[] = [];
+        for (let i = 0; i < fieldIds.length; i += MULTI_GET_LIMIT) {
+            const objects = await client.multiGetObjects({
+                ids: fieldIds.slice(i, i + MULTI_GET_LIMIT),
+                options: { showContent: true },
+            });
+
+            for (const obj of objects) {
+                const content = obj.data?.content;
+                if (content?.dataType !== "moveObject") continue;
+
+                const value = (content.fields as { value?: { fields?: ApplicationFields & { id: { id: string } } } }).value?.fields;
+                if (!value) continue;
+
+                apps.push({
+                    id: value.id.id,
+                    applicant: value.applicant,
+                    courseCode: value.course_code,
+                    name: value.full_name,
+                    studentId: value.student_id,
+                    department: value.department,
+                    reason: value.reason,
+                    createdAt: new Date(Number(value.created_at)).toLocaleString(),
+                    nominatedBy: nominations.get(value.id.id) ?? null,
+                });
+            }
         }
 
-        const address = getZkLoginAddress();
-        setAdminAddress(address);
+        return apps;
+    }
 
-        if (!address || !isContractConfigured()) {
-            setLoading(false);
-            return;
+    // Pending handouts come from the indexer, then are checked against current object state
+    async function fetchUnverifiedHandouts(): Promise<Handout[]> {
+        const response = await fetch("/api/handouts?status=pending&limit=500");
+        if (!response.ok) throw new Error("Failed to load pending handouts");
+        const { handouts: pending } = await response.json() as { handouts: IndexedHandout[] };
+
+        const client = getSuiClient();
+        const handouts: Handout[] = [];
+        for (let i = 0; i < pending.length; i += MULTI_GET_LIMIT) {
+            const batch = pending.slice(i, i + MULTI_GET_LIMIT);
+            const objects = await client.multiGetObjects({
+                ids: batch.map(handout => handout.id),
+                options: { showContent: true },
+            });
+
+            objects.forEach((obj, index) => {
+                const content = obj.data?.content;
+                if (content?.dataType !== "moveObject") return;
+
+                // The index can trail the chain by a sync, so skip handouts verified since
+                const fields = content.fields as { verified?: boolean; description?: string };
+                if (fields.verified) return;
+
+                const handout = batch[index];
+                handouts.push({
+                    id: handout.id,
+                    owner: handout.uploader,
+                    blobId: handout.blobId,
+                    courseCode: handout.courseCode,
+                    metadata: fields.description || "Handout",
+                    verified: false,
+                    createdAt: new Date(handout.mintedAtMs).toLocaleString(),
+                });
+            });
         }
 
-        try {
-            const client = getSuiClient();
+        return handouts;
+    }
 
-            // Check if user owns AdminCap
-            const ownedObjects = await client.getOwnedObjects({
-                owner: address,
-                options: { showType: true },
+    async function executeAdminTransaction(tx: Transaction, successMessage: string) {
+        const result = await signer.executeSponsored(tx);
+        console.log("[Admin] Transaction executed:", result.digest);
+
+        alert(`${successMessage}\n\nTx: ${result.digest}`);
+        await fetchPendingData();
+    }
+
+    // Pages through every event of one echo type, newest first
+    async function queryAllEvents<T>(eventName: string): Promise<T[]> {
+        const client = getSuiClient();
+
+        const payloads: T[] = [];
+        let cursor: Awaited<ReturnType<typeof client.queryEvents>>["nextCursor"] = null;
+        do {
+            const page = await client.queryEvents({
+                query: { MoveEventType: `${PACKAGE_ID}::${MODULE_NAME}::${eventName}` },
+                cursor,
+                order: "descending",
             });
+            payloads.push(...page.data.map(event => event.parsedJson as T));
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
 
-            const hasAdminCap = ownedObjects.data.some(obj =>
-                obj.data?.type?.includes("AdminCap")
-            );
+        return payloads;
+    }
 
-            setIsAdmin(hasAdminCap);
+    // Maps application ID -> nominating lecturer for applications filed by lecturers
+    async function fetchNominations(): Promise<Map<string, string>> {
+        const events = await queryAllEvents<CourseRepNominatedEvent>("CourseRepNominated");
 
-            if (hasAdminCap) {
-                await fetchPendingData();
-            }
-        } catch (error) {
-            console.error("[Admin] Error checking status:", error);
-        } finally {
-            setLoading(false);
+        return new Map(events.map(payload => [payload.application_id, payload.nominated_by]));
+    }
+
+    // Lecturer caps are owned by the lecturers, so list them from their issue events
+    async function fetchLecturers(): Promise<Lecturer[]> {
+        const events = await queryAllEvents<LecturerCapIssuedEvent>("LecturerCapIssued");
+
+        return events.map(payload => ({
+            id: payload.lecturer_id,
+            address: payload.lecturer,
+            name: payload.name,
+            courseCodes: payload.course_codes,
+        }));
+    }
+
+    // Converts the optional term length into the cap's expiry epoch
+    function getTermExpiry(): number | null {
+        const term = Number(termEpochs);
+        if (!termEpochs.trim() || currentEpoch === null) return null;
+        if (!Number.isInteger(term) || term < 1) {
+            throw new Error("Term must be a whole number of epochs");
         }
+        return currentEpoch + term;
     }
 
-    async function fetchPendingData() {
+    async function handleApproveApplication(applicant: string) {
+        if (!adminCapId) return;
+        setProcessing(applicant);
         try {
-            const client = getSuiClient();
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.approve_course_rep,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.address(applicant),
+                    tx.pure.option("u64", getTermExpiry()),
+                ],
+            });
 
-            // Fetch CourseRepApplications (they're transferred to applicant, query all and filter)
-            // In a real setup, you'd query events or use a custom indexer
-            // For now, we'll show a placeholder
+            await executeAdminTransaction(tx, "Application approved. A CourseRepCap was sent to the applicant.");
+        } catch (error) {
+            console.error("[Admin] Error:", error);
+            alert(`Failed to approve: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
 
-            // Fetch unverified Handouts
-            // This would require an indexer or event query in production
+    async function handleRejectApplication(applicant: string) {
+        if (!adminCapId || !rejectionReason.trim()) return;
+        setProcessing(applicant);
+        try {
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.reject_course_rep,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.address(applicant),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(rejectionReason.trim()))),
+                ],
+            });
 
-            console.log("[Admin] Fetching pending data...");
+            await executeAdminTransaction(tx, "Application rejected.");
+            setRejectingApplicant(null);
+            setRejectionReason("");
+        } catch (error) {
+            console.error("[Admin] Error:", error);
+            alert(`Failed to reject: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
 
-            // Simulated data for demo - in production use event queries
-            setApplications([]);
-            setPendingHandouts([]);
+    async function handleRevokeRep(repAddress: string) {
+        if (!adminCapId) return;
+        if (!confirm(`Revoke course rep ${repAddress.slice(0, 10)}...? Their cap stops working immediately.`)) return;
+        setProcessing(repAddress);
+        try {
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.revoke_course_rep,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.address(repAddress),
+                ],
+            });
 
+            await executeAdminTransaction(tx, "Course rep revoked.");
         } catch (error) {
-            console.error("[Admin] Error fetching data:", error);
+            console.error("[Admin] Error:", error);
+            alert(`Failed to revoke: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
         }
     }
 
-    async function handleApproveApplication(appId: string) {
-        setProcessing(appId);
+    async function handleHandOver(outgoingRep: string) {
+        if (!adminCapId) return;
+        if (!isValidSuiAddress(normalizeSuiAddress(incomingRep.trim()))) {
+            alert("Enter a valid Sui address for the new rep");
+            return;
+        }
+        setProcessing(outgoingRep);
         try {
-            // Build CLI command for the admin
-            const command = `sui client call \\
-  --package ${PACKAGE_ID} \\
-  --module echo \\
-  --function approve_course_rep \\
-  --args ${ADMIN_CAP_ID} ${COURSE_REP_REGISTRY_ID} ${appId} \\
-  --gas-budget 10000000`;
-
-            navigator.clipboard.writeText(command);
-            alert(`Command copied to clipboard! Run it in your terminal:\n\n${command}`);
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.hand_over_course_rep,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.address(outgoingRep),
+                    tx.pure.address(normalizeSuiAddress(incomingRep.trim())),
+                    tx.pure.option("u64", getTermExpiry()),
+                ],
+            });
+
+            await executeAdminTransaction(tx, "Course handed over. A new CourseRepCap was sent to the incoming rep.");
+            setHandingOverRep(null);
+            setIncomingRep("");
         } catch (error) {
             console.error("[Admin] Error:", error);
-            alert("Failed to approve. See console for details.");
+            alert(`Failed to hand over: ${error instanceof Error ? error.message : "Unknown error"}`);
         } finally {
             setProcessing(null);
         }
     }
 
-    async function handleRejectApplication(appId: string) {
-        setProcessing(appId);
+    async function handleIssueLecturerCap() {
+        if (!adminCapId) return;
+        const recipient = normalizeSuiAddress(lecturerForm.address.trim());
+        const courseCodes = lecturerForm.courseCodes
+            .split(",")
+            .map(code => code.trim().toUpperCase())
+            .filter(Boolean);
+
+        if (!isValidSuiAddress(recipient) || courseCodes.length === 0 || !lecturerForm.name.trim()) {
+            alert("Enter the lecturer's name, a valid Sui address and at least one course code");
+            return;
+        }
+
+        setProcessing("lecturer");
         try {
-            const command = `sui client call \\
-  --package ${PACKAGE_ID} \\
-  --module echo \\
-  --function reject_course_rep \\
-  --args ${ADMIN_CAP_ID} ${COURSE_REP_REGISTRY_ID} ${appId} \\
-  --gas-budget 10000000`;
-
-            navigator.clipboard.writeText(command);
-            alert(`Command copied to clipboard! Run it in your terminal:\n\n${command}`);
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.issue_lecturer_cap,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(lecturerForm.name.trim()))),
+                    tx.pure.vector("vector<u8>", courseCodes.map(code => Array.from(new TextEncoder().encode(code)))),
+                    tx.pure.address(recipient),
+                ],
+            });
+
+            await executeAdminTransaction(tx, "LecturerCap issued.");
+            setLecturerForm({ name: "", address: "", courseCodes: "" });
         } catch (error) {
             console.error("[Admin] Error:", error);
+            alert(`Failed to issue LecturerCap: ${error instanceof Error ? error.message : "Unknown error"}`);
         } finally {
             setProcessing(null);
         }
     }
 
     async function handleVerifyHandout(handoutId: string) {
+        if (!adminCapId) return;
         setProcessing(handoutId);
         try {
-            const command = `sui client call \\
-  --package ${PACKAGE_ID} \\
-  --module echo \\
-  --function verify_handout_admin \\
-  --args ${ADMIN_CAP_ID} ${handoutId} \\
-  --gas-budget 10000000`;
-
-            navigator.clipboard.writeText(command);
-            alert(`Command copied to clipboard! Run it in your terminal:\n\n${command}`);
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.verify_handout_admin,
+                arguments: [
+                    tx.object(adminCapId),
+                    tx.object(handoutId),
+                    tx.object(ALUMNI_AJO_ID),
+                ],
+            });
+
+            await executeAdminTransaction(tx, "Handout verified.");
         } catch (error) {
             console.error("[Admin] Error:", error);
+            alert(`Failed to verify: ${error instanceof Error ? error.message : "Unknown error"}`);
         } finally {
             setProcessing(null);
         }
     }
 
+    useEffect(() => {
+        if (!signer.address || !isContractConfigured()) return;
+
+        // Check if user owns AdminCap
+        getSuiClient()
+            .getOwnedObjects({
+                owner: signer.address,
+                filter: { StructType: TYPES.AdminCap },
+                options: { showType: true },
+            })
+            .then(async ownedObjects => {
+                const capId = ownedObjects.data[0]?.data?.objectId || null;
+                setAdminCapId(capId);
+                setIsAdmin(!!capId);
+
+                if (capId) {
+                    await fetchPendingData();
+                }
+            })
+            .catch(error => console.error("[Admin] Error checking status:", error))
+            .finally(() => setLoading(false));
+    }, [signer.address]);
+
     if (loading) {
         return (
             <div className="min-h-screen bg-[#0A0F1D] text-white flex items-center justify-center">
@@ -208,7 +494,7 @@ export default function AdminPage() {
                                 {ADMIN_CAP_ID}
                             </code>
                             <p className="text-xs text-gray-500 mt-4">
-                                Transfer this AdminCap to your zkLogin address to gain admin access.
+                                Transfer this AdminCap to your account address to gain admin access.
                             </p>
                         </div>
                     )}
@@ -237,14 +523,55 @@ export default function AdminPage() {
                                     <FileText size={16} className="inline mr-2" />
                                     Pending Handouts
                                 </button>
+                                <button
+                                    onClick={() => setActiveTab('reps')}
+                                    className={`px-4 py-2 rounded-lg font-bold text-sm transition-colors ${activeTab === 'reps'
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                                        }`}
+                                >
+                                    <ShieldCheck size={16} className="inline mr-2" />
+                                    Course Reps
+                                </button>
+                                <button
+                                    onClick={() => setActiveTab('lecturers')}
+                                    className={`px-4 py-2 rounded-lg font-bold text-sm transition-colors ${activeTab === 'lecturers'
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                                        }`}
+                                >
+                                    <GraduationCap size={16} className="inline mr-2" />
+                                    Lecturers
+                                </button>
                                 <button
                                     onClick={fetchPendingData}
-                                    className="ml-auto px-3 py-2 bg-white/5 text-gray-400 rounded-lg hover:bg-white/10 transition-colors"
+                                    disabled={refreshing}
+                                    className="ml-auto px-3 py-2 bg-white/5 text-gray-400 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                                    aria-label="Refresh pending items"
                                 >
-                                    <RefreshCw size={16} />
+                                    <RefreshCw size={16} className={refreshing ? "animate-spin" : ""} />
                                 </button>
                             </div>
 
+                            {/* Rep term used by approvals and hand-overs */}
+                            {(activeTab === 'applications' || activeTab === 'reps') && (
+                                <div className="mb-4 flex items-center gap-3 text-sm">
+                                    <label htmlFor="term-epochs" className="text-gray-400">Rep term (epochs):</label>
+                                    <input
+                                        id="term-epochs"
+                                        type="number"
+                                        min={1}
+                                        value={termEpochs}
+                                        onChange={(e) => setTermEpochs(e.target.value)}
+                                        placeholder="No expiry"
+                                        className="w-32 px-3 py-1.5 bg-black/40 border border-white/10 rounded-lg focus:outline-none focus:border-blue-500 transition-colors"
+                                    />
+                                    {currentEpoch !== null && (
+                                        <span className="text-xs text-gray-500">Current epoch: {currentEpoch}</span>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Content */}
                             <div className="bg-white/5 border border-white/10 rounded-2xl overflow-hidden">
                                 {activeTab === 'applications' && (
@@ -255,40 +582,195 @@ export default function AdminPage() {
                                                 <Users size={40} className="mx-auto mb-3 opacity-50" />
                                                 <p>No pending applications</p>
                                                 <p className="text-xs mt-2">
-                                                    To find applications, query CourseRepApplication objects or check transaction events.
+                                                    New applications submitted to the CourseRepRegistry will appear here.
                                                 </p>
-                                                <div className="mt-4 p-4 bg-black/40 rounded-lg text-left">
-                                                    <p className="text-xs text-gray-400 mb-2">Run this command to find applications:</p>
-                                                    <code className="text-xs text-green-400">
-                                                        sui client objects | grep CourseRepApplication
-                                                    </code>
-                                                </div>
                                             </div>
                                         ) : (
                                             <div className="space-y-4">
                                                 {applications.map(app => (
-                                                    <div key={app.id} className="p-4 bg-black/20 rounded-xl flex justify-between items-center">
-                                                        <div>
-                                                            <p className="font-bold">{app.name}</p>
-                                                            <p className="text-sm text-gray-400">{app.courseCode} • {app.department}</p>
-                                                            <p className="text-xs text-gray-500 font-mono mt-1">{app.id}</p>
+                                                    <div key={app.id} className="p-4 bg-black/20 rounded-xl">
+                                                        <div className="flex justify-between items-center gap-4">
+                                                            <div className="min-w-0">
+                                                                <p className="font-bold flex items-center gap-2">
+                                                                    {app.name}
+                                                                    {app.nominatedBy && (
+                                                                        <span className="px-2 py-0.5 bg-blue-500/10 text-blue-400 text-xs rounded-full flex items-center gap-1">
+                                                                            <GraduationCap size={12} /> Lecturer nomination
+                                                                        </span>
+                                                                    )}
+                                                                </p>
+                                                                <p className="text-sm text-gray-400">{app.courseCode} • {app.department} • {app.studentId}</p>
+                                                                <p className="text-sm text-gray-300 mt-2">{app.reason}</p>
+                                                                <p className="text-xs text-gray-500 font-mono mt-1 truncate">{app.applicant} • {app.createdAt}</p>
+                                                            </div>
+                                                            <div className="flex gap-2 shrink-0">
+                                                                <button
+                                                                    onClick={() => handleApproveApplication(app.applicant)}
+                                                                    disabled={processing === app.applicant}
+                                                                    className="px-3 py-2 bg-green-600 hover:bg-green-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                >
+                                                                    {processing === app.applicant ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Approve
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => {
+                                                                        setRejectingApplicant(rejectingApplicant === app.applicant ? null : app.applicant);
+                                                                        setRejectionReason("");
+                                                                    }}
+                                                                    disabled={processing === app.applicant}
+                                                                    className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                >
+                                                                    <X size={14} /> Reject
+                                                                </button>
+                                                            </div>
                                                         </div>
-                                                        <div className="flex gap-2">
-                                                            <button
-                                                                onClick={() => handleApproveApplication(app.id)}
-                                                                disabled={processing === app.id}
-                                                                className="px-3 py-2 bg-green-600 hover:bg-green-500 rounded-lg text-sm font-bold flex items-center gap-1"
-                                                            >
-                                                                <Check size={14} /> Approve
-                                                            </button>
-                                                            <button
-                                                                onClick={() => handleRejectApplication(app.id)}
-                                                                disabled={processing === app.id}
-                                                                className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-sm font-bold flex items-center gap-1"
-                                                            >
-                                                                <X size={14} /> Reject
-                                                            </button>
+
+                                                        {rejectingApplicant === app.applicant && (
+                                                            <div className="mt-4 flex gap-2">
+                                                                <input
+                                                                    type="text"
+                                                                    value={rejectionReason}
+                                                                    onChange={(e) => setRejectionReason(e.target.value)}
+                                                                    placeholder="Reason for rejection (sent on-chain)"
+                                                                    aria-label="Rejection reason"
+                                                                    className="flex-1 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-sm focus:outline-none focus:border-red-500 transition-colors"
+                                                                />
+                                                                <button
+                                                                    onClick={() => handleRejectApplication(app.applicant)}
+                                                                    disabled={!rejectionReason.trim() || processing === app.applicant}
+                                                                    className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                >
+                                                                    {processing === app.applicant && <Loader2 size={14} className="animate-spin" />} Confirm Reject
+                                                                </button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {activeTab === 'reps' && (
+                                    <div className="p-6">
+                                        <h3 className="font-bold mb-4">Active Course Reps</h3>
+                                        {courseReps.length === 0 ? (
+                                            <div className="text-center py-12 text-gray-500">
+                                                <ShieldCheck size={40} className="mx-auto mb-3 opacity-50" />
+                                                <p>No verified course reps</p>
+                                            </div>
+                                        ) : (
+                                            <div className="space-y-4">
+                                                {courseReps.map(rep => {
+                                                    const expired = rep.expiresAtEpoch !== null && currentEpoch !== null && currentEpoch >= rep.expiresAtEpoch;
+                                                    return (
+                                                        <div key={rep.address} className="p-4 bg-black/20 rounded-xl">
+                                                            <div className="flex justify-between items-center gap-4">
+                                                                <div className="min-w-0">
+                                                                    <p className="font-bold">{rep.courseCode}</p>
+                                                                    <p className="text-xs text-gray-500 font-mono mt-1 truncate">{rep.address}</p>
+                                                                    <p className={`text-xs mt-1 ${expired ? "text-red-400" : "text-gray-400"}`}>
+                                                                        {rep.expiresAtEpoch === null
+                                                                            ? "No term limit"
+                                                                            : expired
+                                                                                ? `Term ended at epoch ${rep.expiresAtEpoch}`
+                                                                                : `Term ends at epoch ${rep.expiresAtEpoch}`}
+                                                                    </p>
+                                                                </div>
+                                                                <div className="flex gap-2 shrink-0">
+                                                                    <button
+                                                                        onClick={() => {
+                                                                            setHandingOverRep(handingOverRep === rep.address ? null : rep.address);
+                                                                            setIncomingRep("");
+                                                                        }}
+                                                                        disabled={processing === rep.address}
+                                                                        className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                    >
+                                                                        <ArrowRightLeft size={14} /> Hand Over
+                                                                    </button>
+                                                                    <button
+                                                                        onClick={() => handleRevokeRep(rep.address)}
+                                                                        disabled={processing === rep.address}
+                                                                        className="px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                    >
+                                                                        {processing === rep.address ? <Loader2 size={14} className="animate-spin" /> : <UserX size={14} />} Revoke
+                                                                    </button>
+                                                                </div>
+                                                            </div>
+
+                                                            {handingOverRep === rep.address && (
+                                                                <div className="mt-4 flex gap-2">
+                                                                    <input
+                                                                        type="text"
+                                                                        value={incomingRep}
+                                                                        onChange={(e) => setIncomingRep(e.target.value)}
+                                                                        placeholder="New rep's Sui address (0x...)"
+                                                                        aria-label="New rep address"
+                                                                        className="flex-1 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-sm font-mono focus:outline-none focus:border-blue-500 transition-colors"
+                                                                    />
+                                                                    <button
+                                                                        onClick={() => handleHandOver(rep.address)}
+                                                                        disabled={!incomingRep.trim() || processing === rep.address}
+                                                                        className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
+                                                                    >
+                                                                        {processing === rep.address && <Loader2 size={14} className="animate-spin" />} Confirm Hand Over
+                                                                    </button>
+                                                                </div>
+                                                            )}
                                                         </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {activeTab === 'lecturers' && (
+                                    <div className="p-6">
+                                        <h3 className="font-bold mb-4">Issue LecturerCap</h3>
+                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                                            <input
+                                                type="text"
+                                                value={lecturerForm.name}
+                                                onChange={(e) => setLecturerForm(prev => ({ ...prev, name: e.target.value }))}
+                                                placeholder="Lecturer name"
+                                                aria-label="Lecturer name"
+                                                className="px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-sm focus:outline-none focus:border-blue-500 transition-colors"
+                                            />
+                                            <input
+                                                type="text"
+                                                value={lecturerForm.address}
+                                                onChange={(e) => setLecturerForm(prev => ({ ...prev, address: e.target.value }))}
+                                                placeholder="Sui address (0x...)"
+                                                aria-label="Lecturer address"
+                                                className="px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-sm font-mono focus:outline-none focus:border-blue-500 transition-colors"
+                                            />
+                                            <input
+                                                type="text"
+                                                value={lecturerForm.courseCodes}
+                                                onChange={(e) => setLecturerForm(prev => ({ ...prev, courseCodes: e.target.value }))}
+                                                placeholder="Course codes, e.g. CSC301, CSC305"
+                                                aria-label="Lecturer course codes"
+                                                className="px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-sm focus:outline-none focus:border-blue-500 transition-colors"
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={handleIssueLecturerCap}
+                                            disabled={processing === "lecturer"}
+                                            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+                                        >
+                                            {processing === "lecturer" ? <Loader2 size={14} className="animate-spin" /> : <GraduationCap size={14} />} Issue LecturerCap
+                                        </button>
+
+                                        <h3 className="font-bold mt-8 mb-4">Issued Lecturer Caps</h3>
+                                        {lecturers.length === 0 ? (
+                                            <p className="text-sm text-gray-500">No lecturer caps issued yet.</p>
+                                        ) : (
+                                            <div className="space-y-3">
+                                                {lecturers.map(lecturer => (
+                                                    <div key={lecturer.id} className="p-4 bg-black/20 rounded-xl">
+                                                        <p className="font-bold">{lecturer.name}</p>
+                                                        <p className="text-sm text-gray-400">{lecturer.courseCodes.join(", ")}</p>
+                                                        <p className="text-xs text-gray-500 font-mono mt-1 truncate">{lecturer.address}</p>
                                                     </div>
                                                 ))}
                                             </div>
@@ -306,12 +788,6 @@ export default function AdminPage() {
                                                 <p className="text-xs mt-2">
                                                     Handouts are automatically verified by the TEE worker, or you can verify manually.
                                                 </p>
-                                                <div className="mt-4 p-4 bg-black/40 rounded-lg text-left">
-                                                    <p className="text-xs text-gray-400 mb-2">Run this command to find handouts:</p>
-                                                    <code className="text-xs text-green-400">
-                                                        sui client objects | grep Handout
-                                                    </code>
-                                                </div>
                                             </div>
                                         ) : (
                                             <div className="space-y-4">
@@ -319,15 +795,16 @@ export default function AdminPage() {
                                                     <div key={handout.id} className="p-4 bg-black/20 rounded-xl flex justify-between items-center">
                                                         <div>
                                                             <p className="font-bold">{handout.metadata}</p>
-                                                            <p className="text-sm text-gray-400">Blob: {handout.blobId.slice(0, 16)}...</p>
-                                                            <p className="text-xs text-gray-500 font-mono mt-1">{handout.id}</p>
+                                                            <p className="text-sm text-gray-400">{handout.courseCode} • Blob: {handout.blobId.slice(0, 16)}...</p>
+                                                            <p className="text-xs text-gray-500 font-mono mt-1">{handout.id} • {handout.createdAt}</p>
+                                                            <p className="text-xs text-gray-500 font-mono">Uploader: {handout.owner.slice(0, 10)}...</p>
                                                         </div>
                                                         <button
                                                             onClick={() => handleVerifyHandout(handout.id)}
                                                             disabled={processing === handout.id}
-                                                            className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-bold flex items-center gap-1"
+                                                            className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-bold flex items-center gap-1 disabled:opacity-50"
                                                         >
-                                                            <ShieldCheck size={14} /> Verify
+                                                            {processing === handout.id ? <Loader2 size={14} className="animate-spin" /> : <ShieldCheck size={14} />} Verify
                                                         </button>
                                                     </div>
                                                 ))}
@@ -341,18 +818,6 @@ export default function AdminPage() {
                             <div className="mt-8 p-6 bg-white/5 border border-white/10 rounded-2xl">
                                 <h3 className="font-bold mb-4">Quick CLI Commands</h3>
                                 <div className="space-y-4 text-sm">
-                                    <div>
-                                        <p className="text-gray-400 mb-1">Approve a course rep application:</p>
-                                        <code className="text-xs bg-black/40 px-3 py-2 rounded-lg text-green-400 block overflow-x-auto">
-                                            sui client call --package {PACKAGE_ID?.slice(0, 10)}... --module echo --function approve_course_rep --args ADMIN_CAP REGISTRY APP_ID --gas-budget 10000000
-                                        </code>
-                                    </div>
-                                    <div>
-                                        <p className="text-gray-400 mb-1">Verify a handout manually:</p>
-                                        <code className="text-xs bg-black/40 px-3 py-2 rounded-lg text-green-400 block overflow-x-auto">
-                                            sui client call --package {PACKAGE_ID?.slice(0, 10)}... --module echo --function verify_handout_admin --args ADMIN_CAP HANDOUT_ID --gas-budget 10000000
-                                        </code>
-                                    </div>
                                     <div>
                                         <p className="text-gray-400 mb-1">Create a TEE Verifier Cap (for Nautilus worker):</p>
                                         <code className="text-xs bg-black/40 px-3 py-2 rounded-lg text-green-400 block overflow-x-auto">
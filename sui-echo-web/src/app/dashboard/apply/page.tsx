@@ -1,16 +1,16 @@
 "use client";
 
-import { useState, FormEvent, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useState, FormEvent } from "react";
 import { Loader2, ArrowLeft, Send, CheckCircle2, AlertTriangle } from "lucide-react";
 import Link from "next/link";
 import Sidebar from "@/components/Sidebar";
-import { getZkLoginAddress, isZkLoginSessionValid, executeZkLoginTransaction } from "@/utils/zklogin-proof";
-import { TARGETS, COURSE_REP_REGISTRY_ID, isContractConfigured } from "@/lib/contract";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import { TARGETS, COURSE_REP_REGISTRY_ID, ABORT_CODES, getMoveAbortCode, isContractConfigured } from "@/lib/contract";
+import { normalizeCodeWord } from "@/lib/code-words";
 import { Transaction } from "@mysten/sui/transactions";
 
 export default function ApplyPage() {
-    const router = useRouter();
+    const signer = useEchoSigner();
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -25,35 +25,26 @@ export default function ApplyPage() {
         codeWord: "",
     });
 
-    useEffect(() => {
-        if (!isZkLoginSessionValid()) {
-            router.push("/");
-        }
-    }, [router]);
-
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
         setError(null);
 
         try {
-            const zkAddress = getZkLoginAddress();
-            if (!zkAddress) {
-                throw new Error("Please login with zkLogin first");
+            const userAddress = signer.address;
+            if (!userAddress) {
+                throw new Error("Please sign in or connect a wallet first");
             }
 
             if (!isContractConfigured()) {
                 throw new Error("Contract not configured. Please set NEXT_PUBLIC_PACKAGE_ID in .env");
             }
 
-            // Validate code word
-            const correctCodeWord = "SCHOOL ISNT SCAM";
-            if (formData.codeWord.trim().toUpperCase() !== correctCodeWord.toUpperCase()) {
-                throw new Error(`Invalid code word. Please enter the code word provided by your lecturer.`);
-            }
+            // Code words are registered per course in upper case
+            const courseCode = formData.courseCode.trim().toUpperCase();
 
             console.log("[Apply] Submitting application:", formData);
-            console.log("[Apply] User address:", zkAddress);
+            console.log("[Apply] User address:", userAddress);
 
             // Build transaction to call apply_for_course_rep
             const tx = new Transaction();
@@ -61,23 +52,35 @@ export default function ApplyPage() {
                 target: TARGETS.apply_for_course_rep,
                 arguments: [
                     tx.object(COURSE_REP_REGISTRY_ID),
-                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(formData.courseCode))),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(courseCode))),
                     tx.pure.vector("u8", Array.from(new TextEncoder().encode(formData.fullName))),
                     tx.pure.vector("u8", Array.from(new TextEncoder().encode(formData.studentId))),
                     tx.pure.vector("u8", Array.from(new TextEncoder().encode(formData.department))),
                     tx.pure.vector("u8", Array.from(new TextEncoder().encode(formData.reason))),
+                    // Checked on-chain against the lecturer's salted hash
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(normalizeCodeWord(formData.codeWord)))),
                 ],
             });
 
-            // Execute with zkLogin
-            const result = await executeZkLoginTransaction(tx);
+            // Execute with the signed-in account (sponsored)
+            const result = await signer.executeSponsored(tx);
             console.log("[Apply] Transaction result:", result);
 
             setTxDigest(result.digest);
             setIsSubmitted(true);
-        } catch (err: any) {
+        } catch (err) {
             console.error("[Apply] Error:", err);
-            setError(err.message || "Failed to submit application");
+            const message = err instanceof Error ? err.message : "";
+            const abortCode = getMoveAbortCode(message);
+            if (abortCode === ABORT_CODES.EInvalidCodeWord) {
+                setError("Invalid code word. Please enter the code word provided by your lecturer.");
+            } else if (abortCode === ABORT_CODES.ECodeWordNotSet) {
+                setError("Your lecturer hasn't opened rep applications for this course yet. Check the course code or ask them to set a code word.");
+            } else if (abortCode === ABORT_CODES.EAlreadyRegistered) {
+                setError("You already have a pending application or are already a course rep.");
+            } else {
+                setError(message || "Failed to submit application");
+            }
         } finally {
             setIsSubmitting(false);
         }
@@ -3,11 +3,13 @@
 import { useState, useEffect } from "react";
 import VoiceRecorder from "@/components/VoiceRecorder";
 import { Radio, ShieldCheck, Users, Link as IconLink, Upload, Loader2, RefreshCw, Play } from "lucide-react";
-import { getSuiClient, getZkLoginAddress, isZkLoginSessionValid, executeSponsoredZkLoginTransaction } from "@/utils/zklogin-proof";
+import { getSuiClient, getCurrentEpoch } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
 import { uploadToWalrus, getWalrusUrl } from "@/lib/walrus";
-import { TARGETS, isContractConfigured, PACKAGE_ID } from "@/lib/contract";
+import { normalizeCourseCode } from "@/lib/broadcasts";
+import { getActiveRepCap } from "@/lib/course-reps";
+import { TARGETS, COURSE_REP_REGISTRY_ID, isContractConfigured } from "@/lib/contract";
 import { SUI_NETWORK } from "@/config";
-import { useRouter } from "next/navigation";
 import { Transaction } from "@mysten/sui/transactions";
 
 interface Broadcast {
@@ -17,6 +19,7 @@ interface Broadcast {
     message: string;
     broadcaster: string;
     objectId: string;
+    verified: boolean;
 }
 
 interface BroadcastStats {
@@ -25,7 +28,8 @@ interface BroadcastStats {
 }
 
 export default function BroadcastsPage() {
-    const router = useRouter();
+    const signer = useEchoSigner();
+    const userAddress = signer.address;
     const [courseCode, setCourseCode] = useState("");
     const [message, setMessage] = useState("");
     const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -36,36 +40,24 @@ export default function BroadcastsPage() {
         totalBroadcasts: 0,
         tokensEarned: "0 SUI",
     });
-    const [zkAddress, setZkAddress] = useState<string | null>(null);
     const [courseRepCapId, setCourseRepCapId] = useState<string | null>(null);
     const [isVerifiedRep, setIsVerifiedRep] = useState(false);
 
     useEffect(() => {
-        if (!isZkLoginSessionValid()) {
-            router.push("/");
-            return;
-        }
-        const address = getZkLoginAddress();
-        setZkAddress(address);
-        checkVerifiedRepStatus(address);
-        fetchBroadcasts(address);
-    }, [router]);
+        if (!userAddress) return;
+        checkVerifiedRepStatus(userAddress);
+        fetchBroadcasts(userAddress);
+    }, [userAddress]);
 
     async function checkVerifiedRepStatus(address: string | null) {
         if (!address || !isContractConfigured()) return;
         
         try {
-            const client = getSuiClient();
-            const objects = await client.getOwnedObjects({
-                owner: address,
-                filter: { StructType: `${PACKAGE_ID}::echo::CourseRepCap` },
-                options: { showType: true, showContent: true },
-            });
-
-            if (objects.data.length > 0) {
+            // Revoked, handed-over or expired caps can no longer broadcast as verified
+            const cap = await getActiveRepCap(getSuiClient(), address, await getCurrentEpoch());
+            if (cap) {
                 setIsVerifiedRep(true);
-                const capId = objects.data[0].data?.objectId;
-                if (capId) setCourseRepCapId(capId);
+                setCourseRepCapId(cap.id);
             }
         } catch (error) {
             console.error("[Broadcasts] Error checking CourseRepCap:", error);
@@ -104,6 +96,7 @@ export default function BroadcastsPage() {
                     message: fields?.message || "",
                     broadcaster: fields?.broadcaster || address,
                     objectId: obj.data?.objectId || "",
+                    verified: fields?.verified === true,
                 });
             }
 
@@ -124,12 +117,15 @@ export default function BroadcastsPage() {
         if (!audioBlob || !courseCode || !message || !isContractConfigured()) return;
         setUploading(true);
 
+        // Stored in the same form students subscribe with on the course feed
+        const normalizedCourseCode = normalizeCourseCode(courseCode);
+
         try {
             // 1. Upload audio to Walrus
             const audioBlobId = await uploadToWalrus(audioBlob);
             console.log("[Broadcasts] Audio uploaded:", audioBlobId);
 
-            // 2. Create broadcast on-chain using zkLogin
+            // 2. Create broadcast on-chain with the signed-in account
             const tx = new Transaction();
             
             // Use verified rep function if user has CourseRepCap, otherwise use generic broadcast
@@ -139,6 +135,7 @@ export default function BroadcastsPage() {
                     target: TARGETS.broadcast_verified,
                     arguments: [
                         tx.object(courseRepCapId),
+                        tx.object(COURSE_REP_REGISTRY_ID),
                         tx.pure.vector("u8", Array.from(new TextEncoder().encode(audioBlobId))),
                         tx.pure.vector("u8", Array.from(new TextEncoder().encode(message))),
                     ],
@@ -148,18 +145,18 @@ export default function BroadcastsPage() {
                 tx.moveCall({
                     target: TARGETS.broadcast,
                     arguments: [
-                        tx.pure.vector("u8", Array.from(new TextEncoder().encode(courseCode))),
+                        tx.pure.vector("u8", Array.from(new TextEncoder().encode(normalizedCourseCode))),
                         tx.pure.vector("u8", Array.from(new TextEncoder().encode(audioBlobId))),
                         tx.pure.vector("u8", Array.from(new TextEncoder().encode(message))),
                     ],
                 });
             }
 
-            const result = await executeSponsoredZkLoginTransaction(tx);
+            const result = await signer.executeSponsored(tx);
             console.log("[Broadcasts] Transaction result (sponsored):", result);
 
             // Success!
-            alert(`Broadcast Created Successfully!\n\nCourse: ${courseCode}\nTx: ${result.digest}`);
+            alert(`Broadcast Created Successfully!\n\nCourse: ${normalizedCourseCode}\nTx: ${result.digest}`);
 
             // Reset form
             setCourseCode("");
@@ -167,7 +164,7 @@ export default function BroadcastsPage() {
             setAudioBlob(null);
 
             // Refresh list
-            await fetchBroadcasts(zkAddress);
+            await fetchBroadcasts(userAddress);
 
         } catch (e: any) {
             console.error("[Broadcasts] Error:", e);
@@ -178,10 +175,6 @@ export default function BroadcastsPage() {
         }
     };
 
-    const getWalrusAudioUrl = (blobId: string) => {
-        return `https://aggregator.walrus-testnet.walrus.space/v1/${blobId}`;
-    };
-
     if (loading) {
         return (
             <div className="flex items-center justify-center min-h-[60vh]">
@@ -235,6 +228,12 @@ export default function BroadcastsPage() {
                             )}
                         </div>
 
+                        {!isVerifiedRep && (
+                            <p className="mb-6 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-xs text-yellow-400">
+                                You don&apos;t hold an active CourseRepCap, so this broadcast will be shown to students as unofficial.
+                            </p>
+                        )}
+
                         <div className="grid md:grid-cols-2 gap-6 mb-6">
                             <div>
                                 <label className="block text-xs font-bold text-gray-400 mb-2 uppercase tracking-wider">Course Code</label>
@@ -249,7 +248,7 @@ export default function BroadcastsPage() {
                                 <label className="block text-xs font-bold text-gray-400 mb-2 uppercase tracking-wider">Sender Address</label>
                                 <input
                                     className="w-full bg-[#0F172A]/50 border border-white/10 rounded-xl px-4 py-3 outline-none text-gray-500 font-mono text-sm"
-                                    value={zkAddress ? `${zkAddress.slice(0, 10)}...${zkAddress.slice(-8)}` : "Not connected"}
+                                    value={userAddress ? `${userAddress.slice(0, 10)}...${userAddress.slice(-8)}` : "Not connected"}
                                     disabled
                                 />
                             </div>
@@ -311,7 +310,7 @@ export default function BroadcastsPage() {
                         <div className="flex justify-between items-center mb-6">
                             <h3 className="font-bold">Your Broadcasts</h3>
                             <button
-                                onClick={() => fetchBroadcasts(zkAddress)}
+                                onClick={() => fetchBroadcasts(userAddress)}
                                 className="text-xs text-blue-400 font-bold hover:text-blue-300 transition-colors flex items-center gap-1"
                             >
                                 <RefreshCw size={12} /> Refresh
@@ -323,10 +322,21 @@ export default function BroadcastsPage() {
                                 {broadcasts.slice(0, 5).map((b) => (
                                     <div key={b.id} className="p-4 bg-white/5 border border-white/5 rounded-2xl hover:bg-white/10 transition-all cursor-pointer group hover:border-white/10">
                                         <div className="flex justify-between items-start mb-2">
-                                            <span className="px-2 py-1 bg-blue-500/20 text-blue-300 text-[10px] font-bold rounded uppercase tracking-wider">{b.courseCode}</span>
+                                            <div className="flex items-center gap-2">
+                                                <span className="px-2 py-1 bg-blue-500/20 text-blue-300 text-[10px] font-bold rounded uppercase tracking-wider">{b.courseCode}</span>
+                                                {b.verified ? (
+                                                    <span className="px-2 py-1 bg-green-500/20 text-green-400 text-[10px] font-bold rounded flex items-center gap-1">
+                                                        <ShieldCheck size={10} /> Official
+                                                    </span>
+                                                ) : (
+                                                    <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 text-[10px] font-bold rounded">
+                                                        Unofficial
+                                                    </span>
+                                                )}
+                                            </div>
                                             {b.audioBlobId && (
                                                 <button
-                                                    onClick={() => window.open(getWalrusAudioUrl(b.audioBlobId), '_blank')}
+                                                    onClick={() => window.open(getWalrusUrl(b.audioBlobId), '_blank')}
                                                     className="p-1 rounded-lg hover:bg-blue-500/20 text-gray-400 hover:text-blue-400"
                                                 >
                                                     <Play size={14} />
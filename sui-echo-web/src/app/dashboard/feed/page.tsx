@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect, FormEvent } from "react";
+import { Radio, ShieldCheck, Loader2, RefreshCw, Plus, X, Bell, AlertTriangle } from "lucide-react";
+import { getSuiClient } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import { getWalrusUrl } from "@/lib/walrus";
+import {
+    CourseBroadcast,
+    fetchCourseBroadcasts,
+    getSubscribedCourses,
+    setSubscribedCourses,
+    normalizeCourseCode,
+} from "@/lib/broadcasts";
+
+export default function CourseFeedPage() {
+    const signer = useEchoSigner();
+    const [subscriptions, setSubscriptions] = useState<string[]>([]);
+    const [newCourse, setNewCourse] = useState("");
+    const [activeCourse, setActiveCourse] = useState<string | null>(null);
+    const [broadcasts, setBroadcasts] = useState<CourseBroadcast[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!signer.address) return;
+
+        // Subscriptions live in localStorage, so they're read once mounted and shown with the first load
+        const stored = getSubscribedCourses();
+        loadFeed(stored).then(() => setSubscriptions(stored));
+    }, [signer.address]);
+
+    async function loadFeed(courseCodes: string[]) {
+        if (courseCodes.length === 0) {
+            setBroadcasts([]);
+            setLoading(false);
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            setBroadcasts(await fetchCourseBroadcasts(getSuiClient(), courseCodes));
+        } catch (err) {
+            console.error("[Feed] Error loading broadcasts:", err);
+            setError(err instanceof Error ? err.message : "Failed to load broadcasts");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function updateSubscriptions(next: string[]) {
+        setSubscribedCourses(next);
+        const stored = getSubscribedCourses();
+        setSubscriptions(stored);
+        if (activeCourse && !stored.includes(activeCourse)) setActiveCourse(null);
+        loadFeed(stored);
+    }
+
+    const handleSubscribe = (e: FormEvent) => {
+        e.preventDefault();
+        const code = normalizeCourseCode(newCourse);
+        if (!code || subscriptions.includes(code)) return;
+        updateSubscriptions([...subscriptions, code]);
+        setNewCourse("");
+    };
+
+    const visibleBroadcasts = activeCourse
+        ? broadcasts.filter(b => b.courseCode === activeCourse)
+        : broadcasts;
+    const officialBroadcasts = visibleBroadcasts.filter(b => b.verified);
+    const unofficialBroadcasts = visibleBroadcasts.filter(b => !b.verified);
+
+    return (
+        <div className="space-y-8">
+            <header className="flex justify-between items-start">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight mb-1">Course Feed</h1>
+                    <p className="text-[#8A919E] text-sm">Announcements from the courses you follow.</p>
+                </div>
+                <button
+                    onClick={() => loadFeed(subscriptions)}
+                    disabled={loading}
+                    className="px-4 py-2 bg-[#12151C] border border-[#1E232E] rounded-lg hover:border-[#2A3140] transition-colors flex items-center gap-2 text-sm text-[#8A919E] hover:text-white disabled:opacity-50"
+                >
+                    <RefreshCw size={14} className={loading ? "animate-spin" : ""} />
+                    Refresh
+                </button>
+            </header>
+
+            {/* Subscriptions */}
+            <div className="bg-[#12151C] border border-[#1E232E] rounded-xl p-5">
+                <div className="flex items-center gap-2 mb-4">
+                    <Bell size={14} className="text-[#4F9EF8]" />
+                    <h2 className="text-sm font-semibold">Subscribed Courses</h2>
+                </div>
+
+                <form onSubmit={handleSubscribe} className="flex gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={newCourse}
+                        onChange={(e) => setNewCourse(e.target.value)}
+                        placeholder="Add a course code, e.g. CSC301"
+                        aria-label="Course code to subscribe to"
+                        className="flex-1 px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!newCourse.trim()}
+                        className="px-3 py-2 bg-[#4F9EF8] text-white rounded-lg text-sm font-medium flex items-center gap-1 hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                        <Plus size={14} /> Subscribe
+                    </button>
+                </form>
+
+                {subscriptions.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => setActiveCourse(null)}
+                            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${activeCourse === null
+                                    ? "bg-[#4F9EF8] text-white"
+                                    : "bg-[#0B0E14] text-[#8A919E] hover:text-white"
+                                }`}
+                        >
+                            All
+                        </button>
+                        {subscriptions.map(code => (
+                            <span
+                                key={code}
+                                className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-md text-xs font-medium ${activeCourse === code
+                                        ? "bg-[#4F9EF8] text-white"
+                                        : "bg-[#0B0E14] text-[#8A919E]"
+                                    }`}
+                            >
+                                <button onClick={() => setActiveCourse(code)} className="hover:text-white transition-colors">
+                                    {code}
+                                </button>
+                                <button
+                                    onClick={() => updateSubscriptions(subscriptions.filter(c => c !== code))}
+                                    className="p-0.5 rounded hover:bg-white/10 transition-colors"
+                                    aria-label={`Unsubscribe from ${code}`}
+                                >
+                                    <X size={12} />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-[#565B67] text-xs">
+                        Subscribe to a course code to hear your course rep&apos;s announcements.
+                    </p>
+                )}
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
+                    <p className="text-sm text-red-400">{error}</p>
+                </div>
+            )}
+
+            {/* Broadcasts */}
+            {loading ? (
+                <div className="flex items-center justify-center py-16">
+                    <Loader2 className="w-6 h-6 text-[#4F9EF8] animate-spin" />
+                </div>
+            ) : visibleBroadcasts.length > 0 ? (
+                <>
+                    <section className="space-y-4">
+                        <div className="flex items-center gap-2">
+                            <ShieldCheck size={14} className="text-[#22C55E]" />
+                            <h2 className="text-sm font-semibold">Official Announcements</h2>
+                        </div>
+                        {officialBroadcasts.length > 0 ? (
+                            officialBroadcasts.map(b => <BroadcastCard key={b.id} broadcast={b} />)
+                        ) : (
+                            <p className="text-[#565B67] text-xs">No announcements from verified course reps yet.</p>
+                        )}
+                    </section>
+
+                    {unofficialBroadcasts.length > 0 && (
+                        <section className="space-y-4">
+                            <div className="flex items-center gap-2">
+                                <AlertTriangle size={14} className="text-[#EAB308]" />
+                                <h2 className="text-sm font-semibold">Unofficial Posts</h2>
+                            </div>
+                            <p className="text-[#8A919E] text-xs">
+                                These were not sent by a verified course rep. Confirm anything important with your rep or lecturer.
+                            </p>
+                            {unofficialBroadcasts.map(b => <BroadcastCard key={b.id} broadcast={b} />)}
+                        </section>
+                    )}
+                </>
+            ) : subscriptions.length > 0 && (
+                <div className="text-center py-12">
+                    <Radio size={32} className="text-[#2A3140] mx-auto mb-3" />
+                    <p className="text-[#8A919E] text-sm">No announcements yet for these courses.</p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function BroadcastCard({ broadcast: b }: { broadcast: CourseBroadcast }) {
+    return (
+        <article
+            className={`bg-[#12151C] border rounded-xl p-5 ${b.verified ? "border-[#1E232E]" : "border-[#EAB308]/20"}`}
+        >
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <span className="px-2 py-1 bg-[#4F9EF8]/20 text-[#4F9EF8] text-[10px] font-bold rounded uppercase tracking-wider">
+                        {b.courseCode}
+                    </span>
+                    {b.verified ? (
+                        <span className="flex items-center gap-1 px-2 py-1 bg-[#22C55E]/10 text-[#22C55E] text-[10px] font-bold rounded">
+                            <ShieldCheck size={10} /> Verified Rep
+                        </span>
+                    ) : (
+                        <span className="flex items-center gap-1 px-2 py-1 bg-[#EAB308]/10 text-[#EAB308] text-[10px] font-bold rounded">
+                            <AlertTriangle size={10} /> Unofficial
+                        </span>
+                    )}
+                </div>
+                <span className="text-[10px] text-[#565B67]">
+                    {b.createdAt ? new Date(b.createdAt).toLocaleString() : ""}
+                </span>
+            </div>
+
+            <p className="text-sm text-gray-200 whitespace-pre-wrap mb-4">{b.message}</p>
+
+            {b.audioBlobId && (
+                <audio controls preload="none" src={getWalrusUrl(b.audioBlobId)} className="w-full" />
+            )}
+
+            <p className="text-[10px] text-[#565B67] font-mono mt-3">
+                From {b.broadcaster.slice(0, 10)}...{b.broadcaster.slice(-6)}
+            </p>
+        </article>
+    );
+}
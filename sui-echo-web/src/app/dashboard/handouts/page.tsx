@@ -1,25 +1,34 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { ShieldCheck, FileText, ExternalLink, Search, Loader2, RefreshCw, Clock, Gift, Volume2, VolumeX } from "lucide-react";
-import { getSuiClient, getZkLoginAddress, isZkLoginSessionValid, executeSponsoredZkLoginTransaction } from "@/utils/zklogin-proof";
+import { ShieldCheck, FileText, ExternalLink, Search, Loader2, RefreshCw, Clock, Gift, Volume2, VolumeX, GraduationCap, Download, HardDrive } from "lucide-react";
+import { getSuiClient } from "@/utils/zklogin-proof";
+import { getUploadedHandouts } from "@/lib/handouts";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
 import { PACKAGE_ID, SUI_NETWORK } from "@/config";
 import { TARGETS, ALUMNI_AJO_ID, isContractConfigured } from "@/lib/contract";
 import { Transaction } from "@mysten/sui/transactions";
-import { useRouter } from "next/navigation";
+import { fetchFromWalrus } from "@/lib/walrus";
+import { parseHandoutContent, getSpokenDocumentText, getDocumentTitle } from "@/lib/handout-document";
+import { cacheOfflinePages, listOfflineHandouts, loadHandoutContent, removeOfflineHandout, saveHandoutOffline } from "@/lib/offline-library";
+import { getHandoutLanguage, pickVoice } from "@/lib/languages";
 
 interface Handout {
     id: string;
     file: string;
     blobId: string;
+    courseCode: string;
     user: string;
     status: "pending" | "verified";
+    claimed: boolean;
+    official: boolean;
+    endorsed: boolean;
     date: string;
     objectId: string;
 }
 
 export default function HandoutsPage() {
-    const router = useRouter();
+    const signer = useEchoSigner();
     const [filter, setFilter] = useState("all");
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
@@ -27,6 +36,8 @@ export default function HandoutsPage() {
     const [searchQuery, setSearchQuery] = useState("");
     const [claimingId, setClaimingId] = useState<string | null>(null);
     const [speakingId, setSpeakingId] = useState<string | null>(null);
+    const [offlineBlobIds, setOfflineBlobIds] = useState<Set<string>>(new Set());
+    const [savingOfflineId, setSavingOfflineId] = useState<string | null>(null);
     const [stats, setStats] = useState({ pending: 0, verified: 0, total: 0 });
 
     // Text-to-speech function
@@ -47,10 +58,12 @@ export default function HandoutsPage() {
         announce("Loading handout content");
 
         try {
-            const response = await fetch(`https://aggregator.walrus-testnet.walrus.space/v1/${handout.blobId}`);
-            const text = await response.text();
+            const { document } = parseHandoutContent(await loadHandoutContent(handout.blobId));
 
-            const utterance = new SpeechSynthesisUtterance(text);
+            const utterance = new SpeechSynthesisUtterance(getSpokenDocumentText(document));
+            utterance.lang = getHandoutLanguage(document.language).speechLocale;
+            const voice = pickVoice(window.speechSynthesis.getVoices(), document.language);
+            if (voice) utterance.voice = voice;
             utterance.rate = 0.9;
             utterance.onend = () => setSpeakingId(null);
             utterance.onerror = () => {
@@ -65,6 +78,36 @@ export default function HandoutsPage() {
         }
     }, [speakingId]);
 
+    const toggleOffline = async (handout: Handout) => {
+        setSavingOfflineId(handout.id);
+        try {
+            if (offlineBlobIds.has(handout.blobId)) {
+                await removeOfflineHandout(handout.blobId);
+                announce("Removed offline copy");
+            } else {
+                const content = await fetchFromWalrus(handout.blobId);
+                const { document } = parseHandoutContent(content);
+                await saveHandoutOffline({
+                    blobId: handout.blobId,
+                    handoutId: handout.objectId,
+                    title: getDocumentTitle(document) || handout.file,
+                    courseCode: handout.courseCode,
+                    language: document.language,
+                    content,
+                });
+                await cacheOfflinePages();
+                announce("Saved for offline reading");
+            }
+            const saved = await listOfflineHandouts();
+            setOfflineBlobIds(new Set(saved.map(h => h.blobId)));
+        } catch (e) {
+            console.error("[Handouts] Offline save error:", e);
+            announce("Failed to update offline copy");
+        } finally {
+            setSavingOfflineId(null);
+        }
+    };
+
     // Announce for screen readers
     const announce = (message: string) => {
         const el = document.getElementById("sr-announcer");
@@ -72,51 +115,41 @@ export default function HandoutsPage() {
     };
 
     useEffect(() => {
-        if (!isZkLoginSessionValid()) {
-            router.push("/");
-            return;
-        }
-        fetchHandouts();
-    }, [router]);
-
-    async function fetchHandouts() {
-        const address = getZkLoginAddress();
+        if (!signer.address) return;
+        fetchHandouts(signer.address);
+        listOfflineHandouts()
+            .then(saved => setOfflineBlobIds(new Set(saved.map(h => h.blobId))))
+            .catch(e => console.warn("[Handouts] Offline library unavailable:", e));
+    }, [signer.address]);
+
+    async function fetchHandouts(address: string | null) {
         if (!address) {
             setLoading(false);
             return;
         }
 
         try {
-            const client = getSuiClient();
-            const ownedObjects = await client.getOwnedObjects({
-                owner: address,
-                options: { showType: true, showContent: true },
-            });
+            const uploaded = await getUploadedHandouts(getSuiClient(), address);
 
             const handoutList: Handout[] = [];
             let pending = 0, verified = 0;
 
-            for (const obj of ownedObjects.data) {
-                const type = obj.data?.type;
-                if (!type?.includes("Handout")) continue;
-
-                const content = obj.data?.content;
-                if (content?.dataType !== "moveObject") continue;
-
-                const fields = content.fields as any;
-                const isVerified = fields?.verified === true;
-
-                if (isVerified) verified++;
+            for (const handout of uploaded) {
+                if (handout.verified) verified++;
                 else pending++;
 
                 handoutList.push({
-                    id: obj.data?.objectId || "",
-                    file: fields?.description ? String(fields.description).slice(0, 30) : "Handout",
-                    blobId: fields?.blob_id || "",
+                    id: handout.id,
+                    file: handout.description ? handout.description.slice(0, 30) : "Handout",
+                    blobId: handout.blobId,
+                    courseCode: handout.courseCode,
                     user: address.slice(0, 6) + "..." + address.slice(-4),
-                    status: isVerified ? "verified" : "pending",
-                    date: "Recently uploaded",
-                    objectId: obj.data?.objectId || "",
+                    status: handout.verified ? "verified" : "pending",
+                    claimed: handout.rewardClaimed,
+                    official: handout.official,
+                    endorsed: !!handout.endorsedBy,
+                    date: new Date(handout.createdAtMs).toLocaleDateString(),
+                    objectId: handout.id,
                 });
             }
 
@@ -133,7 +166,7 @@ export default function HandoutsPage() {
     const handleRefresh = async () => {
         setRefreshing(true);
         announce("Refreshing handouts");
-        await fetchHandouts();
+        await fetchHandouts(signer.address);
         announce(`Found ${handouts.length} handouts`);
     };
 
@@ -141,7 +174,8 @@ export default function HandoutsPage() {
         const matchesFilter = filter === "all" || h.status === filter;
         const matchesSearch = !searchQuery ||
             h.file.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            h.blobId.toLowerCase().includes(searchQuery.toLowerCase());
+            h.blobId.toLowerCase().includes(searchQuery.toLowerCase()) ||
+            h.courseCode.toLowerCase().includes(searchQuery.toLowerCase());
         return matchesFilter && matchesSearch;
     });
 
@@ -162,20 +196,20 @@ export default function HandoutsPage() {
         announce("Claiming reward");
 
         try {
+            // Reward is paid from the pool of the course the handout was minted for
             const tx = new Transaction();
             tx.moveCall({
                 target: TARGETS.claim_reward,
                 arguments: [
                     tx.object(ALUMNI_AJO_ID),
                     tx.object(handoutObjectId),
-                    tx.pure.vector("u8", Array.from(new TextEncoder().encode("GENERAL"))),
                 ],
             });
 
-            const result = await executeSponsoredZkLoginTransaction(tx);
+            await signer.executeSponsored(tx);
             announce("Reward claimed successfully");
-            await fetchHandouts();
-        } catch (e: any) {
+            await fetchHandouts(signer.address);
+        } catch (e) {
             console.error("[Handouts] Claim error:", e);
             announce("Failed to claim reward");
         } finally {
@@ -281,6 +315,7 @@ export default function HandoutsPage() {
                                     <div className="min-w-0">
                                         <h3 className="font-medium text-sm truncate">{h.file}</h3>
                                         <p className="text-xs text-[#565B67] truncate font-mono">
+                                            {h.courseCode && <span className="text-[#4F9EF8] mr-2">{h.courseCode}</span>}
                                             {h.blobId ? h.blobId.slice(0, 16) + "..." : "No blob ID"}
                                         </p>
                                     </div>
@@ -299,6 +334,17 @@ export default function HandoutsPage() {
                                             Pending
                                         </span>
                                     )}
+                                    {h.official ? (
+                                        <span className="flex items-center gap-1 px-2 py-1 bg-[#4F9EF8]/10 text-[#4F9EF8] text-xs font-medium rounded">
+                                            <GraduationCap size={12} aria-hidden="true" />
+                                            Official
+                                        </span>
+                                    ) : h.endorsed && (
+                                        <span className="flex items-center gap-1 px-2 py-1 bg-[#4F9EF8]/10 text-[#4F9EF8] text-xs font-medium rounded">
+                                            <GraduationCap size={12} aria-hidden="true" />
+                                            Lecturer endorsed
+                                        </span>
+                                    )}
                                 </div>
 
                                 {/* Actions */}
@@ -320,8 +366,38 @@ export default function HandoutsPage() {
                                         )}
                                     </button>
 
+                                    {/* Save for Offline */}
+                                    {h.blobId && (
+                                        <button
+                                            onClick={() => toggleOffline(h)}
+                                            disabled={savingOfflineId === h.id}
+                                            className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${offlineBlobIds.has(h.blobId)
+                                                    ? "bg-[#22C55E]/10 text-[#22C55E] hover:bg-[#22C55E]/20"
+                                                    : "bg-[#1A1E28] text-[#8A919E] hover:text-white hover:bg-[#4F9EF8]/20"
+                                                }`}
+                                            aria-label={offlineBlobIds.has(h.blobId) ? "Remove offline copy" : "Save for offline"}
+                                            aria-pressed={offlineBlobIds.has(h.blobId)}
+                                            aria-busy={savingOfflineId === h.id}
+                                        >
+                                            {savingOfflineId === h.id ? (
+                                                <Loader2 size={16} className="animate-spin" aria-hidden="true" />
+                                            ) : offlineBlobIds.has(h.blobId) ? (
+                                                <HardDrive size={16} aria-hidden="true" />
+                                            ) : (
+                                                <Download size={16} aria-hidden="true" />
+                                            )}
+                                        </button>
+                                    )}
+
                                     {/* Claim Reward */}
-                                    {h.status === "verified" && (
+                                    {h.status === "verified" && h.claimed && (
+                                        <span className="flex items-center gap-1 px-2 py-1 bg-[#EAB308]/10 text-[#EAB308] text-xs font-medium rounded">
+                                            <Gift size={12} aria-hidden="true" />
+                                            Claimed
+                                        </span>
+                                    )}
+                                    {/* Official handouts are lecturer material and don't earn rewards */}
+                                    {h.status === "verified" && !h.claimed && !h.official && (
                                         <button
                                             onClick={() => handleClaimReward(h.objectId)}
                                             disabled={claimingId === h.objectId}
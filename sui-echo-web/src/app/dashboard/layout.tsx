@@ -1,4 +1,5 @@
 import Sidebar from "@/components/Sidebar";
+import SessionExpiryBanner from "@/components/SessionExpiryBanner";
 
 export default function DashboardLayout({
     children,
@@ -10,6 +11,7 @@ export default function DashboardLayout({
             <Sidebar />
             <main className="lg:pl-64 min-h-screen">
                 <div className="p-4 lg:p-8">
+                    <SessionExpiryBanner />
                     {children}
                 </div>
             </main>
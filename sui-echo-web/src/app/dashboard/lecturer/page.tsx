@@ -0,0 +1,432 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GraduationCap, KeyRound, Loader2, CheckCircle2, AlertTriangle, Upload, ShieldCheck, UserPlus, FileText } from "lucide-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { getSuiClient } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import { TARGETS, COURSE_REP_REGISTRY_ID, ALUMNI_AJO_ID, ABORT_CODES, getMoveAbortCode, isContractConfigured } from "@/lib/contract";
+import { getLecturerCaps, fetchEndorsableHandouts, type LecturerCapInfo } from "@/lib/lecturers";
+import type { IndexedHandout } from "@/lib/indexer/store";
+import { uploadToWalrus } from "@/lib/walrus";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+
+const EMPTY_NOMINATION = { courseCode: "", nominee: "", fullName: "", studentId: "", department: "", reason: "" };
+
+// Finds the cap that covers a course; a lecturer may hold caps for different course sets
+function getCapForCourse(caps: LecturerCapInfo[], courseCode: string): LecturerCapInfo | undefined {
+    return caps.find(cap => cap.courseCodes.includes(courseCode));
+}
+
+function encode(value: string): number[] {
+    return Array.from(new TextEncoder().encode(value));
+}
+import { hasCourseCodeWord } from "@/lib/course-reps";
+import { generateCodeWordSalt, hashCodeWord } from "@/lib/code-words";
+
+export default function LecturerPage() {
+    const signer = useEchoSigner();
+    // Nothing to load until the contract is configured
+    const [loading, setLoading] = useState(isContractConfigured);
+    const [caps, setCaps] = useState<LecturerCapInfo[]>([]);
+    // Course code -> whether a code word is registered
+    const [codeWordStatus, setCodeWordStatus] = useState<Record<string, boolean>>({});
+    const [codeWords, setCodeWords] = useState<Record<string, string>>({});
+    const [processing, setProcessing] = useState<string | null>(null);
+    const [officialHandout, setOfficialHandout] = useState<{ courseCode: string; description: string; file: File | null }>({ courseCode: "", description: "", file: null });
+    const [endorsable, setEndorsable] = useState<IndexedHandout[]>([]);
+    const [nomination, setNomination] = useState(EMPTY_NOMINATION);
+
+    useEffect(() => {
+        if (!signer.address || !isContractConfigured()) return;
+
+        const client = getSuiClient();
+        getLecturerCaps(client, signer.address)
+            .then(async lecturerCaps => {
+                setCaps(lecturerCaps);
+
+                const courses = Array.from(new Set(lecturerCaps.flatMap(cap => cap.courseCodes)));
+                const [statuses, handouts] = await Promise.all([
+                    Promise.all(courses.map(code => hasCourseCodeWord(client, code))),
+                    fetchEndorsableHandouts(courses),
+                ]);
+                setCodeWordStatus(Object.fromEntries(courses.map((code, i) => [code, statuses[i]])));
+                setEndorsable(handouts);
+            })
+            .catch(error => console.error("[Lecturer] Error fetching data:", error))
+            .finally(() => setLoading(false));
+    }, [signer.address]);
+
+    async function handleSetCodeWord(cap: LecturerCapInfo, courseCode: string) {
+        const codeWord = codeWords[courseCode] || "";
+        if (!codeWord.trim()) return;
+        setProcessing(courseCode);
+
+        try {
+            // Only the salted hash goes on-chain; students submit the word when applying
+            const salt = generateCodeWordSalt();
+            const hash = await hashCodeWord(salt, codeWord);
+
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.set_course_code_word,
+                arguments: [
+                    tx.object(cap.id),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(courseCode))),
+                    tx.pure.vector("u8", Array.from(salt)),
+                    tx.pure.vector("u8", Array.from(hash)),
+                ],
+            });
+
+            await executeLecturerTransaction(tx, `Code word set for ${courseCode}. Share it with students who want to apply as course rep.`);
+            setCodeWords(prev => ({ ...prev, [courseCode]: "" }));
+            setCodeWordStatus(prev => ({ ...prev, [courseCode]: true }));
+        } catch (error) {
+            console.error("[Lecturer] Error setting code word:", error);
+            alert(`Failed to set code word: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
+
+    async function executeLecturerTransaction(tx: Transaction, successMessage: string) {
+        const result = await signer.executeSponsored(tx);
+        alert(`${successMessage}\n\nTx: ${result.digest}`);
+    }
+
+    async function handlePublishHandout() {
+        const { courseCode, description, file } = officialHandout;
+        const cap = getCapForCourse(caps, courseCode);
+        if (!cap || !file) return;
+        setProcessing("publish");
+
+        try {
+            const blobId = await uploadToWalrus(file);
+
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.mint_official_handout,
+                arguments: [
+                    tx.object(cap.id),
+                    tx.object(ALUMNI_AJO_ID),
+                    tx.pure.vector("u8", encode(blobId)),
+                    tx.pure.vector("u8", encode(description.trim() || file.name)),
+                    tx.pure.vector("u8", encode(courseCode)),
+                ],
+            });
+
+            await executeLecturerTransaction(tx, `Official handout published for ${courseCode}.`);
+            setOfficialHandout({ courseCode, description: "", file: null });
+        } catch (error) {
+            console.error("[Lecturer] Error publishing handout:", error);
+            alert(`Failed to publish handout: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
+
+    async function handleEndorse(handout: IndexedHandout) {
+        const cap = getCapForCourse(caps, handout.courseCode);
+        if (!cap) return;
+        setProcessing(handout.id);
+
+        try {
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.endorse_handout,
+                arguments: [
+                    tx.object(cap.id),
+                    tx.object(handout.id),
+                    tx.object(ALUMNI_AJO_ID),
+                ],
+            });
+
+            await executeLecturerTransaction(tx, "Handout endorsed.");
+            setEndorsable(prev => prev.filter(h => h.id !== handout.id));
+        } catch (error) {
+            console.error("[Lecturer] Error endorsing handout:", error);
+            alert(`Failed to endorse handout: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
+
+    async function handleNominate() {
+        const cap = getCapForCourse(caps, nomination.courseCode);
+        const nominee = normalizeSuiAddress(nomination.nominee.trim());
+        if (!cap || !isValidSuiAddress(nominee) || !nomination.fullName.trim()) {
+            alert("Choose a course and enter the student's name and Sui address");
+            return;
+        }
+        setProcessing("nominate");
+
+        try {
+            const tx = new Transaction();
+            tx.moveCall({
+                target: TARGETS.nominate_course_rep,
+                arguments: [
+                    tx.object(cap.id),
+                    tx.object(COURSE_REP_REGISTRY_ID),
+                    tx.pure.address(nominee),
+                    tx.pure.vector("u8", encode(nomination.courseCode)),
+                    tx.pure.vector("u8", encode(nomination.fullName.trim())),
+                    tx.pure.vector("u8", encode(nomination.studentId.trim())),
+                    tx.pure.vector("u8", encode(nomination.department.trim())),
+                    tx.pure.vector("u8", encode(nomination.reason.trim())),
+                ],
+            });
+
+            await executeLecturerTransaction(tx, `Nomination sent. An admin will review it with the other ${nomination.courseCode} applications.`);
+            setNomination({ ...EMPTY_NOMINATION, courseCode: nomination.courseCode });
+        } catch (error) {
+            console.error("[Lecturer] Error nominating rep:", error);
+            const message = error instanceof Error ? error.message : "Unknown error";
+            alert(getMoveAbortCode(message) === ABORT_CODES.EAlreadyRegistered
+                ? "This student already has a pending application or is already a course rep."
+                : `Failed to nominate course rep: ${message}`);
+        } finally {
+            setProcessing(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-[60vh]">
+                <Loader2 className="w-6 h-6 text-[#4F9EF8] animate-spin" />
+            </div>
+        );
+    }
+
+    if (caps.length === 0) {
+        return (
+            <div className="max-w-xl mx-auto text-center py-16">
+                <GraduationCap size={40} className="text-[#2A3140] mx-auto mb-4" />
+                <h1 className="text-2xl font-semibold mb-2">Lecturer Dashboard</h1>
+                <p className="text-[#8A919E] text-sm">
+                    Your account doesn&apos;t hold a LecturerCap. Ask a platform admin to issue one for your courses.
+                </p>
+            </div>
+        );
+    }
+
+    const allCourses = Array.from(new Set(caps.flatMap(cap => cap.courseCodes)));
+
+    return (
+        <div className="space-y-8">
+            <header>
+                <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight mb-1">Lecturer Dashboard</h1>
+                <p className="text-[#8A919E] text-sm">
+                    {caps.map(cap => cap.name).join(", ")} • {allCourses.join(", ")}
+                </p>
+            </header>
+
+            {/* Course rep code words */}
+            <section className="bg-[#12151C] border border-[#1E232E] rounded-xl p-5">
+                <div className="flex items-center gap-2 mb-1">
+                    <KeyRound size={14} className="text-[#4F9EF8]" />
+                    <h2 className="text-sm font-semibold">Course Rep Code Words</h2>
+                </div>
+                <p className="text-xs text-[#8A919E] mb-5">
+                    Students must enter this word to apply as course rep. Setting a new word replaces the old one.
+                </p>
+
+                <div className="space-y-4">
+                    {caps.flatMap(cap => cap.courseCodes.map(courseCode => (
+                        <div key={`${cap.id}-${courseCode}`} className="flex flex-col sm:flex-row sm:items-center gap-3">
+                            <div className="w-40 shrink-0">
+                                <p className="font-medium text-sm">{courseCode}</p>
+                                {codeWordStatus[courseCode] ? (
+                                    <p className="flex items-center gap-1 text-[10px] text-[#22C55E]">
+                                        <CheckCircle2 size={10} /> Code word set
+                                    </p>
+                                ) : (
+                                    <p className="flex items-center gap-1 text-[10px] text-[#EAB308]">
+                                        <AlertTriangle size={10} /> Applications closed
+                                    </p>
+                                )}
+                            </div>
+                            <input
+                                type="text"
+                                value={codeWords[courseCode] || ""}
+                                onChange={(e) => setCodeWords(prev => ({ ...prev, [courseCode]: e.target.value }))}
+                                placeholder="New code word"
+                                aria-label={`Code word for ${courseCode}`}
+                                className="flex-1 px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                            />
+                            <button
+                                onClick={() => handleSetCodeWord(cap, courseCode)}
+                                disabled={!codeWords[courseCode]?.trim() || processing === courseCode}
+                                className="px-4 py-2 bg-[#4F9EF8] text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50"
+                            >
+                                {processing === courseCode && <Loader2 size={14} className="animate-spin" />}
+                                {codeWordStatus[courseCode] ? "Replace" : "Set"}
+                            </button>
+                        </div>
+                    )))}
+                </div>
+            </section>
+
+            {/* Official handouts */}
+            <section className="bg-[#12151C] border border-[#1E232E] rounded-xl p-5">
+                <div className="flex items-center gap-2 mb-1">
+                    <Upload size={14} className="text-[#4F9EF8]" />
+                    <h2 className="text-sm font-semibold">Publish Official Handout</h2>
+                </div>
+                <p className="text-xs text-[#8A919E] mb-5">
+                    Official handouts are verified as soon as they are minted. They don&apos;t draw from student reward pools.
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <select
+                        value={officialHandout.courseCode}
+                        onChange={(e) => setOfficialHandout(prev => ({ ...prev, courseCode: e.target.value }))}
+                        aria-label="Course for official handout"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    >
+                        <option value="">Select course</option>
+                        {allCourses.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={officialHandout.description}
+                        onChange={(e) => setOfficialHandout(prev => ({ ...prev, description: e.target.value }))}
+                        placeholder="Title, e.g. Week 3 lecture notes"
+                        aria-label="Handout title"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                    <input
+                        type="file"
+                        accept=".txt,.md,.pdf,image/*"
+                        onChange={(e) => setOfficialHandout(prev => ({ ...prev, file: e.target.files?.[0] ?? null }))}
+                        aria-label="Handout file"
+                        className="text-sm text-[#8A919E] file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-[#1A1E28] file:text-white"
+                    />
+                </div>
+                <button
+                    onClick={handlePublishHandout}
+                    disabled={!officialHandout.courseCode || !officialHandout.file || processing === "publish"}
+                    className="mt-4 px-4 py-2 bg-[#4F9EF8] text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                    {processing === "publish" ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                    Publish
+                </button>
+            </section>
+
+            {/* Endorsements */}
+            <section className="bg-[#12151C] border border-[#1E232E] rounded-xl p-5">
+                <div className="flex items-center gap-2 mb-1">
+                    <ShieldCheck size={14} className="text-[#4F9EF8]" />
+                    <h2 className="text-sm font-semibold">Endorse Student Handouts</h2>
+                </div>
+                <p className="text-xs text-[#8A919E] mb-5">
+                    Endorse handouts that match your course material. Unverified handouts are verified by your endorsement.
+                </p>
+
+                {endorsable.length === 0 ? (
+                    <p className="text-sm text-[#565B67]">No student handouts are waiting for an endorsement.</p>
+                ) : (
+                    <div className="divide-y divide-[#1E232E]">
+                        {endorsable.map(handout => (
+                            <div key={handout.id} className="flex items-center gap-3 py-3">
+                                <FileText size={16} className="text-[#8A919E] shrink-0" />
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium">
+                                        <span className="text-[#4F9EF8] mr-2">{handout.courseCode}</span>
+                                        {handout.status === "pending" ? "Pending verification" : "Verified"}
+                                    </p>
+                                    <p className="text-xs text-[#565B67] font-mono truncate">{handout.uploader}</p>
+                                </div>
+                                <a
+                                    href={`/reader?blobId=${handout.blobId}`}
+                                    className="px-3 py-2 bg-[#1A1E28] text-[#8A919E] hover:text-white rounded-lg text-xs transition-colors"
+                                >
+                                    Read
+                                </a>
+                                <button
+                                    onClick={() => handleEndorse(handout)}
+                                    disabled={processing === handout.id}
+                                    className="px-3 py-2 bg-[#22C55E]/10 text-[#22C55E] hover:bg-[#22C55E]/20 rounded-lg text-xs font-medium flex items-center gap-1 transition-colors disabled:opacity-50"
+                                >
+                                    {processing === handout.id ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />}
+                                    Endorse
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {/* Rep nominations */}
+            <section className="bg-[#12151C] border border-[#1E232E] rounded-xl p-5">
+                <div className="flex items-center gap-2 mb-1">
+                    <UserPlus size={14} className="text-[#4F9EF8]" />
+                    <h2 className="text-sm font-semibold">Nominate Course Rep</h2>
+                </div>
+                <p className="text-xs text-[#8A919E] mb-5">
+                    Files an application for the student without a code word. An admin still approves it.
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <select
+                        value={nomination.courseCode}
+                        onChange={(e) => setNomination(prev => ({ ...prev, courseCode: e.target.value }))}
+                        aria-label="Course for nomination"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    >
+                        <option value="">Select course</option>
+                        {allCourses.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={nomination.nominee}
+                        onChange={(e) => setNomination(prev => ({ ...prev, nominee: e.target.value }))}
+                        placeholder="Student's Sui address (0x...)"
+                        aria-label="Nominee address"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors font-mono"
+                    />
+                    <input
+                        type="text"
+                        value={nomination.fullName}
+                        onChange={(e) => setNomination(prev => ({ ...prev, fullName: e.target.value }))}
+                        placeholder="Full name"
+                        aria-label="Nominee full name"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                    <input
+                        type="text"
+                        value={nomination.studentId}
+                        onChange={(e) => setNomination(prev => ({ ...prev, studentId: e.target.value }))}
+                        placeholder="Student ID"
+                        aria-label="Nominee student ID"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                    <input
+                        type="text"
+                        value={nomination.department}
+                        onChange={(e) => setNomination(prev => ({ ...prev, department: e.target.value }))}
+                        placeholder="Department"
+                        aria-label="Nominee department"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                    <input
+                        type="text"
+                        value={nomination.reason}
+                        onChange={(e) => setNomination(prev => ({ ...prev, reason: e.target.value }))}
+                        placeholder="Why this student?"
+                        aria-label="Nomination reason"
+                        className="px-3 py-2 bg-[#0B0E14] border border-[#1E232E] rounded-lg text-sm text-white placeholder:text-[#565B67] focus:outline-none focus:border-[#4F9EF8] transition-colors"
+                    />
+                </div>
+                <button
+                    onClick={handleNominate}
+                    disabled={!nomination.courseCode || processing === "nominate"}
+                    className="mt-4 px-4 py-2 bg-[#4F9EF8] text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                    {processing === "nominate" ? <Loader2 size={14} className="animate-spin" /> : <UserPlus size={14} />}
+                    Nominate
+                </button>
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useEffect, useSyncExternalStore } from "react";
+import { HardDrive, FileText, Trash2, Loader2, WifiOff } from "lucide-react";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import {
+    OfflineHandout,
+    StorageUsage,
+    formatBytes,
+    getStorageUsage,
+    listOfflineHandouts,
+    removeOfflineHandout,
+} from "@/lib/offline-library";
+
+function subscribeToConnectivity(onChange: () => void) {
+    window.addEventListener("online", onChange);
+    window.addEventListener("offline", onChange);
+    return () => {
+        window.removeEventListener("online", onChange);
+        window.removeEventListener("offline", onChange);
+    };
+}
+
+async function readLibrary(): Promise<{ handouts: OfflineHandout[]; usage: StorageUsage }> {
+    const handouts = await listOfflineHandouts();
+    return { handouts, usage: await getStorageUsage(handouts) };
+}
+
+export default function OfflineLibraryPage() {
+    const signer = useEchoSigner();
+    const [handouts, setHandouts] = useState<OfflineHandout[]>([]);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [removingId, setRemovingId] = useState<string | null>(null);
+    const online = useSyncExternalStore(subscribeToConnectivity, () => navigator.onLine, () => true);
+
+    useEffect(() => {
+        if (!signer.address) return;
+
+        readLibrary()
+            .then(library => {
+                setHandouts(library.handouts);
+                setUsage(library.usage);
+            })
+            .catch(err => {
+                console.error("[Library] Error loading offline library:", err);
+                setError(err instanceof Error ? err.message : "Failed to load offline library");
+            })
+            .finally(() => setLoading(false));
+    }, [signer.address]);
+
+    async function handleRemove(blobId: string) {
+        setRemovingId(blobId);
+        try {
+            await removeOfflineHandout(blobId);
+            const library = await readLibrary();
+            setHandouts(library.handouts);
+            setUsage(library.usage);
+        } catch (err) {
+            console.error("[Library] Error removing handout:", err);
+            setError(err instanceof Error ? err.message : "Failed to remove handout");
+        } finally {
+            setRemovingId(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-[60vh]" role="status" aria-label="Loading offline library">
+                <Loader2 className="w-6 h-6 text-[#4F9EF8] animate-spin" aria-hidden="true" />
+                <span className="sr-only">Loading offline library</span>
+            </div>
+        );
+    }
+
+    const usagePercent = usage?.usage != null && usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : null;
+
+    return (
+        <main className="space-y-6" role="main" aria-label="Offline library">
+            {/* Header */}
+            <header>
+                <h1 className="text-2xl font-semibold tracking-tight mb-1">Offline Library</h1>
+                <p className="text-[#8A919E] text-sm">Handouts saved on this device for reading without a connection</p>
+            </header>
+
+            {!online && (
+                <div className="flex items-center gap-2 p-3 bg-[#EAB308]/10 border border-[#EAB308]/20 rounded-lg text-sm text-[#EAB308]" role="status">
+                    <WifiOff size={16} aria-hidden="true" />
+                    You are offline. Saved handouts can still be opened in the reader.
+                </div>
+            )}
+
+            {error && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {/* Storage Usage */}
+            <section className="bg-[#12151C] border border-[#1E232E] rounded-lg p-4 space-y-3" aria-label="Storage usage">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <p className="text-xs text-[#8A919E] mb-1">Saved handouts</p>
+                        <p className="text-xl font-semibold">
+                            {handouts.length} <span className="text-sm text-[#8A919E] font-normal">({formatBytes(usage?.handoutBytes ?? 0)})</span>
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-[#8A919E] mb-1">Site storage used</p>
+                        <p className="text-xl font-semibold">
+                            {usage?.usage != null ? formatBytes(usage.usage) : "Unknown"}
+                            {usage?.quota ? <span className="text-sm text-[#8A919E] font-normal"> of {formatBytes(usage.quota)}</span> : null}
+                        </p>
+                    </div>
+                </div>
+                {usagePercent !== null && (
+                    <div
+                        className="h-1.5 bg-[#1A1E28] rounded-full overflow-hidden"
+                        role="progressbar"
+                        aria-label="Storage used"
+                        aria-valuenow={Math.round(usagePercent)}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                    >
+                        <div className="h-full bg-[#4F9EF8]" style={{ width: `${usagePercent}%` }} />
+                    </div>
+                )}
+                {usage && !usage.persisted && handouts.length > 0 && (
+                    <p className="text-xs text-[#565B67]">
+                        The browser may clear saved handouts when the device is low on space.
+                    </p>
+                )}
+            </section>
+
+            {/* Saved Handouts */}
+            {handouts.length > 0 ? (
+                <ul className="space-y-3" role="list" aria-label="Saved handouts">
+                    {handouts.map((h) => (
+                        <li
+                            key={h.blobId}
+                            className="bg-[#12151C] border border-[#1E232E] rounded-xl p-4 hover:border-[#2A3140] transition-colors"
+                            role="listitem"
+                        >
+                            <div className="flex items-center justify-between gap-4">
+                                <div className="flex items-center gap-4 min-w-0 flex-1">
+                                    <div className="w-10 h-10 rounded-lg bg-[#1A1E28] flex items-center justify-center shrink-0" aria-hidden="true">
+                                        <HardDrive size={18} className="text-[#22C55E]" />
+                                    </div>
+                                    <div className="min-w-0">
+                                        <h3 className="font-medium text-sm truncate">{h.title}</h3>
+                                        <p className="text-xs text-[#565B67] truncate">
+                                            {h.courseCode && <span className="text-[#4F9EF8] mr-2 font-mono">{h.courseCode}</span>}
+                                            {formatBytes(h.size)} · Saved {new Date(h.savedAt).toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <a
+                                        href={`/reader?blobId=${h.blobId}`}
+                                        className="p-2 rounded-lg bg-[#1A1E28] text-[#8A919E] hover:text-[#22C55E] hover:bg-[#22C55E]/10 transition-colors"
+                                        aria-label={`Open ${h.title} in reader`}
+                                    >
+                                        <FileText size={16} aria-hidden="true" />
+                                    </a>
+                                    <button
+                                        onClick={() => handleRemove(h.blobId)}
+                                        disabled={removingId === h.blobId}
+                                        className="p-2 rounded-lg bg-[#1A1E28] text-[#8A919E] hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                                        aria-label={`Remove ${h.title} from this device`}
+                                        aria-busy={removingId === h.blobId}
+                                    >
+                                        {removingId === h.blobId ? (
+                                            <Loader2 size={16} className="animate-spin" aria-hidden="true" />
+                                        ) : (
+                                            <Trash2 size={16} aria-hidden="true" />
+                                        )}
+                                    </button>
+                                </div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="bg-[#12151C] border border-[#1E232E] rounded-xl p-12 text-center" role="status">
+                    <HardDrive size={40} className="text-[#565B67] mx-auto mb-4" aria-hidden="true" />
+                    <h3 className="font-medium mb-1">No Saved Handouts</h3>
+                    <p className="text-sm text-[#8A919E]">
+                        Use &quot;Save for offline&quot; on <a href="/dashboard/handouts" className="text-[#4F9EF8] hover:underline">My Handouts</a> to keep a copy on this device.
+                    </p>
+                </div>
+            )}
+        </main>
+    );
+}
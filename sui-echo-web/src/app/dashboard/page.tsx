@@ -4,9 +4,10 @@ import { Activity, BookOpen, Clock, Radio, ShieldCheck, TrendingUp, Loader2 } fr
 import Link from "next/link";
 import { useEffect, useState } from "react";
 import { jwtDecode } from "jwt-decode";
-import { getZkLoginAddress, isZkLoginSessionValid, getSuiClient } from "@/utils/zklogin-proof";
+import { getSuiClient } from "@/utils/zklogin-proof";
+import { getUploadedHandouts } from "@/lib/handouts";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
 import { PACKAGE_ID } from "@/config";
-import { useRouter } from "next/navigation";
 
 interface DashboardStats {
     totalBroadcasts: number;
@@ -23,9 +24,9 @@ interface RecentActivity {
 }
 
 export default function OverviewPage() {
-    const router = useRouter();
+    const signer = useEchoSigner();
+    const userAddress = signer.address;
     const [userName, setUserName] = useState<string | null>(null);
-    const [zkAddress, setZkAddress] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [stats, setStats] = useState<DashboardStats>({
         totalBroadcasts: 0,
@@ -36,13 +37,7 @@ export default function OverviewPage() {
     const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
 
     useEffect(() => {
-        if (!isZkLoginSessionValid()) {
-            router.push("/");
-            return;
-        }
-
-        const address = getZkLoginAddress();
-        setZkAddress(address);
+        if (!userAddress) return;
 
         const token = window.sessionStorage.getItem("sui_zklogin_jwt");
         if (token) {
@@ -54,8 +49,8 @@ export default function OverviewPage() {
             }
         }
 
-        fetchDashboardData(address);
-    }, [router]);
+        fetchDashboardData(userAddress);
+    }, [userAddress]);
 
     async function fetchDashboardData(address: string | null) {
         if (!address) {
@@ -66,7 +61,7 @@ export default function OverviewPage() {
         try {
             const client = getSuiClient();
             
-            // Fetch all owned objects with pagination support
+            // Fetch all owned objects (broadcasts) with pagination support
             let allObjects: any[] = [];
             let cursor: string | null = null;
             
@@ -102,31 +97,21 @@ export default function OverviewPage() {
                             status: "success",
                         });
                     }
-                } else if (type.includes("Handout")) {
-                    const content = obj.data?.content;
-                    if (content?.dataType === "moveObject") {
-                        const fields = content.fields as any;
-                        if (fields?.verified) {
-                            verifiedHandouts++;
-                            activities.push({
-                                file: fields.description || "Handout",
-                                user: address.slice(0, 6) + "..." + address.slice(-4),
-                                time: "Recently",
-                                status: "success",
-                            });
-                        } else {
-                            pendingHandouts++;
-                            activities.push({
-                                file: fields.description || "Handout",
-                                user: address.slice(0, 6) + "..." + address.slice(-4),
-                                time: "Recently",
-                                status: "pending",
-                            });
-                        }
-                    }
                 }
             }
 
+            // Handouts are shared objects, so they come from the indexer rather than owned objects
+            for (const handout of await getUploadedHandouts(client, address)) {
+                if (handout.verified) verifiedHandouts++;
+                else pendingHandouts++;
+                activities.push({
+                    file: handout.description || "Handout",
+                    user: address.slice(0, 6) + "..." + address.slice(-4),
+                    time: "Recently",
+                    status: handout.verified ? "success" : "pending",
+                });
+            }
+
             // Sort activities by most recent (you could add timestamp sorting if available)
             activities.sort((a, b) => {
                 if (a.status === "success" && b.status === "pending") return -1;
@@ -166,14 +151,14 @@ export default function OverviewPage() {
                         Welcome back, <span className="text-[#4F9EF8]">{userName || "User"}</span>
                     </h1>
                     <p className="text-[#8A919E] text-sm">Here's what's happening in your Sui-Echo network.</p>
-                    {zkAddress && (
+                    {userAddress && (
                         <p className="text-xs text-[#565B67] font-mono mt-2">
-                            {zkAddress.slice(0, 10)}...{zkAddress.slice(-8)}
+                            {userAddress.slice(0, 10)}...{userAddress.slice(-8)}
                         </p>
                     )}
                 </div>
                 <button
-                    onClick={() => fetchDashboardData(zkAddress)}
+                    onClick={() => fetchDashboardData(userAddress)}
                     className="px-4 py-2 bg-[#12151C] border border-[#1E232E] rounded-lg hover:border-[#2A3140] transition-colors flex items-center gap-2 text-sm text-[#8A919E] hover:text-white"
                 >
                     <Loader2 size={14} className={loading ? "animate-spin" : ""} />
@@ -5,22 +5,39 @@ import Link from "next/link";
 import { ArrowRight, BookOpen, ShieldCheck, PlayCircle, Radio, Loader2 } from "lucide-react";
 import { useState } from "react";
 import { prepareZkLoginSession } from "@/utils/zklogin-proof";
+import { setSessionPersistence } from "@/lib/zklogin-session";
+import { getConfiguredOAuthProviders, type OAuthProviderId } from "@/lib/oauth-providers";
+
+const LOGIN_PROVIDERS = getConfiguredOAuthProviders();
+
+function GoogleLogo() {
+  return (
+    <svg className="w-5 h-5" viewBox="0 0 24 24">
+      <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
+      <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
+      <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
+      <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
+    </svg>
+  );
+}
 
 export default function Home() {
   const [role, setRole] = useState<'student' | 'rep'>('student');
-  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [redirectingTo, setRedirectingTo] = useState<OAuthProviderId | null>(null);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [keepSignedIn, setKeepSignedIn] = useState(false);
 
-  const handleGoogleLogin = async () => {
-    setIsRedirecting(true);
+  const handleLogin = async (provider: OAuthProviderId) => {
+    setRedirectingTo(provider);
     setLoginError(null);
     try {
       window.sessionStorage.setItem("sui_echo_user_role", role);
-      const { loginUrl } = await prepareZkLoginSession();
-      window.location.href = loginUrl;
+      await setSessionPersistence(keepSignedIn);
+      const { loginUrl } = await prepareZkLoginSession({ provider });
+      window.location.assign(loginUrl);
     } catch (e: any) {
       console.error("[zkLogin] Error:", e);
-      setIsRedirecting(false);
+      setRedirectingTo(null);
       setLoginError(e.message || "Failed to initialize zkLogin. Please try again.");
     }
   };
@@ -89,28 +106,44 @@ export default function Home() {
             </button>
           </div>
 
-          {/* Login Button */}
+          {/* Login Buttons, one per configured provider */}
           <div className="bg-[#12151C] p-5 rounded-xl border border-[#1E232E]">
-            <button
-              onClick={handleGoogleLogin}
-              disabled={isRedirecting}
-              className="w-full bg-white hover:bg-gray-100 text-gray-900 h-12 rounded-lg font-semibold transition-all flex items-center justify-center gap-3 disabled:opacity-70"
-            >
-              <svg className="w-5 h-5" viewBox="0 0 24 24">
-                <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
-                <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
-                <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
-                <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
-              </svg>
-              {isRedirecting ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Connecting...
-                </>
-              ) : (
-                `Continue with Google as ${role === 'rep' ? 'Course Rep' : 'Student'}`
-              )}
-            </button>
+            <div className="space-y-2">
+              {LOGIN_PROVIDERS.map((provider) => (
+                <button
+                  key={provider.id}
+                  onClick={() => handleLogin(provider.id)}
+                  disabled={redirectingTo !== null}
+                  className="w-full bg-white hover:bg-gray-100 text-gray-900 h-12 rounded-lg font-semibold transition-all flex items-center justify-center gap-3 disabled:opacity-70"
+                >
+                  {provider.id === "google" && <GoogleLogo />}
+                  {redirectingTo === provider.id ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Connecting...
+                    </>
+                  ) : (
+                    `Continue with ${provider.name} as ${role === 'rep' ? 'Course Rep' : 'Student'}`
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {LOGIN_PROVIDERS.length === 0 && (
+              <p className="text-xs text-red-400 text-center">
+                Sign-in is not configured. Set an OAuth client ID such as NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID.
+              </p>
+            )}
+
+            <label className="flex items-center justify-center gap-2 mt-3 text-xs text-[#8A919E] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepSignedIn}
+                onChange={(e) => setKeepSignedIn(e.target.checked)}
+                className="accent-[#4F9EF8]"
+              />
+              Keep me signed in on this device
+            </label>
 
             {role === 'rep' && (
               <p className="text-xs text-[#565B67] text-center mt-3">
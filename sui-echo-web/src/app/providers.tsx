@@ -5,13 +5,16 @@ import { getFullnodeUrl } from "@mysten/sui/client";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import "@mysten/dapp-kit/dist/index.css";
-import { registerEnokiWallets, isEnokiNetwork } from "@mysten/enoki";
-import { GOOGLE_CLIENT_ID, ENOKI_API_KEY } from "@/config";
+import { registerEnokiWallets, isEnokiNetwork, type AuthProvider } from "@mysten/enoki";
+import { ENOKI_API_KEY, SUI_NETWORK } from "@/config";
+import { getConfiguredOAuthProviders, getOAuthClientId } from "@/lib/oauth-providers";
+import { registerOfflineWorker } from "@/lib/offline-library";
 
 const { networkConfig } = createNetworkConfig({
     testnet: { url: getFullnodeUrl("testnet") },
     localnet: { url: getFullnodeUrl("localnet") },
     mainnet: { url: getFullnodeUrl("mainnet") },
+    devnet: { url: getFullnodeUrl("devnet") },
 });
 
 // Component to register Enoki wallets with the wallet standard
@@ -19,8 +22,15 @@ function RegisterEnokiWallets() {
     const { client, network } = useSuiClientContext();
 
     useEffect(() => {
+        // Enoki wallets exist for the providers Enoki supports
+        const providers: Partial<Record<AuthProvider, { clientId: string }>> = Object.fromEntries(
+            getConfiguredOAuthProviders()
+                .filter(provider => provider.enokiSupported)
+                .map(provider => [provider.id, { clientId: getOAuthClientId(provider.id) }])
+        );
+
         // Only register if we have the required config
-        if (!ENOKI_API_KEY || !GOOGLE_CLIENT_ID) {
+        if (!ENOKI_API_KEY || Object.keys(providers).length === 0) {
             console.log("[Enoki] Skipping registration - missing API key or client ID");
             return;
         }
@@ -35,11 +45,7 @@ function RegisterEnokiWallets() {
 
         const { unregister } = registerEnokiWallets({
             apiKey: ENOKI_API_KEY,
-            providers: {
-                google: {
-                    clientId: GOOGLE_CLIENT_ID,
-                },
-            },
+            providers,
             client,
             network,
         });
@@ -50,13 +56,23 @@ function RegisterEnokiWallets() {
     return null;
 }
 
+// Service worker that serves the reader and saved handouts offline
+function RegisterOfflineWorker() {
+    useEffect(() => {
+        registerOfflineWorker();
+    }, []);
+
+    return null;
+}
+
 export function Providers({ children }: { children: React.ReactNode }) {
     const [queryClient] = useState(() => new QueryClient());
 
     return (
         <QueryClientProvider client={queryClient}>
-            <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+            <SuiClientProvider networks={networkConfig} defaultNetwork={SUI_NETWORK}>
                 <RegisterEnokiWallets />
+                <RegisterOfflineWorker />
                 <WalletProvider autoConnect>
                     {children}
                 </WalletProvider>
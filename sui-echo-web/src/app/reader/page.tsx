@@ -1,90 +1,299 @@
 "use client";
 
-import { useState, useEffect, useRef, Suspense } from "react";
+import { useState, useEffect, useEffectEvent, useMemo, useRef, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
-import { Play, Pause, SkipBack, SkipForward, Users, Volume2, Mic, FileText, Loader2 } from "lucide-react";
+import { Play, Pause, SkipBack, SkipForward, Users, Volume2, Mic, FileText, Loader2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, RotateCcw, Bookmark, Trash2, Headphones } from "lucide-react";
+import { loadHandoutContent } from "@/lib/offline-library";
 import { getWalrusUrl } from "@/lib/walrus";
+import { fetchAudioTrack, findChapterIndex, formatTimestamp, requestAudioTrack, type AudioChapter, type AudioTrack } from "@/lib/audio-tracks";
+import { parseHandoutContent, getDocumentTitle, type HandoutDocument } from "@/lib/handout-document";
+import { verbalizeLatex } from "@/lib/equations";
+import { getHandoutLanguage, getVoicesForLanguage } from "@/lib/languages";
+import { buildReadingQueue, findPageSegment, findParagraphSegment, type ReadingSegment } from "@/lib/reading-queue";
+import {
+    findBookmark,
+    fetchSyncedReadingProgress,
+    getLocalReadingProgress,
+    newerReadingProgress,
+    pushReadingProgress,
+    saveLocalReadingProgress,
+    type ReadingBookmark,
+    type ReadingProgress,
+} from "@/lib/reading-progress";
+import { VOICE_COMMAND_EVENT, type VoiceCommandDetail } from "@/components/VoiceNavigation";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+
+// Synced progress is pushed once the position has been still for this long
+const SYNC_DELAY_MS = 5000;
+
+// Blocks recognized below this OCR confidence are flagged in the transcript
+const LOW_CONFIDENCE = 0.6;
 
 function ReaderContent() {
     const searchParams = useSearchParams();
+    // Reading is open to everyone; rendering audio needs a signed-in account
+    const signer = useEchoSigner({ required: false });
     const [playing, setPlaying] = useState(false);
-    const [text, setText] = useState<string>("");
+    const [handoutDocument, setHandoutDocument] = useState<HandoutDocument | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    // Sentence being read (or next to read when paused)
+    const [segmentIndex, setSegmentIndex] = useState(0);
+    // How far through the current sentence speech has got, from 0 to 1
+    const [sentenceProgress, setSentenceProgress] = useState(0);
     const [loading, setLoading] = useState(false);
-    const [progress, setProgress] = useState(0);
-    const [duration, setDuration] = useState(0);
-    const [currentTime, setCurrentTime] = useState(0);
     const [speed, setSpeed] = useState(1);
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    // Voice picked by the listener; empty for the best match for the handout language
+    const [voiceURI, setVoiceURI] = useState("");
+    const [bookmarks, setBookmarks] = useState<ReadingBookmark[]>([]);
+    const [bookmarkName, setBookmarkName] = useState("");
+    // Saved position offered when reopening a handout; progress isn't saved until it's answered
+    const [resumeIndex, setResumeIndex] = useState<number | null>(null);
+    const [progressLoaded, setProgressLoaded] = useState(false);
+    // Narration rendered on the server by /api/tts, when there is one
+    const [audioTrack, setAudioTrack] = useState<AudioTrack | null>(null);
+    const [audioTime, setAudioTime] = useState(0);
+    const [renderingAudio, setRenderingAudio] = useState(false);
+    const [audioError, setAudioError] = useState<string | null>(null);
 
     const blobId = searchParams.get("blobId");
-    const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+    const highlightRef = useRef<HTMLElement | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const segments = useMemo(() => handoutDocument ? buildReadingQueue(handoutDocument) : [], [handoutDocument]);
+    const currentSegment = segments[segmentIndex] as ReadingSegment | undefined;
+    const pageCount = handoutDocument?.pages.length ?? 0;
+    const pageIndex = currentSegment?.pageIndex ?? 0;
+    const progress = segments.length > 0 ? ((segmentIndex + sentenceProgress) / segments.length) * 100 : 0;
+    const language = getHandoutLanguage(handoutDocument?.language);
+    const languageVoices = getVoicesForLanguage(voices, language.code);
+    const voice = languageVoices.find(v => v.voiceURI === voiceURI) ?? languageVoices[0] ?? null;
+    const documentTitle = handoutDocument ? getDocumentTitle(handoutDocument) : "";
+    const chapterIndex = audioTrack ? findChapterIndex(audioTrack.chapters, audioTime) : -1;
 
-    // Initial load from Walrus
+    // Credentials for account sync, read when sync runs; wallet users sign an auth message the first time
+    const getSyncHeaders = useEffectEvent(async (): Promise<Record<string, string> | null> => {
+        if (!signer.kind) return null;
+        try {
+            return await signer.getAuthHeaders();
+        } catch (err) {
+            console.warn("[Reading] Account sync unavailable:", err);
+            return null;
+        }
+    });
+
+    // Initial load from Walrus, once a returning wallet has reconnected so its synced progress is found
     useEffect(() => {
-        if (!blobId) return;
+        if (!blobId || signer.loading) return;
 
         const fetchData = async () => {
             setLoading(true);
             try {
-                const url = getWalrusUrl(blobId);
-                const response = await fetch(url);
-                if (response.ok) {
-                    const content = await response.text();
-                    setText(content);
-                }
+                // Uses the offline library copy when the handout was saved for offline
+                const content = await loadHandoutContent(blobId);
+                setHandoutDocument(parseHandoutContent(content).document);
+                setSegmentIndex(0);
+
+                const saved = newerReadingProgress(getLocalReadingProgress(blobId), await fetchSyncedReadingProgress(blobId, await getSyncHeaders()));
+                setBookmarks(saved?.bookmarks ?? []);
+                setResumeIndex(saved && saved.sentenceIndex > 0 ? saved.sentenceIndex : null);
+                setProgressLoaded(true);
             } catch (err) {
                 console.error("Failed to fetch from Walrus:", err);
+                setLoadError(err instanceof Error ? err.message : "Failed to load handout");
             } finally {
                 setLoading(false);
             }
         };
 
         fetchData();
-    }, [blobId]);
+        fetchAudioTrack(blobId).then(setAudioTrack);
+    }, [blobId, signer.loading]);
 
-    // TTS Control
     useEffect(() => {
-        if (!text) return;
+        const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+        loadVoices();
+        window.speechSynthesis.onvoiceschanged = loadVoices;
+        return () => {
+            window.speechSynthesis.onvoiceschanged = null;
+        };
+    }, []);
 
-        // Cleanup previous utterance
-        window.speechSynthesis.cancel();
+    // Speaks the current sentence while playing; seeking, pausing or changing speed or
+    // voice cancels it and this effect starts again from the start of the current sentence
+    useEffect(() => {
+        if (!playing || !currentSegment) return;
 
-        const utterance = new SpeechSynthesisUtterance(text);
+        const utterance = new SpeechSynthesisUtterance(currentSegment.spokenText);
         utterance.rate = speed;
-        utterance.onend = () => setPlaying(false);
+        utterance.lang = language.speechLocale;
+        if (voice) utterance.voice = voice;
+        utterance.onstart = () => setSentenceProgress(0);
         utterance.onboundary = (event) => {
-            // Estimate progress based on character index
-            const prog = (event.charIndex / text.length) * 100;
-            setProgress(prog);
-            setCurrentTime(event.charIndex); // Rough approximation of time in chars
+            setSentenceProgress(event.charIndex / currentSegment.spokenText.length);
+        };
+        utterance.onend = () => {
+            setSentenceProgress(0);
+            if (segmentIndex < segments.length - 1) {
+                setSegmentIndex(segmentIndex + 1);
+            } else {
+                // Finished: the next play starts from the top
+                setPlaying(false);
+                setSegmentIndex(0);
+            }
         };
 
-        utteranceRef.current = utterance;
-        setDuration(text.length);
+        window.speechSynthesis.cancel();
+        window.speechSynthesis.speak(utterance);
 
         return () => {
+            // Cancelling fires onend in some browsers; don't let it advance
+            utterance.onend = null;
+            utterance.onboundary = null;
             window.speechSynthesis.cancel();
         };
-    }, [text, speed]);
+    }, [playing, currentSegment, segmentIndex, segments.length, speed, language.speechLocale, voice]);
 
-    const togglePlay = () => {
-        if (playing) {
-            window.speechSynthesis.pause();
-        } else {
-            if (window.speechSynthesis.paused) {
-                window.speechSynthesis.resume();
-            } else if (utteranceRef.current) {
-                window.speechSynthesis.speak(utteranceRef.current);
+    // Save the position and bookmarks locally right away, and to the account once reading settles
+    useEffect(() => {
+        if (!blobId || !progressLoaded || resumeIndex !== null) return;
+
+        const saved: ReadingProgress = { blobId, sentenceIndex: segmentIndex, updatedAt: Date.now(), bookmarks };
+        saveLocalReadingProgress(saved);
+        const timer = setTimeout(async () => pushReadingProgress(saved, await getSyncHeaders()), SYNC_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [blobId, progressLoaded, resumeIndex, segmentIndex, bookmarks]);
+
+    // Voice commands: "go to bookmark <name>", "add bookmark <name>", "resume"
+    useEffect(() => {
+        const handleVoiceCommand = (event: Event) => {
+            const { text, respond } = (event as CustomEvent<VoiceCommandDetail>).detail;
+
+            const jump = /^(?:go to |jump to |open )?bookmark (.+)$/.exec(text);
+            if (jump) {
+                event.preventDefault();
+                const bookmark = findBookmark(bookmarks, jump[1]);
+                if (!bookmark || bookmark.sentenceIndex >= segments.length) {
+                    respond(`No bookmark called ${jump[1]}`);
+                    return;
+                }
+                setResumeIndex(null);
+                setSentenceProgress(0);
+                setSegmentIndex(bookmark.sentenceIndex);
+                respond(`Jumping to ${bookmark.name}`);
+                return;
             }
-        }
+
+            const add = /^(?:add|save|create) bookmark (.+)$/.exec(text);
+            if (add) {
+                event.preventDefault();
+                setResumeIndex(null);
+                setBookmarks(prev => [...prev, { id: crypto.randomUUID(), name: add[1].trim(), sentenceIndex: segmentIndex, createdAt: Date.now() }]);
+                respond(`Bookmark ${add[1]} added`);
+                return;
+            }
+
+            if (/^resume\b/.test(text) && resumeIndex !== null) {
+                event.preventDefault();
+                setResumeIndex(null);
+                setSegmentIndex(Math.min(resumeIndex, segments.length - 1));
+                respond("Resuming where you left off");
+            }
+        };
+
+        window.addEventListener(VOICE_COMMAND_EVENT, handleVoiceCommand);
+        return () => window.removeEventListener(VOICE_COMMAND_EVENT, handleVoiceCommand);
+    }, [bookmarks, segments.length, segmentIndex, resumeIndex]);
+
+    // Keep the highlighted sentence in view
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }, [segmentIndex]);
+
+    const seek = (index: number) => {
+        if (index < 0 || index >= segments.length) return;
+        // Moving on counts as declining the resume offer
+        setResumeIndex(null);
+        setSentenceProgress(0);
+        setSegmentIndex(index);
+    };
+
+    const resume = () => {
+        if (resumeIndex === null) return;
+        seek(Math.min(resumeIndex, segments.length - 1));
+    };
+
+    const addBookmark = () => {
+        const name = bookmarkName.trim() || `Page ${pageIndex + 1}, sentence ${segmentIndex + 1}`;
+        setResumeIndex(null);
+        setBookmarks(prev => [...prev, { id: crypto.randomUUID(), name, sentenceIndex: segmentIndex, createdAt: Date.now() }]);
+        setBookmarkName("");
+    };
+
+    const deleteBookmark = (id: string) => {
+        setBookmarks(prev => prev.filter(bookmark => bookmark.id !== id));
+    };
+
+    const goToPage = (index: number) => {
+        if (index === pageIndex) return;
+        const target = findPageSegment(segments, index);
+        if (target !== -1) seek(target);
+    };
+
+    const restart = () => seek(0);
+    const skipSentence = (direction: 1 | -1) => seek(segmentIndex + direction);
+    const skipParagraph = (direction: 1 | -1) => seek(findParagraphSegment(segments, segmentIndex, direction));
+
+    const togglePlay = () => {
+        // Playing from the top declines the resume offer
+        setResumeIndex(null);
+        audioRef.current?.pause();
         setPlaying(!playing);
     };
 
+    const renderAudio = async () => {
+        if (!blobId) return;
+        setRenderingAudio(true);
+        setAudioError(null);
+        try {
+            if (!signer.kind) throw new Error("Sign in or connect a wallet to render audio");
+            setAudioTrack(await requestAudioTrack(blobId, await signer.getAuthHeaders()));
+        } catch (err) {
+            setAudioError(err instanceof Error ? err.message : "Failed to render audio");
+        } finally {
+            setRenderingAudio(false);
+        }
+    };
+
+    const playChapter = (chapter: AudioChapter) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = chapter.startSeconds;
+        audio.play();
+    };
+
+    // Keep the transcript on the chapter the recorded narration is playing
+    const handleAudioTimeUpdate = (time: number) => {
+        const next = audioTrack ? findChapterIndex(audioTrack.chapters, time) : -1;
+        if (audioTrack && next !== -1 && next !== chapterIndex) seek(audioTrack.chapters[next].segmentIndex);
+        setAudioTime(time);
+    };
+
     const adjustSpeed = () => {
         const speeds = [1, 1.25, 1.5, 2];
         const next = speeds[(speeds.indexOf(speed) + 1) % speeds.length];
         setSpeed(next);
     };
 
+    // Sentences of the page on screen, keyed by block, with their queue positions
+    const pageSegments = segments
+        .map((segment, index) => ({ ...segment, index }))
+        .filter(segment => segment.pageIndex === pageIndex);
+    const segmentsForBlock = (blockIndex: number) => pageSegments.filter(segment => segment.blockIndex === blockIndex);
+    const isCurrentBlock = (blockIndex: number) => currentSegment?.pageIndex === pageIndex && currentSegment.blockIndex === blockIndex;
+    const setHighlight = (element: HTMLElement | null) => {
+        highlightRef.current = element;
+    };
+
     if (loading) {
         return (
             <div className="min-h-screen bg-[#0A0F1D] text-white flex flex-col items-center justify-center">
@@ -109,7 +318,15 @@ function ReaderContent() {
                         <div className="w-24 h-32 bg-white/10 backdrop-blur rounded-xl border border-white/20 mb-6 flex items-center justify-center">
                             <FileText size={48} className="text-green-400" />
                         </div>
-                        <h3 className="text-xl font-bold text-green-100">{blobId ? `Handout: ${blobId.slice(0, 8)}...` : "No Handout Selected"}</h3>
+                        <h3 className="text-xl font-bold text-green-100">
+                            {documentTitle || (blobId ? `Handout: ${blobId.slice(0, 8)}...` : "No Handout Selected")}
+                        </h3>
+                        {handoutDocument?.courseCode && (
+                            <p className="text-xs text-green-300/70 mt-1 font-bold tracking-widest uppercase">{handoutDocument.courseCode}</p>
+                        )}
+                        {pageCount > 1 && (
+                            <p className="text-sm text-green-300/70 mt-2 font-mono">Page {pageIndex + 1} of {pageCount}</p>
+                        )}
                     </div>
                 </div>
 
@@ -123,6 +340,21 @@ function ReaderContent() {
                         </div>
                     </div>
 
+                    {/* Resume Prompt */}
+                    {resumeIndex !== null && segments.length > 0 && (
+                        <div className="flex items-center justify-between gap-4 p-4 rounded-2xl border border-green-500/30 bg-green-500/10" role="status">
+                            <p className="text-sm text-green-200">
+                                Resume where you left off? <span className="text-green-400/70">
+                                    Page {(segments[Math.min(resumeIndex, segments.length - 1)]?.pageIndex ?? 0) + 1}, sentence {Math.min(resumeIndex, segments.length - 1) + 1}
+                                </span>
+                            </p>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={resume} className="px-4 py-2 rounded-xl bg-green-500 text-black text-sm font-bold hover:bg-green-400">Resume</button>
+                                <button onClick={() => setResumeIndex(null)} className="px-4 py-2 rounded-xl border border-white/10 text-sm font-bold hover:bg-white/10">Start over</button>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Progress Bar */}
                     <div className="group">
                         <div className="h-2 bg-gray-800 rounded-full overflow-hidden mb-2">
@@ -132,29 +364,45 @@ function ReaderContent() {
                         </div>
                         <div className="flex justify-between text-xs text-gray-500 font-mono font-bold">
                             <span>{Math.round(progress)}% done</span>
-                            <span>{text.length} chars</span>
+                            <span>{pageCount > 1 ? `Page ${pageIndex + 1}/${pageCount} • ` : ""}{segments.length > 0 ? `Sentence ${segmentIndex + 1}/${segments.length}` : "No text"}</span>
                         </div>
                     </div>
 
                     {/* Main Controls */}
                     <div className="flex items-center justify-between">
-                        <button className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold">
-                            <SkipBack size={24} />
+                        <button onClick={restart} disabled={segments.length === 0} className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold disabled:opacity-30">
+                            <RotateCcw size={20} />
                             Restart
                         </button>
 
+                        <button onClick={() => skipParagraph(-1)} disabled={segmentIndex === 0} aria-label="Previous paragraph" className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold disabled:opacity-30">
+                            <ChevronsLeft size={20} />
+                            Para
+                        </button>
+
+                        <button onClick={() => skipSentence(-1)} disabled={segmentIndex === 0} aria-label="Previous sentence" className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold disabled:opacity-30">
+                            <SkipBack size={24} />
+                            Back
+                        </button>
+
                         <button
                             onClick={togglePlay}
-                            disabled={!text}
+                            disabled={segments.length === 0}
+                            aria-label={playing ? "Pause" : "Play"}
                             className="w-24 h-24 rounded-full bg-green-500 hover:bg-green-400 text-black flex items-center justify-center shadow-[0_0_50px_-10px_rgba(34,197,94,0.4)] transition-all hover:scale-105 disabled:opacity-50"
                         >
                             {playing ? <Pause size={32} fill="black" /> : <Play size={32} fill="black" className="ml-1" />}
                         </button>
 
-                        <button className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold">
+                        <button onClick={() => skipSentence(1)} disabled={segmentIndex >= segments.length - 1} aria-label="Next sentence" className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold disabled:opacity-30">
                             <SkipForward size={24} />
                             Skip
                         </button>
+
+                        <button onClick={() => skipParagraph(1)} disabled={segmentIndex >= segments.length - 1} aria-label="Next paragraph" className="text-gray-500 hover:text-white transition-colors flex flex-col items-center gap-1 text-[10px] font-bold disabled:opacity-30">
+                            <ChevronsRight size={20} />
+                            Para
+                        </button>
                     </div>
 
                     {/* Settings Row */}
@@ -162,16 +410,208 @@ function ReaderContent() {
                         <button onClick={adjustSpeed} className="flex-1 py-3 rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center justify-center gap-2">
                             {speed}x <span className="text-gray-500 font-normal">Speed</span>
                         </button>
-                        <button className="flex-1 py-3 rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center justify-center gap-2 text-green-400">
-                            <Users size={16} /> Accent: en-NG
-                        </button>
+                        <label className="flex-1 py-3 px-3 rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center justify-center gap-2 text-green-400">
+                            <Users size={16} className="shrink-0" />
+                            <span className="sr-only">Voice</span>
+                            <select
+                                value={voice?.voiceURI ?? ""}
+                                onChange={(e) => setVoiceURI(e.target.value)}
+                                disabled={languageVoices.length === 0}
+                                title={languageVoices.length === 0 ? `No ${language.label} voice installed; your browser will choose one` : undefined}
+                                className="min-w-0 bg-transparent outline-none truncate"
+                            >
+                                {languageVoices.length === 0 ? (
+                                    <option value="">{language.label} ({language.speechLocale})</option>
+                                ) : languageVoices.map(v => (
+                                    <option key={v.voiceURI} value={v.voiceURI} className="bg-[#0A0F1D]">{v.name} ({v.lang})</option>
+                                ))}
+                            </select>
+                        </label>
                     </div>
 
+                    {/* Recorded Narration */}
+                    {blobId && handoutDocument && (
+                        <div className="p-4 rounded-2xl border border-white/10 bg-white/5 space-y-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <p className="text-sm font-bold flex items-center gap-2">
+                                    <Headphones size={16} className="text-green-400" /> Recorded narration
+                                </p>
+                                {audioTrack && (
+                                    <span className="text-[10px] text-gray-500 font-mono truncate">{audioTrack.voice} • {formatTimestamp(audioTrack.durationSeconds)}</span>
+                                )}
+                            </div>
+
+                            {audioTrack ? (
+                                <>
+                                    <audio
+                                        ref={audioRef}
+                                        src={getWalrusUrl(audioTrack.audioBlobId)}
+                                        controls
+                                        preload="metadata"
+                                        onPlay={() => setPlaying(false)}
+                                        onTimeUpdate={(e) => handleAudioTimeUpdate(e.currentTarget.currentTime)}
+                                        className="w-full"
+                                    />
+                                    {/* Chapter markers */}
+                                    <div className="relative h-2 bg-gray-800 rounded-full" aria-hidden="true">
+                                        <div className="h-full bg-green-500/60 rounded-full" style={{ width: `${Math.min(100, (audioTime / audioTrack.durationSeconds) * 100)}%` }} />
+                                        {audioTrack.chapters.map((chapter, index) => (
+                                            <button
+                                                key={index}
+                                                tabIndex={-1}
+                                                onClick={() => playChapter(chapter)}
+                                                title={chapter.title}
+                                                className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-1.5 h-4 rounded-full bg-white/70 hover:bg-white"
+                                                style={{ left: `${(chapter.startSeconds / audioTrack.durationSeconds) * 100}%` }}
+                                            />
+                                        ))}
+                                    </div>
+                                    <ol className="max-h-32 overflow-y-auto space-y-1" aria-label="Chapters">
+                                        {audioTrack.chapters.map((chapter, index) => (
+                                            <li key={index}>
+                                                <button
+                                                    onClick={() => playChapter(chapter)}
+                                                    aria-current={index === chapterIndex || undefined}
+                                                    className={`w-full flex justify-between gap-3 px-2 py-1 rounded-lg text-xs text-left hover:bg-white/10 ${index === chapterIndex ? "text-green-300 bg-green-500/10" : "text-gray-400"}`}
+                                                >
+                                                    <span className="truncate">{chapter.title}</span>
+                                                    <span className="font-mono shrink-0">{formatTimestamp(chapter.startSeconds)}</span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                </>
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={renderAudio}
+                                        disabled={renderingAudio}
+                                        aria-busy={renderingAudio}
+                                        className="w-full py-2 rounded-xl border border-white/10 hover:bg-white/10 text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+                                    >
+                                        {renderingAudio ? <><Loader2 size={14} className="animate-spin" /> Rendering audio, this can take a few minutes...</> : "Render recorded narration"}
+                                    </button>
+                                    <p className="text-[10px] text-gray-600">Renders one consistent voice for this handout on the server and stores it on Walrus for everyone.</p>
+                                </>
+                            )}
+                            {audioError && <p className="text-xs text-red-400" role="alert">{audioError}</p>}
+                        </div>
+                    )}
+
+                    {/* Page Navigation */}
+                    {pageCount > 1 && (
+                        <div className="flex items-center justify-between" role="navigation" aria-label="Pages">
+                            <button
+                                onClick={() => goToPage(pageIndex - 1)}
+                                disabled={pageIndex === 0}
+                                className="px-4 py-2 rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center gap-1 disabled:opacity-30"
+                            >
+                                <ChevronLeft size={16} /> Previous page
+                            </button>
+                            <select
+                                value={pageIndex}
+                                onChange={(e) => goToPage(Number(e.target.value))}
+                                aria-label="Go to page"
+                                className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm font-mono"
+                            >
+                                {handoutDocument?.pages.map((_, index) => (
+                                    <option key={index} value={index}>Page {index + 1}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => goToPage(pageIndex + 1)}
+                                disabled={pageIndex === pageCount - 1}
+                                className="px-4 py-2 rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center gap-1 disabled:opacity-30"
+                            >
+                                Next page <ChevronRight size={16} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Bookmarks */}
+                    {segments.length > 0 && (
+                        <div className="space-y-3">
+                            <div className="flex gap-2">
+                                <input
+                                    value={bookmarkName}
+                                    onChange={(e) => setBookmarkName(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && addBookmark()}
+                                    maxLength={80}
+                                    placeholder={`Bookmark name (page ${pageIndex + 1}, sentence ${segmentIndex + 1})`}
+                                    aria-label="Bookmark name"
+                                    className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm outline-none focus:border-green-500/50"
+                                />
+                                <button onClick={addBookmark} className="px-4 py-2 rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-bold flex items-center gap-2">
+                                    <Bookmark size={14} /> Add
+                                </button>
+                            </div>
+                            {bookmarks.length > 0 && (
+                                <ul className="flex flex-wrap gap-2" aria-label="Bookmarks">
+                                    {bookmarks.map(bookmark => (
+                                        <li key={bookmark.id} className="flex items-center rounded-xl border border-white/10 bg-white/5 text-xs">
+                                            <button
+                                                onClick={() => seek(bookmark.sentenceIndex)}
+                                                disabled={bookmark.sentenceIndex >= segments.length}
+                                                className="px-3 py-1.5 font-bold text-green-400 hover:text-green-300 disabled:opacity-30"
+                                            >
+                                                {bookmark.name}
+                                            </button>
+                                            <button onClick={() => deleteBookmark(bookmark.id)} aria-label={`Delete bookmark ${bookmark.name}`} className="px-2 py-1.5 text-gray-500 hover:text-red-400 border-l border-white/10">
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <p className="text-[10px] text-gray-600">Say &quot;go to bookmark&quot; and its name to jump there.</p>
+                        </div>
+                    )}
+
                     {/* Transcript Peek */}
-                    <div className="p-6 bg-black/40 rounded-3xl border border-white/5 max-h-40 overflow-y-auto">
-                        <p className="text-sm text-gray-500 leading-relaxed font-mono">
-                            {text || "Waiting for content..."}
-                        </p>
+                    <div className="p-6 bg-black/40 rounded-3xl border border-white/5 max-h-40 overflow-y-auto space-y-3">
+                        {loadError ? (
+                            <p className="text-sm text-red-400">{loadError}</p>
+                        ) : handoutDocument?.pages[pageIndex] ? (
+                            handoutDocument.pages[pageIndex].blocks.map((block, index) => block.type === "heading" ? (
+                                <h4
+                                    key={index}
+                                    ref={isCurrentBlock(index) ? setHighlight : undefined}
+                                    aria-current={isCurrentBlock(index) || undefined}
+                                    className={`text-sm font-bold ${isCurrentBlock(index) ? "text-green-300" : "text-gray-300"}`}
+                                >
+                                    {block.text}
+                                </h4>
+                            ) : block.type === "math" ? (
+                                <div
+                                    key={index}
+                                    ref={isCurrentBlock(index) ? setHighlight : undefined}
+                                    aria-current={isCurrentBlock(index) || undefined}
+                                    className={`px-3 py-2 rounded-xl border ${isCurrentBlock(index) ? "bg-green-500/10 border-green-500/30" : "bg-white/5 border-white/5"}`}
+                                >
+                                    <code className="text-sm text-green-300 break-all" aria-hidden="true">{block.text}</code>
+                                    <p className="text-xs text-gray-500 mt-1">{verbalizeLatex(block.text)}</p>
+                                </div>
+                            ) : (
+                                <p
+                                    key={index}
+                                    className={`text-sm leading-relaxed font-mono ${block.confidence !== null && block.confidence < LOW_CONFIDENCE ? "text-yellow-500/80" : "text-gray-500"}`}
+                                    title={block.confidence !== null ? `OCR confidence ${Math.round(block.confidence * 100)}%` : undefined}
+                                >
+                                    {segmentsForBlock(index).map(segment => (
+                                        <span
+                                            key={segment.index}
+                                            ref={segment.index === segmentIndex ? setHighlight : undefined}
+                                            aria-current={segment.index === segmentIndex || undefined}
+                                            className={segment.index === segmentIndex ? "bg-green-500/20 text-green-200 rounded" : undefined}
+                                        >
+                                            {segment.displayText}
+                                        </span>
+                                    ))}
+                                </p>
+                            ))
+                        ) : (
+                            <p className="text-sm text-gray-500 leading-relaxed font-mono">Waiting for content...</p>
+                        )}
                     </div>
                 </div>
 
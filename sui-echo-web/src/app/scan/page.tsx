@@ -1,15 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import Scanner from "@/components/Scanner";
+import { useState, useEffect, useSyncExternalStore } from "react";
+import Scanner, { type ScannedPage } from "@/components/Scanner";
 import { uploadToWalrus } from "@/lib/walrus";
+import {
+    blocksFromText,
+    createHandoutDocument,
+    getAverageConfidence,
+    hashHandoutContent,
+    serializeHandoutDocument,
+    HANDOUT_DOCUMENT_CONTENT_TYPE,
+    type HandoutPage,
+} from "@/lib/handout-document";
+import { verbalizeLatex } from "@/lib/equations";
+import { HANDOUT_LANGUAGES, DEFAULT_LANGUAGE_CODE, getHandoutLanguage, getPreferredLanguage, setPreferredLanguage, subscribeToPreferredLanguage, pickVoice } from "@/lib/languages";
 import { TARGETS, isContractConfigured, TEE_CONFIG_ID, ALUMNI_AJO_ID } from "@/lib/contract";
 import { TEE_WORKER_URL } from "@/config";
-import { ConnectButton, useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { ConnectButton } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
-import { Volume2, FileText, ArrowRight, X, Loader2, CheckCircle2, User, ShieldCheck } from "lucide-react";
+import { Volume2, FileText, ArrowRight, X, Loader2, CheckCircle2, User, ShieldCheck, Sigma } from "lucide-react";
 import Link from "next/link";
-import { isZkLoginSessionValid, getZkLoginAddress, executeSponsoredZkLoginTransaction } from "@/utils/zklogin-proof";
+import { getSuiClient } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import type { EchoTransactionResult } from "@/lib/transactions";
+import SessionExpiryBanner from "@/components/SessionExpiryBanner";
 
 // Attestation data from TEE
 interface Attestation {
@@ -18,19 +32,25 @@ interface Attestation {
     message: number[];
     handoutId: string;
     blobId: string;
+    contentHash: string;
+    keyId: string;
+    issuedAtEpoch: number;
+    expiresAtEpoch: number;
 }
 
 export default function ScanPage() {
-    // dapp-kit wallet state
-    const dappKitAccount = useCurrentAccount();
-    const { mutate: signAndExecute } = useSignAndExecuteTransaction();
-
-    // zkLogin state
-    const [zkLoginAddress, setZkLoginAddress] = useState<string | null>(null);
-    const [isZkLogin, setIsZkLogin] = useState(false);
+    // zkLogin session or browser wallet; anyone can scan before signing in
+    const signer = useEchoSigner({ required: false });
+    const isZkLogin = signer.kind === "zklogin";
 
     // UI state
-    const [text, setText] = useState<string>("");
+    const [pages, setPages] = useState<ScannedPage[]>([]);
+    const [activePageIndex, setActivePageIndex] = useState(0);
+    const [courseCode, setCourseCode] = useState<string>("");
+    const [title, setTitle] = useState<string>("");
+    // The saved preference is only readable in the browser; the server and hydration render the default
+    const language = useSyncExternalStore(subscribeToPreferredLanguage, getPreferredLanguage, () => DEFAULT_LANGUAGE_CODE);
+    const [sponsoredCourses, setSponsoredCourses] = useState<string[]>([]);
     const [blobId, setBlobId] = useState<string>("");
     const [handoutId, setHandoutId] = useState<string>("");
     const [uploading, setUploading] = useState(false);
@@ -38,41 +58,84 @@ export default function ScanPage() {
     const [teeStatus, setTeeStatus] = useState<"idle" | "verifying" | "attestation_ready" | "submitting" | "verified" | "failed">("idle");
     const [attestation, setAttestation] = useState<Attestation | null>(null);
     const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-    const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
 
-    // Check for zkLogin session on mount
+    // Load course codes that already have a sponsored reward pool
     useEffect(() => {
-        if (isZkLoginSessionValid()) {
-            const addr = getZkLoginAddress();
-            setZkLoginAddress(addr);
-            setIsZkLogin(true);
-        }
+        if (!isContractConfigured() || !ALUMNI_AJO_ID) return;
+
+        const loadCourses = async () => {
+            try {
+                const client = getSuiClient();
+                const ajo = await client.getObject({ id: ALUMNI_AJO_ID, options: { showContent: true } });
+                if (ajo.data?.content?.dataType !== "moveObject") return;
+
+                const fields = ajo.data.content.fields as { pools?: { fields?: { id?: { id?: string } } } };
+                const poolsTableId = fields.pools?.fields?.id?.id;
+                if (!poolsTableId) return;
+
+                const pools = await client.getDynamicFields({ parentId: poolsTableId });
+                setSponsoredCourses(pools.data.map(p => String(p.name.value)));
+            } catch (err) {
+                console.error("[Scan] Failed to load sponsored courses:", err);
+            }
+        };
+
+        loadCourses();
     }, []);
 
     useEffect(() => {
         const loadVoices = () => {
-            const vs = window.speechSynthesis.getVoices();
-            setVoices(vs);
-            const naija = vs.find(v => v.lang === 'en-NG') || vs.find(v => v.lang.includes('en-GB'));
-            if (naija) setSelectedVoice(naija);
+            setVoices(window.speechSynthesis.getVoices());
         };
         loadVoices();
         window.speechSynthesis.onvoiceschanged = loadVoices;
     }, []);
 
-    // Determine which wallet to use
-    const activeAddress = isZkLogin ? zkLoginAddress : dappKitAccount?.address;
-    const isConnected = !!activeAddress;
+    const selectedVoice = pickVoice(voices, language);
+
+    const handleLanguageChange = (code: string) => {
+        setPreferredLanguage(code);
+    };
+
+    // Page shown in the preview editor
+    const activePage = pages[Math.min(activePageIndex, pages.length - 1)] as ScannedPage | undefined;
+    const text = activePage?.text ?? "";
+    const hasText = pages.some(page => page.text.trim());
+    const recognizing = pages.some(page => page.status === "recognizing");
+
+    const handlePageTextChange = (value: string) => {
+        // Typing without a scan starts a page with no source image
+        if (!activePage) {
+            setPages([{ id: crypto.randomUUID(), imageSrc: "", processedSrc: null, text: value, blocks: blocksFromText(value), status: "done" }]);
+            return;
+        }
+        setPages(prev => prev.map(page =>
+            page.id === activePage.id ? { ...page, text: value, blocks: blocksFromText(value, page.blocks) } : page
+        ));
+    };
+
+    const equations = activePage?.blocks.filter(block => block.type === "math") ?? [];
+
+    // Appends an empty $$...$$ block for the user to type LaTeX into
+    const handleInsertEquation = () => {
+        handlePageTextChange(text.trim() ? `${text.trimEnd()}\n\n$$  $$` : "$$  $$");
+    };
+
+    // Average OCR confidence across all pages, for the status card
+    const averageConfidence = getAverageConfidence(pages);
+
+    const isConnected = !!signer.address;
 
     const handleSpeak = () => {
         if (!text) return;
         const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = getHandoutLanguage(language).speechLocale;
         if (selectedVoice) utterance.voice = selectedVoice;
         window.speechSynthesis.speak(utterance);
     };
 
     // Get attestation from TEE
-    const getAttestation = async (blobIdParam: string, handoutObjectId: string) => {
+    const getAttestation = async (blobIdParam: string, handoutObjectId: string, expectedHash: string) => {
         setTeeStatus("verifying");
         try {
             const teeResponse = await fetch(`${TEE_WORKER_URL}/api/verify`, {
@@ -80,7 +143,8 @@ export default function ScanPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     blobId: blobIdParam,
-                    handoutId: handoutObjectId
+                    handoutId: handoutObjectId,
+                    expectedHash,
                 })
             });
 
@@ -118,58 +182,35 @@ export default function ScanPage() {
                 ],
             });
 
-            if (isZkLogin) {
-                console.log("[Scan] Submitting attestation with zkLogin (sponsored)...");
-                const result = await executeSponsoredZkLoginTransaction(tx);
-                console.log("[Scan] Verification complete:", result.digest);
-                setTeeStatus("verified");
-            } else {
-                console.log("[Scan] Submitting attestation with dapp-kit...");
-                signAndExecute(
-                    { transaction: tx },
-                    {
-                        onSuccess: (result) => {
-                            console.log("[Scan] Verification complete:", result.digest);
-                            setTeeStatus("verified");
-                        },
-                        onError: (err) => {
-                            console.error("[Scan] Attestation submission error:", err);
-                            setTeeStatus("failed");
-                        }
-                    }
-                );
-            }
-        } catch (e: any) {
+            console.log(`[Scan] Submitting attestation with ${signer.kind} (sponsored)...`);
+            const result = await signer.executeSponsored(tx);
+            console.log("[Scan] Verification complete:", result.digest);
+            setTeeStatus("verified");
+        } catch (e) {
             console.error("[Scan] Submit error:", e);
             setTeeStatus("failed");
         }
     };
 
     // Parse handout object ID from transaction result
-    const parseHandoutObjectId = (result: any): string | null => {
-        if (result.objectChanges) {
-            const createdObjects = result.objectChanges.filter(
-                (change: any) => change.type === 'created'
-            );
-            if (createdObjects.length > 0) {
-                console.log("[Scan] Created handout object:", createdObjects[0].objectId);
-                return createdObjects[0].objectId;
-            }
+    const parseHandoutObjectId = (result: EchoTransactionResult): string | null => {
+        const created = result.objectChanges?.find(change => change.type === "created");
+        if (created?.type === "created") {
+            console.log("[Scan] Created handout object:", created.objectId);
+            return created.objectId;
         }
-        if (result.events) {
-            const mintEvent = result.events.find(
-                (e: any) => e.type?.includes('HandoutMinted')
-            );
-            if (mintEvent?.parsedJson?.id) {
-                console.log("[Scan] Parsed handout ID from event:", mintEvent.parsedJson.id);
-                return mintEvent.parsedJson.id;
-            }
+        const mintEvent = result.events?.find(event => event.type.includes("HandoutMinted"));
+        const mintedId = (mintEvent?.parsedJson as { id?: string } | undefined)?.id;
+        if (mintedId) {
+            console.log("[Scan] Parsed handout ID from event:", mintedId);
+            return mintedId;
         }
         return null;
     };
 
     const handleUploadAndMint = async () => {
-        if (!text || !isConnected) return;
+        const normalizedCourseCode = courseCode.trim().toUpperCase();
+        if (!hasText || recognizing || !normalizedCourseCode || !isConnected) return;
         if (!isContractConfigured()) {
             alert("Contract not configured. Please set NEXT_PUBLIC_PACKAGE_ID in .env");
             return;
@@ -183,10 +224,25 @@ export default function ScanPage() {
         setHandoutId("");
 
         try {
-            // 1. Upload to Walrus
-            console.log("[Scan] Step 1: Uploading to Walrus...");
-            const blob = new Blob([text], { type: "text/plain" });
-            const id = await uploadToWalrus(blob);
+            // 1. Upload the page photos, then the handout document referencing them
+            console.log("[Scan] Step 1: Uploading to Walrus...", { pages: pages.length });
+            const documentPages: HandoutPage[] = [];
+            for (const page of pages) {
+                const sourceImageBlobId = page.imageSrc
+                    ? await uploadToWalrus(await (await fetch(page.imageSrc)).blob())
+                    : null;
+                documentPages.push({ blocks: page.blocks, sourceImageBlobId });
+            }
+
+            const handoutDocument = createHandoutDocument({
+                title: title.trim(),
+                courseCode: normalizedCourseCode,
+                language,
+                pages: documentPages,
+            });
+            const content = serializeHandoutDocument(handoutDocument);
+            const contentHash = await hashHandoutContent(content);
+            const id = await uploadToWalrus(new Blob([content], { type: HANDOUT_DOCUMENT_CONTENT_TYPE }));
             setBlobId(id);
             console.log("[Scan] Uploaded to Walrus:", id);
 
@@ -197,61 +253,32 @@ export default function ScanPage() {
                 target: TARGETS.mint_handout,
                 arguments: [
                     tx.pure.vector("u8", Array.from(new TextEncoder().encode(id))),
-                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(`Scanned: ${text.slice(0, 20)}...`))),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(title.trim() || `Scanned (${pages.length} ${pages.length === 1 ? "page" : "pages"}): ${pages[0].text.slice(0, 20)}...`))),
+                    tx.pure.vector("u8", Array.from(new TextEncoder().encode(normalizedCourseCode))),
                 ],
             });
 
-            // 3. Execute based on auth method
-            if (isZkLogin) {
-                console.log("[Scan] Step 3: Executing with zkLogin (sponsored)...");
-                const result = await executeSponsoredZkLoginTransaction(tx);
-                setTxDigest(result.digest);
-                console.log("[Scan] Minted on-chain (zkLogin):", result.digest);
-                console.log("[Scan] Transaction result:", result);
-
-                const objectId = parseHandoutObjectId(result);
-                if (objectId) {
-                    setHandoutId(objectId);
-                    console.log("[Scan] Step 4: Getting TEE attestation for handout:", objectId);
-                    await getAttestation(id, objectId);
-                } else {
-                    console.warn("[Scan] Could not find handout object ID in transaction result");
-                    alert("Handout minted but could not find object ID. Please check the transaction on Suiscan.");
-                    setUploading(false);
-                }
+            // 3. Execute with the signed-in account (sponsored)
+            console.log(`[Scan] Step 3: Executing with ${signer.kind} (sponsored)...`);
+            const result = await signer.executeSponsored(tx);
+            setTxDigest(result.digest);
+            console.log("[Scan] Minted on-chain:", result.digest);
+            console.log("[Scan] Transaction result:", result);
+
+            const objectId = parseHandoutObjectId(result);
+            if (objectId) {
+                setHandoutId(objectId);
+                console.log("[Scan] Step 4: Getting TEE attestation for handout:", objectId);
+                await getAttestation(id, objectId, contentHash);
             } else {
-                console.log("[Scan] Step 3: Executing with dapp-kit wallet...");
-                signAndExecute(
-                    { transaction: tx },
-                    {
-                        onSuccess: async (result) => {
-                            setTxDigest(result.digest);
-                            console.log("[Scan] Minted on-chain (dapp-kit):", result.digest);
-                            console.log("[Scan] Transaction result:", result);
-
-                            const objectId = parseHandoutObjectId(result);
-                            if (objectId) {
-                                setHandoutId(objectId);
-                                console.log("[Scan] Step 4: Getting TEE attestation for handout:", objectId);
-                                await getAttestation(id, objectId);
-                            } else {
-                                console.warn("[Scan] Could not find handout object ID in transaction result");
-                                alert("Handout minted but could not find object ID. Please check the transaction on Suiscan.");
-                                setUploading(false);
-                            }
-                        },
-                        onError: (err: any) => {
-                            console.error("[Scan] Mint error:", err);
-                            setUploading(false);
-                            alert(`On-chain minting failed: ${err.message || "Unknown error"}\n\nPlease check:\n- You have sufficient SUI for gas\n- Contract is properly configured\n- Network connection is stable`);
-                        }
-                    }
-                );
+                console.warn("[Scan] Could not find handout object ID in transaction result");
+                alert("Handout minted but could not find object ID. Please check the transaction on Suiscan.");
+                setUploading(false);
             }
-        } catch (e: any) {
+        } catch (e) {
             console.error("[Scan] Error:", e);
             setUploading(false);
-            alert(`Error: ${e.message || "Unknown error"}\n\nPlease check:\n- Contract is properly configured\n- Network connection is stable\n- You have sufficient permissions`);
+            alert(`Error: ${e instanceof Error ? e.message : "Unknown error"}\n\nPlease check:\n- Contract is properly configured\n- Network connection is stable\n- You have sufficient permissions`);
         }
     };
 
@@ -276,11 +303,11 @@ export default function ScanPage() {
                     </div>
                 </div>
                 <div className="flex items-center gap-4">
-                    {isZkLogin && zkLoginAddress && (
+                    {isZkLogin && signer.address && (
                         <div className="flex items-center gap-2 px-3 py-2 bg-blue-500/10 border border-blue-500/20 rounded-xl">
                             <User size={16} className="text-blue-400" />
                             <span className="text-xs text-blue-400 font-mono">
-                                {zkLoginAddress.slice(0, 6)}...{zkLoginAddress.slice(-4)}
+                                {signer.address.slice(0, 6)}...{signer.address.slice(-4)}
                             </span>
                             <span className="text-[10px] bg-blue-500/20 text-blue-300 px-1.5 py-0.5 rounded uppercase font-bold">zkLogin</span>
                         </div>
@@ -291,11 +318,17 @@ export default function ScanPage() {
                 </div>
             </header>
 
+            {isZkLogin && (
+                <div className="max-w-[1600px] mx-auto">
+                    <SessionExpiryBanner />
+                </div>
+            )}
+
             <main className="max-w-[1600px] mx-auto grid lg:grid-cols-12 gap-8 items-start">
 
                 {/* Left: Scanner */}
                 <div className="lg:col-span-8">
-                    <Scanner onScan={setText} />
+                    <Scanner pages={pages} onPagesChange={setPages} language={language} />
                 </div>
 
                 {/* Right: Status & Output */}
@@ -321,7 +354,8 @@ export default function ScanPage() {
                             <div className="absolute inset-0 bg-blue-500/10 backdrop-blur flex flex-col items-center justify-center z-10 p-6 text-center animate-in fade-in duration-500">
                                 <CheckCircle2 size={48} className="text-blue-400 mb-4" />
                                 <h3 className="text-xl font-bold mb-2">Content Verified!</h3>
-                                <p className="text-sm text-blue-300 mb-6">TEE has verified your handout. Click below to complete verification on-chain.</p>
+                                <p className="text-sm text-blue-300 mb-2">TEE has verified your handout. Click below to complete verification on-chain.</p>
+                                <p className="text-[10px] text-gray-400 font-mono mb-6">Attestation valid until epoch {attestation.expiresAtEpoch}</p>
                                 <button
                                     onClick={submitAttestation}
                                     className="w-full py-3 bg-blue-500 text-white font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-blue-400 transition-colors"
@@ -346,10 +380,28 @@ export default function ScanPage() {
                             <span className="px-2 py-1 bg-green-500/20 text-green-400 text-[10px] font-bold rounded uppercase border border-green-500/20 tracking-widest">Active</span>
                         </div>
 
+                        <label htmlFor="handout-language" className="block text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-2">Language</label>
+                        <select
+                            id="handout-language"
+                            value={language}
+                            onChange={(e) => handleLanguageChange(e.target.value)}
+                            className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-green-500/50 transition-colors"
+                        >
+                            {HANDOUT_LANGUAGES.map(option => (
+                                <option key={option.code} value={option.code}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-[10px] text-gray-600 mt-2">
+                            {getHandoutLanguage(language).ocrLanguage
+                                ? "Used for text recognition and read-aloud. Applies to pages scanned after changing it."
+                                : "No dedicated OCR model yet; pages are recognized with the English model and may lose tone marks."}
+                            {voices.length > 0 && !selectedVoice && " No installed voice for this language; your browser will pick one."}
+                        </p>
+
                         <div className="grid grid-cols-2 gap-4 mt-6">
                             <div className="bg-black/40 rounded-2xl p-4 text-center border border-white/5">
                                 <p className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-1">Confidence</p>
-                                <p className="text-2xl font-bold">98%</p>
+                                <p className="text-2xl font-bold">{averageConfidence === null ? "—" : `${Math.round(averageConfidence * 100)}%`}</p>
                             </div>
                             <div className="bg-black/40 rounded-2xl p-4 text-center border border-white/5">
                                 <p className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-1">Est. Earn</p>
@@ -368,17 +420,86 @@ export default function ScanPage() {
                             />
                         </div>
 
+                        {pages.length > 1 && (
+                            <div className="flex flex-wrap gap-2 mb-3" role="tablist" aria-label="Pages">
+                                {pages.map((page, index) => (
+                                    <button
+                                        key={page.id}
+                                        role="tab"
+                                        aria-selected={page.id === activePage?.id}
+                                        onClick={() => setActivePageIndex(index)}
+                                        className={`px-2.5 py-1 rounded-lg text-[10px] font-bold border transition-colors ${page.id === activePage?.id
+                                            ? "bg-green-500/20 text-green-400 border-green-500/30"
+                                            : "bg-black/40 text-gray-500 border-white/5 hover:text-white"
+                                            }`}
+                                    >
+                                        {page.status === "recognizing" ? <Loader2 size={10} className="inline animate-spin" /> : `P${index + 1}`}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
                         <textarea
                             value={text}
-                            onChange={(e) => setText(e.target.value)}
+                            onChange={(e) => handlePageTextChange(e.target.value)}
                             placeholder="Scanned text will appear here..."
                             className="flex-1 w-full bg-transparent border-none text-green-300 font-mono text-sm resize-none focus:outline-none placeholder:text-gray-700/50 p-0 leading-relaxed scrollbar-hide"
                         />
 
-                        <div className="mt-4 pt-4 border-t border-white/5 flex gap-3">
+                        {/* Equations */}
+                        <div className="mt-4 pt-4 border-t border-white/5 space-y-2">
+                            <div className="flex justify-between items-center">
+                                <p className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">Equations</p>
+                                <button
+                                    onClick={handleInsertEquation}
+                                    className="text-[10px] text-gray-400 hover:text-white uppercase font-bold flex items-center gap-1"
+                                >
+                                    <Sigma size={12} /> Insert
+                                </button>
+                            </div>
+                            {equations.length === 0 ? (
+                                <p className="text-[10px] text-gray-600">Write equations as LaTeX between $$ markers on their own paragraph, e.g. $$x^2 + 2x$$.</p>
+                            ) : (
+                                equations.map((equation, index) => (
+                                    <div key={index} className="bg-black/40 rounded-xl px-3 py-2 border border-white/5">
+                                        <p className="font-mono text-xs text-green-300 break-all">{equation.text || "(empty)"}</p>
+                                        <p className="text-[10px] text-gray-500 mt-1">Reads as: {verbalizeLatex(equation.text) || "—"}</p>
+                                    </div>
+                                ))
+                            )}
+                            {equations.some(equation => equation.confidence !== null) && (
+                                <p className="text-[10px] text-yellow-500/80">Detected equations are a best guess from OCR. Check the LaTeX before minting.</p>
+                            )}
+                        </div>
+
+                        <div className="mt-4 pt-4 border-t border-white/5">
+                            <label htmlFor="handout-title" className="block text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-2">Title</label>
+                            <input
+                                id="handout-title"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                placeholder="e.g. Week 3: Data Structures"
+                                className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-green-500/50 transition-colors mb-4"
+                            />
+                            <label htmlFor="course-code" className="block text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-2">Course Code</label>
+                            <input
+                                id="course-code"
+                                list="sponsored-courses"
+                                value={courseCode}
+                                onChange={(e) => setCourseCode(e.target.value)}
+                                placeholder="e.g. CSC301"
+                                className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm font-mono uppercase outline-none focus:border-green-500/50 transition-colors"
+                            />
+                            <datalist id="sponsored-courses">
+                                {sponsoredCourses.map(code => <option key={code} value={code} />)}
+                            </datalist>
+                            <p className="text-[10px] text-gray-600 mt-2">Rewards for this handout are paid from this course&apos;s pool.</p>
+                        </div>
+
+                        <div className="mt-4 flex gap-3">
                             <button
                                 onClick={handleUploadAndMint}
-                                disabled={!text || !isConnected || uploading || !isContractConfigured()}
+                                disabled={!hasText || recognizing || !courseCode.trim() || !isConnected || uploading || !isContractConfigured()}
                                 className="flex-1 py-4 rounded-xl bg-green-500 hover:bg-green-400 text-black font-bold text-sm transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed group shadow-lg shadow-green-500/20"
                             >
                                 {uploading ? (
@@ -389,7 +510,7 @@ export default function ScanPage() {
                                     <>Confirm & Mint <ArrowRight size={16} className="group-hover:translate-x-1 transition-transform" /></>
                                 )}
                             </button>
-                            <button onClick={() => setText("")} className="px-5 py-4 rounded-xl bg-gray-800 hover:bg-gray-700 text-white font-bold text-sm transition-colors border border-white/5">
+                            <button onClick={() => { setPages([]); setActivePageIndex(0); }} aria-label="Clear all pages" className="px-5 py-4 rounded-xl bg-gray-800 hover:bg-gray-700 text-white font-bold text-sm transition-colors border border-white/5">
                                 <X size={16} />
                             </button>
                         </div>
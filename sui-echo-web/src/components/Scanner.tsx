@@ -1,17 +1,81 @@
 "use client";
-import React, { useRef, useState, useCallback, useEffect, ChangeEvent } from "react";
-import { Camera, Zap, FileText, Loader2, RefreshCcw } from "lucide-react";
+import React, { useRef, useState, useCallback, useEffect, ChangeEvent, Dispatch, SetStateAction } from "react";
+import { Camera, Zap, FileText, Loader2, RefreshCcw, ChevronLeft, ChevronRight, Trash2, AlertTriangle, Wand2, X } from "lucide-react";
+import { blocksFromText, getPageText, isLikelyHeading, type HandoutBlock } from "@/lib/handout-document";
+import { isLikelyEquation, ocrTextToLatex } from "@/lib/equations";
+import { preprocessImageSrc } from "@/lib/image-preprocessing";
+import { getOcrLanguage } from "@/lib/languages";
+
+export interface ScannedPage {
+    id: string;
+    // Data URL of the captured or uploaded image; empty for typed pages
+    imageSrc: string;
+    // Cleaned-up image that was sent to OCR; null until preprocessed or when enhancement is off
+    processedSrc: string | null;
+    text: string;
+    // OCR blocks with confidence, kept in step with `text` as it is edited
+    blocks: HandoutBlock[];
+    status: "recognizing" | "done" | "error";
+}
 
 interface ScannerProps {
-    onScan: (text: string) => void;
+    pages: ScannedPage[];
+    onPagesChange: Dispatch<SetStateAction<ScannedPage[]>>;
+    // Handout language tag; picks the Tesseract language pack
+    language: string;
+}
+
+/**
+ * Recognizes a page and keeps Tesseract's paragraphs as blocks with their confidence
+ * Equation-like paragraphs become math blocks with a LaTeX guess for the user to correct
+ */
+async function recognizeImage(imageSrc: string, language: string, onProgress: (progress: number) => void): Promise<Pick<ScannedPage, "text" | "blocks">> {
+    const Tesseract = (await import("tesseract.js")).default;
+    const worker = await Tesseract.createWorker(getOcrLanguage(language), undefined, {
+        logger: m => {
+            if (m.status === 'recognizing text') {
+                onProgress(m.progress);
+            }
+        }
+    });
+
+    try {
+        const { data } = await worker.recognize(imageSrc, {}, { text: true, blocks: true });
+        const blocks = (data.blocks ?? [])
+            .flatMap(block => block.paragraphs)
+            .filter(paragraph => paragraph.text.trim())
+            .map((paragraph): HandoutBlock => {
+                const text = paragraph.text.trim();
+                const isEquation = isLikelyEquation(text);
+                return {
+                    type: isEquation ? "math" : isLikelyHeading(text) ? "heading" : "paragraph",
+                    text: isEquation ? ocrTextToLatex(text) : text,
+                    // Tesseract reports 0-100
+                    confidence: paragraph.confidence / 100,
+                };
+            });
+
+        // Fall back to the plain text if Tesseract returned no layout
+        if (blocks.length === 0) {
+            return { text: data.text, blocks: blocksFromText(data.text) };
+        }
+        return { text: getPageText({ blocks }), blocks };
+    } finally {
+        await worker.terminate();
+    }
 }
 
-export default function Scanner({ onScan }: ScannerProps) {
+export default function Scanner({ pages, onPagesChange, language }: ScannerProps) {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const [scanning, setScanning] = useState(false);
+    const ocrQueueRef = useRef<Promise<void>>(Promise.resolve());
     const [progress, setProgress] = useState(0);
+    // Page whose image the next capture or upload replaces
+    const [retakeId, setRetakeId] = useState<string | null>(null);
+    // Page shown in the before/after preview
+    const [previewId, setPreviewId] = useState<string | null>(null);
+    const [enhance, setEnhance] = useState(true);
     const [stream, setStream] = useState<MediaStream | null>(null);
     const [facingMode, setFacingMode] = useState<"environment" | "user">("environment");
     const [cameraError, setCameraError] = useState<string | null>(null);
@@ -50,6 +114,8 @@ export default function Scanner({ onScan }: ScannerProps) {
         };
     }, [facingMode]);
 
+    const scanning = pages.some(page => page.status === "recognizing");
+
     const handleSwitchCamera = () => {
         setFacingMode(prev => prev === "environment" ? "user" : "environment");
     };
@@ -58,43 +124,65 @@ export default function Scanner({ onScan }: ScannerProps) {
         fileInputRef.current?.click();
     };
 
+    // OCR runs one page at a time so a batch of uploads doesn't spawn parallel workers
+    const recognizePage = useCallback((id: string, imageSrc: string) => {
+        ocrQueueRef.current = ocrQueueRef.current.then(async () => {
+            setProgress(0);
+            let processedSrc: string | null = null;
+            if (enhance) {
+                try {
+                    processedSrc = (await preprocessImageSrc(imageSrc)).dataUrl;
+                } catch (err) {
+                    // OCR still gets a chance on the original photo
+                    console.error("Preprocessing Error:", err);
+                }
+            }
+
+            let update: Partial<ScannedPage>;
+            try {
+                const result = await recognizeImage(processedSrc ?? imageSrc, language, setProgress);
+                update = { ...result, processedSrc, status: "done" };
+            } catch (err) {
+                console.error("OCR Error:", err);
+                update = { text: "", blocks: [], processedSrc, status: "error" };
+            }
+
+            // Ignore the result if the page was retaken while it was queued
+            onPagesChange(prev => prev.map(page =>
+                page.id === id && page.imageSrc === imageSrc ? { ...page, ...update } : page
+            ));
+        });
+    }, [onPagesChange, enhance, language]);
+
+    // Adds a new page, or replaces the image of the page being retaken
+    const addImage = useCallback((imageSrc: string) => {
+        if (retakeId) {
+            onPagesChange(prev => prev.map(page =>
+                page.id === retakeId ? { ...page, imageSrc, processedSrc: null, text: "", blocks: [], status: "recognizing" } : page
+            ));
+            recognizePage(retakeId, imageSrc);
+            setRetakeId(null);
+            return;
+        }
+
+        const id = crypto.randomUUID();
+        onPagesChange(prev => [...prev, { id, imageSrc, processedSrc: null, text: "", blocks: [], status: "recognizing" }]);
+        recognizePage(id, imageSrc);
+    }, [retakeId, onPagesChange, recognizePage]);
+
     const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+        const files = Array.from(e.target.files || []);
+        if (files.length === 0) return;
 
         // Validate file type
-        if (!file.type.startsWith('image/')) {
-            alert("Please upload an image file (PNG, JPG, etc.)");
+        if (files.some(file => !file.type.startsWith('image/'))) {
+            alert("Please upload image files (PNG, JPG, etc.)");
             return;
         }
 
-        setScanning(true);
-        setProgress(0);
-
-        try {
-            // Create an image from the file
-            const imageSrc = await fileToDataURL(file);
-
-            // Perform OCR
-            const Tesseract = (await import("tesseract.js")).default;
-            const { data: { text } } = await Tesseract.recognize(
-                imageSrc,
-                'eng',
-                {
-                    logger: m => {
-                        if (m.status === 'recognizing text') {
-                            setProgress(m.progress);
-                        }
-                    }
-                }
-            );
-
-            setScanning(false);
-            onScan(text);
-        } catch (err) {
-            console.error("OCR Error:", err);
-            setScanning(false);
-            onScan("Error recognizing text. Please try again.");
+        // A retake only needs one image
+        for (const file of retakeId ? files.slice(0, 1) : files) {
+            addImage(await fileToDataURL(file));
         }
 
         // Reset input
@@ -110,7 +198,7 @@ export default function Scanner({ onScan }: ScannerProps) {
         });
     };
 
-    const capture = useCallback(async () => {
+    const capture = useCallback(() => {
         if (videoRef.current && canvasRef.current) {
             const video = videoRef.current;
             const canvas = canvasRef.current;
@@ -119,133 +207,236 @@ export default function Scanner({ onScan }: ScannerProps) {
             const ctx = canvas.getContext("2d");
             if (ctx) {
                 ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                const imageSrc = canvas.toDataURL("image/jpeg");
-
-                setScanning(true);
-                setProgress(0);
-
-                try {
-                    const Tesseract = (await import("tesseract.js")).default;
-
-                    const { data: { text } } = await Tesseract.recognize(
-                        imageSrc,
-                        'eng',
-                        {
-                            logger: m => {
-                                if (m.status === 'recognizing text') {
-                                    setProgress(m.progress);
-                                }
-                            }
-                        }
-                    );
-
-                    setScanning(false);
-                    onScan(text);
-                } catch (err) {
-                    console.error("OCR Error:", err);
-                    setScanning(false);
-                    onScan("Error recognizing text. Please try again.");
-                }
+                addImage(canvas.toDataURL("image/jpeg"));
             }
         }
-    }, [onScan]);
+    }, [addImage]);
+
+    const movePage = (index: number, offset: number) => {
+        onPagesChange(prev => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const deletePage = (id: string) => {
+        if (retakeId === id) setRetakeId(null);
+        if (previewId === id) setPreviewId(null);
+        onPagesChange(prev => prev.filter(page => page.id !== id));
+    };
+
+    const previewIndex = pages.findIndex(page => page.id === previewId);
+    const previewPage = previewIndex >= 0 ? pages[previewIndex] : null;
 
     return (
-        <div className="relative w-full h-[600px] bg-black rounded-[3rem] overflow-hidden border-8 border-gray-800 shadow-2xl group">
-            {/* Hidden file input */}
-            <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange}
-                className="hidden"
-            />
-
-            {/* Camera View or Error */}
-            {cameraError ? (
-                <div className="w-full h-full flex flex-col items-center justify-center bg-gray-900 p-8 text-center">
-                    <Camera size={48} className="text-gray-600 mb-4" />
-                    <p className="text-gray-400 mb-4">{cameraError}</p>
+        <div className="space-y-4">
+            <div className="relative w-full h-[600px] bg-black rounded-[3rem] overflow-hidden border-8 border-gray-800 shadow-2xl group">
+                {/* Hidden file input */}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple={!retakeId}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+
+                {/* Camera View or Error */}
+                {cameraError ? (
+                    <div className="w-full h-full flex flex-col items-center justify-center bg-gray-900 p-8 text-center">
+                        <Camera size={48} className="text-gray-600 mb-4" />
+                        <p className="text-gray-400 mb-4">{cameraError}</p>
+                        <button
+                            onClick={handleUploadClick}
+                            className="px-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-colors"
+                        >
+                            Upload Image Instead
+                        </button>
+                    </div>
+                ) : (
+                    <video
+                        ref={videoRef}
+                        autoPlay
+                        playsInline
+                        muted
+                        className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
+                    />
+                )}
+
+                {/* Hidden Canvas for capture */}
+                <canvas ref={canvasRef} className="hidden" />
+
+                {/* Overlay UI */}
+                <div className="absolute inset-0 pointer-events-none">
+                    {/* Corners */}
+                    <div className="absolute top-12 left-12 w-16 h-16 border-t-4 border-l-4 border-blue-500 rounded-tl-3xl"></div>
+                    <div className="absolute top-12 right-12 w-16 h-16 border-t-4 border-r-4 border-blue-500 rounded-tr-3xl"></div>
+                    <div className="absolute bottom-12 left-12 w-16 h-16 border-b-4 border-l-4 border-blue-500 rounded-bl-3xl"></div>
+                    <div className="absolute bottom-12 right-12 w-16 h-16 border-b-4 border-r-4 border-blue-500 rounded-br-3xl"></div>
+
+                    {/* Scan Line */}
+                    {scanning && <div className="absolute top-0 left-0 w-full h-1 bg-blue-400 shadow-[0_0_20px_rgba(59,130,246,1)] animate-scan"></div>}
+
+                    {/* Center Crosshair */}
+                    <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 opacity-50">
+                        <div className="absolute top-1/2 w-full h-0.5 bg-white"></div>
+                        <div className="absolute left-1/2 h-full w-0.5 bg-white"></div>
+                    </div>
+                </div>
+
+                {/* Controls */}
+                <div className="absolute bottom-8 left-0 w-full flex justify-center items-center gap-8 z-20">
                     <button
-                        onClick={handleUploadClick}
-                        className="px-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-xl font-bold transition-colors"
+                        onClick={handleSwitchCamera}
+                        disabled={scanning || !!cameraError}
+                        className="flex flex-col items-center gap-1 text-gray-400 hover:text-white transition-colors text-center disabled:opacity-50"
                     >
-                        Upload Image Instead
+                        <div className="w-10 h-10 rounded-full bg-gray-900/50 backdrop-blur border border-white/10 flex items-center justify-center">
+                            <RefreshCcw size={16} />
+                        </div>
+                        <span className="text-[0.6rem] font-bold tracking-widest uppercase">Switch</span>
                     </button>
-                </div>
-            ) : (
-                <video
-                    ref={videoRef}
-                    autoPlay
-                    playsInline
-                    muted
-                    className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
-                />
-            )}
-
-            {/* Hidden Canvas for capture */}
-            <canvas ref={canvasRef} className="hidden" />
 
-            {/* Overlay UI */}
-            <div className="absolute inset-0 pointer-events-none">
-                {/* Corners */}
-                <div className="absolute top-12 left-12 w-16 h-16 border-t-4 border-l-4 border-blue-500 rounded-tl-3xl"></div>
-                <div className="absolute top-12 right-12 w-16 h-16 border-t-4 border-r-4 border-blue-500 rounded-tr-3xl"></div>
-                <div className="absolute bottom-12 left-12 w-16 h-16 border-b-4 border-l-4 border-blue-500 rounded-bl-3xl"></div>
-                <div className="absolute bottom-12 right-12 w-16 h-16 border-b-4 border-r-4 border-blue-500 rounded-br-3xl"></div>
+                    <button
+                        onClick={capture}
+                        disabled={!!cameraError}
+                        aria-label={retakeId ? "Retake page" : "Capture page"}
+                        className="w-20 h-20 rounded-full border-4 border-white/20 bg-blue-600 hover:bg-blue-500 hover:scale-105 transition-all flex items-center justify-center shadow-[0_0_40px_-5px_rgba(37,99,235,0.6)] disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                        {scanning ? (
+                            <Loader2 size={32} className="text-white animate-spin" />
+                        ) : (
+                            <Camera size={32} strokeWidth={2} className="text-white" />
+                        )}
+                    </button>
 
-                {/* Scan Line */}
-                {scanning && <div className="absolute top-0 left-0 w-full h-1 bg-blue-400 shadow-[0_0_20px_rgba(59,130,246,1)] animate-scan"></div>}
+                    <button
+                        onClick={handleUploadClick}
+                        className="flex flex-col items-center gap-1 text-gray-400 hover:text-white transition-colors text-center disabled:opacity-50"
+                    >
+                        <div className="w-10 h-10 rounded-full bg-gray-900/50 backdrop-blur border border-white/10 flex items-center justify-center">
+                            <FileText size={16} />
+                        </div>
+                        <span className="text-[0.6rem] font-bold tracking-widest uppercase">Upload</span>
+                    </button>
 
-                {/* Center Crosshair */}
-                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 opacity-50">
-                    <div className="absolute top-1/2 w-full h-0.5 bg-white"></div>
-                    <div className="absolute left-1/2 h-full w-0.5 bg-white"></div>
+                    <button
+                        onClick={() => setEnhance(prev => !prev)}
+                        aria-pressed={enhance}
+                        title="Straighten, crop and sharpen pages before recognizing text"
+                        className={`flex flex-col items-center gap-1 transition-colors text-center ${enhance ? "text-blue-400 hover:text-blue-300" : "text-gray-400 hover:text-white"}`}
+                    >
+                        <div className="w-10 h-10 rounded-full bg-gray-900/50 backdrop-blur border border-white/10 flex items-center justify-center">
+                            <Wand2 size={16} />
+                        </div>
+                        <span className="text-[0.6rem] font-bold tracking-widest uppercase">Enhance {enhance ? "On" : "Off"}</span>
+                    </button>
                 </div>
-            </div>
 
-            {/* Controls */}
-            <div className="absolute bottom-8 left-0 w-full flex justify-center items-center gap-8 z-20">
-                <button
-                    onClick={handleSwitchCamera}
-                    disabled={scanning || !!cameraError}
-                    className="flex flex-col items-center gap-1 text-gray-400 hover:text-white transition-colors text-center disabled:opacity-50"
-                >
-                    <div className="w-10 h-10 rounded-full bg-gray-900/50 backdrop-blur border border-white/10 flex items-center justify-center">
-                        <RefreshCcw size={16} />
+                {/* Progress Overlay */}
+                {scanning && (
+                    <div className="absolute top-8 right-8 bg-gray-900/80 backdrop-blur px-4 py-2 rounded-full border border-green-500/30 flex items-center gap-3">
+                        <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                        <span className="text-xs font-bold text-green-400">Processing... {Math.round(progress * 100)}%</span>
                     </div>
-                    <span className="text-[0.6rem] font-bold tracking-widest uppercase">Switch</span>
-                </button>
-
-                <button
-                    onClick={capture}
-                    disabled={scanning || !!cameraError}
-                    className="w-20 h-20 rounded-full border-4 border-white/20 bg-blue-600 hover:bg-blue-500 hover:scale-105 transition-all flex items-center justify-center shadow-[0_0_40px_-5px_rgba(37,99,235,0.6)] disabled:opacity-50 disabled:hover:scale-100"
-                >
-                    {scanning ? (
-                        <Loader2 size={32} className="text-white animate-spin" />
-                    ) : (
-                        <Camera size={32} strokeWidth={2} className="text-white" />
-                    )}
-                </button>
-
-                <button
-                    onClick={handleUploadClick}
-                    disabled={scanning}
-                    className="flex flex-col items-center gap-1 text-gray-400 hover:text-white transition-colors text-center disabled:opacity-50"
-                >
-                    <div className="w-10 h-10 rounded-full bg-gray-900/50 backdrop-blur border border-white/10 flex items-center justify-center">
-                        <FileText size={16} />
+                )}
+
+                {/* Retake Banner */}
+                {retakeId && (
+                    <div className="absolute top-8 left-8 bg-gray-900/80 backdrop-blur px-4 py-2 rounded-full border border-yellow-500/30 flex items-center gap-3 z-20">
+                        <span className="text-xs font-bold text-yellow-400">
+                            Retaking page {pages.findIndex(page => page.id === retakeId) + 1}
+                        </span>
+                        <button onClick={() => setRetakeId(null)} className="text-[10px] text-gray-400 hover:text-white uppercase font-bold">Cancel</button>
                     </div>
-                    <span className="text-[0.6rem] font-bold tracking-widest uppercase">Upload</span>
-                </button>
+                )}
             </div>
 
-            {/* Progress Overlay */}
-            {scanning && (
-                <div className="absolute top-8 right-8 bg-gray-900/80 backdrop-blur px-4 py-2 rounded-full border border-green-500/30 flex items-center gap-3">
-                    <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-                    <span className="text-xs font-bold text-green-400">Processing... {Math.round(progress * 100)}%</span>
+            {/* Page Queue */}
+            {pages.length > 0 && (
+                <div className="flex gap-3 overflow-x-auto pb-2" role="list" aria-label="Scanned pages">
+                    {pages.map((page, index) => (
+                        <div
+                            key={page.id}
+                            role="listitem"
+                            className={`relative shrink-0 w-28 rounded-2xl overflow-hidden border-2 bg-gray-900 ${retakeId === page.id ? "border-yellow-500" : "border-white/10"}`}
+                        >
+                            <div className="h-32 flex items-center justify-center bg-black">
+                                {page.imageSrc ? (
+                                    <button
+                                        onClick={() => setPreviewId(previewId === page.id ? null : page.id)}
+                                        aria-label={`Compare original and enhanced page ${index + 1}`}
+                                        className="w-full h-full"
+                                    >
+                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                        <img src={page.imageSrc} alt={`Page ${index + 1}`} className="w-full h-full object-cover" />
+                                    </button>
+                                ) : (
+                                    <FileText size={24} className="text-gray-600" />
+                                )}
+                                {page.status === "recognizing" && (
+                                    <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                                        <Loader2 size={20} className="text-blue-400 animate-spin" />
+                                    </div>
+                                )}
+                                {page.status === "error" && (
+                                    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 text-red-400 text-[10px] font-bold">
+                                        <AlertTriangle size={16} /> OCR failed
+                                    </div>
+                                )}
+                            </div>
+                            <div className="flex items-center justify-between px-1 py-1">
+                                <button onClick={() => movePage(index, -1)} disabled={index === 0} aria-label={`Move page ${index + 1} earlier`} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                    <ChevronLeft size={14} />
+                                </button>
+                                <span className="text-[10px] font-bold text-gray-400">{index + 1}</span>
+                                <button onClick={() => movePage(index, 1)} disabled={index === pages.length - 1} aria-label={`Move page ${index + 1} later`} className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                    <ChevronRight size={14} />
+                                </button>
+                            </div>
+                            <div className="flex border-t border-white/5">
+                                <button onClick={() => setRetakeId(page.id)} aria-label={`Retake page ${index + 1}`} className="flex-1 py-1 text-gray-400 hover:text-yellow-400 flex items-center justify-center">
+                                    <RefreshCcw size={12} />
+                                </button>
+                                <button onClick={() => deletePage(page.id)} aria-label={`Delete page ${index + 1}`} className="flex-1 py-1 text-gray-400 hover:text-red-400 flex items-center justify-center border-l border-white/5">
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Before/After Preview */}
+            {previewPage && (
+                <div className="bg-gray-900 rounded-3xl border border-white/10 p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">Page {previewIndex + 1} preview</span>
+                        <button onClick={() => setPreviewId(null)} aria-label="Close preview" className="p-1 text-gray-400 hover:text-white">
+                            <X size={16} />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <figure className="space-y-2">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={previewPage.imageSrc} alt={`Page ${previewIndex + 1} as captured`} className="w-full max-h-80 object-contain rounded-xl bg-black" />
+                            <figcaption className="text-[10px] font-bold text-gray-500 uppercase text-center">Before</figcaption>
+                        </figure>
+                        <figure className="space-y-2">
+                            {previewPage.processedSrc ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={previewPage.processedSrc} alt={`Page ${previewIndex + 1} after enhancement`} className="w-full max-h-80 object-contain rounded-xl bg-white" />
+                            ) : (
+                                <div className="w-full h-40 flex items-center justify-center rounded-xl bg-black text-xs text-gray-500 text-center px-4">
+                                    {previewPage.status === "recognizing" ? "Processing..." : "Not enhanced"}
+                                </div>
+                            )}
+                            <figcaption className="text-[10px] font-bold text-gray-500 uppercase text-center">After</figcaption>
+                        </figure>
+                    </div>
                 </div>
             )}
         </div>
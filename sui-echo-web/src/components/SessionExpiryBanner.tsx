@@ -0,0 +1,53 @@
+"use client";
+
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { useZkLoginSession } from "@/hooks/useZkLoginSession";
+
+/**
+ * Warns that the zkLogin session is about to expire, or has, and offers to renew it
+ */
+export default function SessionExpiryBanner() {
+    const session = useZkLoginSession({ required: false });
+
+    if (session.status !== "expiring" && session.status !== "expired") return null;
+
+    const expired = session.status === "expired";
+    const expiresAt = session.expiresAt
+        ? new Date(session.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+        : null;
+
+    return (
+        <div
+            className={`mb-6 p-4 rounded-lg border flex flex-col sm:flex-row sm:items-center gap-3 ${expired
+                ? "bg-[#EF4444]/10 border-[#EF4444]/30"
+                : "bg-[#EAB308]/10 border-[#EAB308]/30"
+                }`}
+            role="alert"
+        >
+            <AlertTriangle size={18} className={expired ? "text-[#EF4444]" : "text-[#EAB308]"} aria-hidden="true" />
+            <div className="flex-1 text-sm">
+                <p className="font-semibold text-white">
+                    {expired
+                        ? "Your session has expired"
+                        : expiresAt
+                            ? `Your session expires around ${expiresAt}`
+                            : "Your session is about to expire"}
+                </p>
+                <p className="text-xs text-[#8A919E]">
+                    {expired
+                        ? "Renew it to keep signing transactions. You can still read your handouts."
+                        : "Renew now to keep signing transactions without interruption."}
+                </p>
+                {session.error && <p className="text-xs text-[#EF4444] mt-1">{session.error}</p>}
+            </div>
+            <button
+                onClick={() => session.renew()}
+                disabled={session.renewing}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-[#4F9EF8] text-white text-xs font-semibold rounded-md hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+                {session.renewing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                {session.renewing ? "Renewing..." : "Renew session"}
+            </button>
+        </div>
+    );
+}
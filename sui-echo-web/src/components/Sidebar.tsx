@@ -2,78 +2,64 @@
 
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { Activity, Radio, ShieldCheck, LogOut, User, Copy, Check, AlertCircle, FileText, BookOpen } from "lucide-react";
+import { Activity, Radio, ShieldCheck, LogOut, User, Copy, Check, AlertCircle, FileText, BookOpen, Bell, GraduationCap, HardDrive } from "lucide-react";
 import { useEffect, useState } from "react";
-import { jwtDecode } from "jwt-decode";
-import { clearZkLoginSession, getZkLoginAddress, isZkLoginSessionValid, getSuiClient } from "@/utils/zklogin-proof";
+import { getSuiClient, getCurrentEpoch } from "@/utils/zklogin-proof";
+import { useEchoSigner } from "@/hooks/useEchoSigner";
+import { OAUTH_PROVIDERS } from "@/lib/oauth-providers";
 import { PACKAGE_ID } from "@/lib/contract";
+import { getActiveRepCap } from "@/lib/course-reps";
+import { getLecturerCaps } from "@/lib/lecturers";
 
 type UserRole = 'student' | 'rep' | null;
 
 export default function Sidebar() {
     const pathname = usePathname();
     const router = useRouter();
-    const [userEmail, setUserEmail] = useState<string | null>(null);
-    const [zkAddress, setZkAddress] = useState<string | null>(null);
+    const signer = useEchoSigner();
+    const userAddress = signer.address;
+    const userEmail = signer.session.email;
     const [copied, setCopied] = useState(false);
     const [isVerifiedRep, setIsVerifiedRep] = useState(false);
+    const [isLecturer, setIsLecturer] = useState(false);
     const [userRole, setUserRole] = useState<UserRole>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         async function initSidebar() {
-            const address = getZkLoginAddress();
-            setZkAddress(address);
+            const address = userAddress;
 
             const role = window.sessionStorage.getItem("sui_echo_user_role") as UserRole;
             setUserRole(role);
 
-            const token = window.sessionStorage.getItem("sui_zklogin_jwt");
-            if (token) {
-                try {
-                    const decoded: any = jwtDecode(token);
-                    setUserEmail(decoded.email);
-                } catch (e) {
-                    console.error("Failed to decode token", e);
-                }
-            }
-
             if (address && PACKAGE_ID) {
                 try {
                     const client = getSuiClient();
-                    const objects = await client.getOwnedObjects({
-                        owner: address,
-                        filter: { StructType: `${PACKAGE_ID}::echo::CourseRepCap` },
-                        options: { showType: true },
-                    });
-
-                    if (objects.data.length > 0) {
-                        setIsVerifiedRep(true);
-                    }
+                    const [cap, lecturerCaps] = await Promise.all([
+                        getActiveRepCap(client, address, await getCurrentEpoch()),
+                        getLecturerCaps(client, address),
+                    ]);
+                    setIsVerifiedRep(!!cap);
+                    setIsLecturer(lecturerCaps.length > 0);
                 } catch (error) {
-                    console.error("[Sidebar] Error checking CourseRepCap:", error);
+                    console.error("[Sidebar] Error checking capabilities:", error);
                 }
             }
 
             setLoading(false);
-
-            if (!isZkLoginSessionValid()) {
-                router.push("/");
-            }
         }
 
         initSidebar();
-    }, [router]);
+    }, [userAddress]);
 
-    const handleLogout = () => {
-        clearZkLoginSession();
-        window.sessionStorage.removeItem("sui_echo_user_role");
+    const handleLogout = async () => {
+        await signer.signOut();
         router.push("/");
     };
 
     const handleCopyAddress = () => {
-        if (zkAddress) {
-            navigator.clipboard.writeText(zkAddress);
+        if (userAddress) {
+            navigator.clipboard.writeText(userAddress);
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         }
@@ -83,6 +69,7 @@ export default function Sidebar() {
         { name: "Dashboard", href: "/dashboard", icon: Activity },
         { name: "Broadcasts", href: "/dashboard/broadcasts", icon: Radio },
         { name: "Handouts", href: "/dashboard/handouts", icon: ShieldCheck },
+        { name: "Offline Library", href: "/dashboard/library", icon: HardDrive },
         { name: "Admin Panel", href: "/dashboard/admin", icon: ShieldCheck },
     ];
 
@@ -90,9 +77,15 @@ export default function Sidebar() {
         { name: "Dashboard", href: "/dashboard", icon: Activity },
         { name: "Scan Notes", href: "/scan", icon: BookOpen },
         { name: "My Handouts", href: "/dashboard/handouts", icon: FileText },
+        { name: "Offline Library", href: "/dashboard/library", icon: HardDrive },
+        { name: "Course Feed", href: "/dashboard/feed", icon: Bell },
     ];
 
-    const navItems = userRole === 'rep' ? repNavItems : studentNavItems;
+    const roleNavItems = userRole === 'rep' ? repNavItems : studentNavItems;
+    // Lecturers are recognised by their LecturerCap rather than the login role
+    const navItems = isLecturer
+        ? [...roleNavItems, { name: "Lecturer", href: "/dashboard/lecturer", icon: GraduationCap }]
+        : roleNavItems;
 
     return (
         <aside className="fixed left-0 top-0 h-screen w-64 hidden lg:flex flex-col bg-[#0B0E14] border-r border-[#1E232E] p-5 z-50">
@@ -163,18 +156,22 @@ export default function Sidebar() {
                     </div>
                     <div className="flex-1 min-w-0">
                         <p className="text-xs font-medium text-white truncate">{userEmail || "Anonymous"}</p>
-                        <p className="text-[10px] text-[#565B67]">zkLogin</p>
+                        <p className="text-[10px] text-[#565B67]">
+                            {signer.kind === "wallet"
+                                ? `Wallet${signer.walletName ? ` · ${signer.walletName}` : ""}`
+                                : `zkLogin${signer.session.provider ? ` · ${OAUTH_PROVIDERS[signer.session.provider].name}` : ""}`}
+                        </p>
                     </div>
                 </div>
 
                 {/* Address copy */}
-                {zkAddress && (
+                {userAddress && (
                     <button
                         onClick={handleCopyAddress}
                         className="w-full mb-3 px-3 py-2 bg-[#12151C] border border-[#1E232E] rounded-lg flex items-center justify-between hover:border-[#2A3140] transition-colors"
                     >
                         <span className="text-[10px] text-[#8A919E] font-mono truncate">
-                            {zkAddress.slice(0, 8)}...{zkAddress.slice(-6)}
+                            {userAddress.slice(0, 8)}...{userAddress.slice(-6)}
                         </span>
                         {copied ? (
                             <Check size={12} className="text-[#22C55E]" />
@@ -184,6 +181,19 @@ export default function Sidebar() {
                     </button>
                 )}
 
+                {/* Keep the session across tabs and restarts; wallets manage their own */}
+                {signer.kind === "zklogin" && (
+                    <label className="flex items-center gap-2 px-1 mb-3 text-[10px] text-[#8A919E] cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={signer.session.persisted}
+                            onChange={(e) => signer.session.setPersistence(e.target.checked)}
+                            className="accent-[#4F9EF8]"
+                        />
+                        Keep me signed in on this device
+                    </label>
+                )}
+
                 <button
                     onClick={handleLogout}
                     className="w-full flex items-center justify-center gap-2 px-3 py-2.5 text-[#EF4444] hover:bg-[#EF4444]/10 rounded-lg transition-colors font-medium text-xs"
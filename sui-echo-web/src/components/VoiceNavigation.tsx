@@ -3,6 +3,10 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { Mic, MicOff, Volume2 } from "lucide-react";
+import { getHandoutLanguage, DEFAULT_LANGUAGE_CODE } from "@/lib/languages";
+
+// Commands are English keywords whatever the handout language, so listen with the English locale
+const COMMAND_LOCALE = getHandoutLanguage(DEFAULT_LANGUAGE_CODE).speechLocale;
 
 // Type declarations for Web Speech API
 interface SpeechRecognitionEvent extends Event {
@@ -25,6 +29,17 @@ interface SpeechRecognition extends EventTarget {
     onend: (() => void) | null;
 }
 
+/**
+ * Dispatched on window with each spoken command before the built-in routes are tried
+ * Pages handle their own commands by calling preventDefault() and may reply with `respond`
+ */
+export const VOICE_COMMAND_EVENT = "sui-echo:voice-command";
+
+export interface VoiceCommandDetail {
+    text: string;
+    respond: (message: string) => void;
+}
+
 declare global {
     interface Window {
         SpeechRecognition: new () => SpeechRecognition;
@@ -56,6 +71,7 @@ export default function VoiceNavigation() {
         setFeedback(message);
         const utterance = new SpeechSynthesisUtterance(message);
         utterance.rate = 1.0;
+        utterance.lang = COMMAND_LOCALE;
         window.speechSynthesis.speak(utterance);
     }, []);
 
@@ -63,6 +79,12 @@ export default function VoiceNavigation() {
     const processCommand = useCallback((text: string) => {
         const lowerText = text.toLowerCase().trim();
 
+        const pageCommand = new CustomEvent<VoiceCommandDetail>(VOICE_COMMAND_EVENT, {
+            detail: { text: lowerText, respond: speak },
+            cancelable: true,
+        });
+        if (!window.dispatchEvent(pageCommand)) return true;
+
         const routes: Record<string, string> = {
             "home": "/",
             "go home": "/",
@@ -70,6 +92,7 @@ export default function VoiceNavigation() {
             "scan": "/scan",
             "handouts": "/dashboard/handouts",
             "broadcasts": "/dashboard/broadcasts",
+            "feed": "/dashboard/feed",
             "reader": "/reader",
         };
 
@@ -82,7 +105,7 @@ export default function VoiceNavigation() {
         }
 
         if (lowerText.includes("help") || lowerText.includes("commands")) {
-            speak("Available commands: home, dashboard, scan, handouts, broadcasts, reader, help, stop");
+            speak("Available commands: home, dashboard, scan, handouts, broadcasts, feed, reader, help, stop");
             return true;
         }
 
@@ -109,7 +132,7 @@ export default function VoiceNavigation() {
         const instance = new SpeechRecognition();
         instance.continuous = true;
         instance.interimResults = true;
-        instance.lang = "en-US";
+        instance.lang = COMMAND_LOCALE;
 
         instance.onresult = (event: SpeechRecognitionEvent) => {
             const current = event.resultIndex;
@@ -8,11 +8,23 @@
  */
 
 // Network configuration
-export const SUI_NETWORK = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet' | 'devnet';
+export const SUI_NETWORK = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet' | 'devnet' | 'localnet';
 
 // Google OAuth - Direct access required for Next.js
 export const GOOGLE_CLIENT_ID = process.env.NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID || '';
 
+// OAuth client IDs per zkLogin provider (see lib/oauth-providers); providers without one aren't offered at login
+export const OAUTH_CLIENT_IDS = {
+    google: GOOGLE_CLIENT_ID,
+    microsoft: process.env.NEXT_PUBLIC_MICROSOFT_OAUTH_CLIENT_ID || '',
+    apple: process.env.NEXT_PUBLIC_APPLE_OAUTH_CLIENT_ID || '',
+    facebook: process.env.NEXT_PUBLIC_FACEBOOK_OAUTH_CLIENT_ID || '',
+    twitch: process.env.NEXT_PUBLIC_TWITCH_OAUTH_CLIENT_ID || '',
+};
+
+// Azure AD tenant for Microsoft sign-in: "common", "organizations" (work and school accounts only) or a tenant ID
+export const MICROSOFT_TENANT = process.env.NEXT_PUBLIC_MICROSOFT_TENANT || 'common';
+
 // Smart Contract Package ID
 export const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || '';
 
@@ -30,6 +42,7 @@ export const SUI_RPC_URLS = {
     testnet: 'https://fullnode.testnet.sui.io:443',
     mainnet: 'https://fullnode.mainnet.sui.io:443',
     devnet: 'https://fullnode.devnet.sui.io:443',
+    localnet: 'http://127.0.0.1:9000',
 };
 
 export const SUI_RPC_URL = SUI_RPC_URLS[SUI_NETWORK];
@@ -46,13 +59,19 @@ export const WALRUS_CONFIG = {
     },
 };
 
-export const WALRUS_AGGREGATOR = WALRUS_CONFIG[SUI_NETWORK === 'devnet' ? 'testnet' : SUI_NETWORK].aggregator;
-export const WALRUS_PUBLISHER = WALRUS_CONFIG[SUI_NETWORK === 'devnet' ? 'testnet' : SUI_NETWORK].publisher;
+// Walrus only runs on testnet and mainnet; other networks store blobs on testnet
+const WALRUS_NETWORK = SUI_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
+export const WALRUS_AGGREGATOR = WALRUS_CONFIG[WALRUS_NETWORK].aggregator;
+export const WALRUS_PUBLISHER = WALRUS_CONFIG[WALRUS_NETWORK].publisher;
 
 // zkLogin Configuration
 export const ZKLOGIN_CONFIG = {
     MAX_EPOCH_OFFSET: 2,
     KEY_CLAIM_NAME: 'sub',
+    // Warn this long before the session's maxEpoch ends
+    EXPIRY_WARNING_MS: 2 * 60 * 60 * 1000,
+    // Give up on a renewal popup after this long
+    RENEWAL_TIMEOUT_MS: 5 * 60 * 1000,
 };
 
 // Redirect URI (computed at runtime in browser)
@@ -67,7 +86,7 @@ export const getRedirectUri = () => {
 export function validateConfig(): { valid: boolean; missing: string[] } {
     const missing: string[] = [];
 
-    if (!GOOGLE_CLIENT_ID) missing.push('NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID');
+    if (!Object.values(OAUTH_CLIENT_IDS).some(Boolean)) missing.push('NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID');
 
     return {
         valid: missing.length === 0,
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+    useAutoConnectWallet,
+    useCurrentAccount,
+    useCurrentWallet,
+    useDisconnectWallet,
+    useSignPersonalMessage,
+    useSignTransaction,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { useZkLoginSession } from "@/hooks/useZkLoginSession";
+import { executeSponsoredZkLoginTransaction, executeZkLoginTransaction, getSuiClient, getZkLoginAuthHeaders } from "@/utils/zklogin-proof";
+import { assertTransactionSucceeded, executeSponsoredTransaction, TRANSACTION_RESULT_OPTIONS, type EchoTransactionResult } from "@/lib/transactions";
+import { getWalletAuthHeaders } from "@/lib/wallet-auth";
+
+export type EchoSignerKind = "zklogin" | "wallet";
+
+/**
+ * The account that signs transactions: the zkLogin session, or else the connected browser wallet
+ * @param required - Send the user to the landing page when neither is signed in
+ */
+export function useEchoSigner({ required = true }: { required?: boolean } = {}) {
+    const router = useRouter();
+    const session = useZkLoginSession({ required: false });
+    const account = useCurrentAccount();
+    const { currentWallet } = useCurrentWallet();
+    const autoConnect = useAutoConnectWallet();
+    const { mutateAsync: signTransaction } = useSignTransaction();
+    const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+    const { mutateAsync: disconnect } = useDisconnectWallet();
+
+    // zkLogin takes precedence when both are signed in
+    const kind: EchoSignerKind | null = session.address ? "zklogin" : account ? "wallet" : null;
+    const address = session.address ?? account?.address ?? null;
+    // The wallet reconnects after the first render
+    const loading = session.status === "loading" || autoConnect === "idle";
+
+    useEffect(() => {
+        if (required && !loading && !kind) {
+            router.push("/");
+        }
+    }, [required, loading, kind, router]);
+
+    const requireWallet = () => {
+        if (!account) throw new Error("Connect a wallet or sign in first");
+        return account;
+    };
+
+    /**
+     * Execute a transaction, paying gas from the signer's own SUI
+     */
+    const execute = async (transaction: Transaction): Promise<EchoTransactionResult> => {
+        if (kind === "zklogin") return executeZkLoginTransaction(transaction);
+
+        const walletAccount = requireWallet();
+        const client = getSuiClient();
+        transaction.setSender(walletAccount.address);
+        const { bytes, signature, reportTransactionEffects } = await signTransaction({ transaction });
+        const result = await client.executeTransactionBlock({
+            transactionBlock: bytes,
+            signature,
+            options: { ...TRANSACTION_RESULT_OPTIONS, showRawEffects: true },
+        });
+        // Lets the wallet update its cached objects without refetching
+        if (result.rawEffects) reportTransactionEffects(toBase64(new Uint8Array(result.rawEffects)));
+
+        return assertTransactionSucceeded({
+            digest: result.digest,
+            effects: result.effects,
+            objectChanges: result.objectChanges,
+            events: result.events,
+        });
+    };
+
+    /**
+     * Credentials proving the signer's address to API routes
+     * Wallet users sign a short auth message the first time
+     */
+    const getAuthHeaders = async (): Promise<Record<string, string>> => {
+        if (kind === "zklogin") {
+            const headers = getZkLoginAuthHeaders();
+            if (!headers) throw new Error("Your session has expired, sign in again");
+            return headers;
+        }
+
+        const walletAccount = requireWallet();
+        return getWalletAuthHeaders(walletAccount.address, async message => signPersonalMessage({ message }));
+    };
+
+    /**
+     * Execute a transaction with gas paid by /api/sponsor
+     * Wallet users also sign a short auth message the first time, so the sponsor knows who they are
+     */
+    const executeSponsored = async (transaction: Transaction): Promise<EchoTransactionResult> => {
+        if (kind === "zklogin") return executeSponsoredZkLoginTransaction(transaction);
+
+        const walletAccount = requireWallet();
+        return executeSponsoredTransaction(getSuiClient(), transaction, {
+            sender: walletAccount.address,
+            authHeaders: await getAuthHeaders(),
+            signTransaction: async bytes => (await signTransaction({ transaction: Transaction.from(bytes) })).signature,
+        });
+    };
+
+    const signOut = async () => {
+        if (kind === "zklogin") {
+            await session.signOut();
+        } else {
+            await disconnect();
+        }
+    };
+
+    return {
+        kind,
+        address,
+        loading,
+        walletName: currentWallet?.name ?? null,
+        // zkLogin session details (expiry, provider, persistence) for zkLogin signers
+        session,
+        getAuthHeaders,
+        execute,
+        executeSponsored,
+        signOut,
+    };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { useRouter } from "next/navigation";
+import {
+    getServerZkLoginSessionState,
+    getZkLoginSessionState,
+    refreshZkLoginSession,
+    renewZkLoginSession,
+    setSessionPersistence,
+    signOutZkLogin,
+    subscribeToZkLoginSession,
+} from "@/lib/zklogin-session";
+
+/**
+ * The signed-in zkLogin session, kept current as epochs pass and other tabs sign in or out
+ * @param required - Send the user to the landing page when there is no session
+ */
+export function useZkLoginSession({ required = true }: { required?: boolean } = {}) {
+    const router = useRouter();
+    const session = useSyncExternalStore(subscribeToZkLoginSession, getZkLoginSessionState, getServerZkLoginSessionState);
+
+    useEffect(() => {
+        if (required && session.status === "signed_out") {
+            router.push("/");
+        }
+    }, [required, session.status, router]);
+
+    return {
+        ...session,
+        renew: renewZkLoginSession,
+        refresh: refreshZkLoginSession,
+        signOut: signOutZkLogin,
+        setPersistence: setSessionPersistence,
+    };
+}
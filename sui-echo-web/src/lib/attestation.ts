@@ -0,0 +1,72 @@
+/**
+ * TEE Attestation Payload
+ * BCS layout signed by the TEE and parsed on-chain by `echo::verify_with_attestation`
+ *
+ * Field order must match `parse_attestation` in sui-echo-move/sources/echo.move
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+
+// Bumped whenever the payload layout changes (must match ATTESTATION_VERSION on-chain)
+export const ATTESTATION_VERSION = 1;
+
+// Number of epochs an attestation stays valid after it is issued
+export const ATTESTATION_TTL_EPOCHS = 1;
+
+export const AttestationPayloadBcs = bcs.struct("AttestationPayload", {
+    version: bcs.u8(),
+    handoutId: bcs.Address,
+    blobId: bcs.string(),
+    contentHash: bcs.vector(bcs.u8()),
+    keyId: bcs.string(),
+    issuedAtEpoch: bcs.u64(),
+    expiresAtEpoch: bcs.u64(),
+});
+
+export interface AttestationPayload {
+    handoutId: string;
+    blobId: string;
+    contentHash: Uint8Array;
+    keyId: string;
+    issuedAtEpoch: number;
+    expiresAtEpoch: number;
+}
+
+/**
+ * Encodes an attestation payload into the bytes the TEE signs
+ * @param payload - The attestation fields
+ * @returns BCS-encoded message bytes
+ */
+export function encodeAttestationPayload(payload: AttestationPayload): Uint8Array {
+    return AttestationPayloadBcs.serialize({
+        version: ATTESTATION_VERSION,
+        handoutId: payload.handoutId,
+        blobId: payload.blobId,
+        contentHash: Array.from(payload.contentHash),
+        keyId: payload.keyId,
+        issuedAtEpoch: BigInt(payload.issuedAtEpoch),
+        expiresAtEpoch: BigInt(payload.expiresAtEpoch),
+    }).toBytes();
+}
+
+/**
+ * Decodes signed attestation bytes back into their fields
+ * @param message - BCS-encoded message bytes
+ * @returns The decoded attestation payload
+ */
+export function decodeAttestationPayload(message: Uint8Array): AttestationPayload {
+    const decoded = AttestationPayloadBcs.parse(message);
+
+    if (decoded.version !== ATTESTATION_VERSION) {
+        throw new Error(`Unsupported attestation version: ${decoded.version}`);
+    }
+
+    return {
+        handoutId: decoded.handoutId,
+        blobId: decoded.blobId,
+        contentHash: new Uint8Array(decoded.contentHash),
+        keyId: decoded.keyId,
+        issuedAtEpoch: Number(decoded.issuedAtEpoch),
+        expiresAtEpoch: Number(decoded.expiresAtEpoch),
+    };
+}
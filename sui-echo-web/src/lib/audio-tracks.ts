@@ -0,0 +1,79 @@
+/**
+ * Audio Tracks
+ * Narration of a handout rendered on the server by /api/tts, stored on Walrus and recorded
+ * against the handout's blob ID, with chapter markers for seeking
+ */
+
+export interface AudioChapter {
+    title: string;
+    startSeconds: number;
+    // Where the chapter starts in the handout and its reading queue (see lib/reading-queue)
+    pageIndex: number;
+    segmentIndex: number;
+}
+
+export interface AudioTrack {
+    // Blob ID of the handout document the track narrates
+    blobId: string;
+    audioBlobId: string;
+    mimeType: string;
+    durationSeconds: number;
+    chapters: AudioChapter[];
+    engine: string;
+    voice: string;
+    createdAt: number;
+}
+
+/**
+ * Index of the chapter playing at a time, or -1 before the first chapter
+ */
+export function findChapterIndex(chapters: AudioChapter[], seconds: number): number {
+    let index = -1;
+    chapters.forEach((chapter, i) => {
+        if (chapter.startSeconds <= seconds) index = i;
+    });
+    return index;
+}
+
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, "0");
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Loads the recorded track for a handout
+ * @returns null when no track has been rendered yet or the lookup fails
+ */
+export async function fetchAudioTrack(blobId: string): Promise<AudioTrack | null> {
+    try {
+        const response = await fetch(`/api/tts?blobId=${encodeURIComponent(blobId)}`);
+        if (!response.ok) return null;
+        const { track } = await response.json();
+        return track ?? null;
+    } catch (error) {
+        console.warn("[TTS] Failed to load audio track:", error);
+        return null;
+    }
+}
+
+/**
+ * Asks the server to render a handout's audio track; returns the existing track if there is one
+ * Rendering can take minutes for long handouts
+ * @param authHeaders - zkLogin or wallet credentials, e.g. from useEchoSigner's getAuthHeaders
+ * @throws If rendering fails or the daily render limit is reached
+ */
+export async function requestAudioTrack(blobId: string, authHeaders: Record<string, string>): Promise<AudioTrack> {
+    const response = await fetch("/api/tts", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ blobId }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.details || result.error || `Audio rendering failed: ${response.status}`);
+    }
+    return result.track;
+}
@@ -0,0 +1,102 @@
+/**
+ * Course Broadcast Feed
+ * Loads broadcasts for a course from indexed BroadcastCreated events
+ * and keeps the student's course subscriptions in localStorage
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import type { IndexedEvent } from "@/lib/indexer/events";
+
+const SUBSCRIPTIONS_KEY = "sui_echo_course_subscriptions";
+const MULTI_GET_LIMIT = 50;
+
+export interface CourseBroadcast {
+    id: string;
+    courseCode: string;
+    audioBlobId: string;
+    message: string;
+    broadcaster: string;
+    createdAt: number;
+    // Set on-chain: true only when sent through broadcast_verified with a CourseRepCap
+    verified: boolean;
+}
+
+/**
+ * Normalizes a course code the same way handouts are minted
+ */
+export function normalizeCourseCode(courseCode: string): string {
+    return courseCode.trim().toUpperCase();
+}
+
+export function getSubscribedCourses(): string[] {
+    try {
+        const stored = window.localStorage.getItem(SUBSCRIPTIONS_KEY);
+        return stored ? (JSON.parse(stored) as string[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function setSubscribedCourses(courseCodes: string[]): void {
+    const unique = Array.from(new Set(courseCodes.map(normalizeCourseCode).filter(Boolean)));
+    window.localStorage.setItem(SUBSCRIPTIONS_KEY, JSON.stringify(unique));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Loads the broadcasts published for the given courses, newest first
+ * @param client - Sui client used to read broadcast objects
+ * @param courseCodes - Courses the student is subscribed to
+ */
+export async function fetchCourseBroadcasts(client: SuiClient, courseCodes: string[]): Promise<CourseBroadcast[]> {
+    const responses = await Promise.all(courseCodes.map(async courseCode => {
+        const params = new URLSearchParams({ type: "BroadcastCreated", course: courseCode });
+        const response = await fetch(`/api/events?${params}`);
+        if (!response.ok) {
+            throw new Error(`Failed to load broadcasts for ${courseCode}: ${response.status}`);
+        }
+        const { events } = await response.json() as { events: IndexedEvent[] };
+        return events;
+    }));
+
+    const events = responses.flat().filter(event => event.objectId);
+    if (events.length === 0) return [];
+
+    const eventsById = new Map(events.map(event => [event.objectId as string, event]));
+    const broadcasts: CourseBroadcast[] = [];
+
+    for (const batch of chunk(Array.from(eventsById.keys()), MULTI_GET_LIMIT)) {
+        const objects = await client.multiGetObjects({
+            ids: batch,
+            options: { showContent: true },
+        });
+
+        for (const obj of objects) {
+            const content = obj.data?.content;
+            if (content?.dataType !== "moveObject") continue;
+
+            const fields = content.fields as Record<string, string | boolean>;
+            const event = eventsById.get(obj.data!.objectId)!;
+
+            broadcasts.push({
+                id: obj.data!.objectId,
+                courseCode: String(fields.course_code),
+                audioBlobId: String(fields.audio_blob_id),
+                message: String(fields.message),
+                broadcaster: String(fields.broadcaster),
+                createdAt: Number(fields.created_at) || event.timestampMs,
+                // Broadcasts created before the flag existed are treated as unofficial
+                verified: fields.verified === true,
+            });
+        }
+    }
+
+    return broadcasts.sort((a, b) => b.createdAt - a.createdAt);
+}
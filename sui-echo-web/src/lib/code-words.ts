@@ -0,0 +1,34 @@
+/**
+ * Course Code Words
+ * Lecturers register sha2_256(salt || code word) on-chain; applicants send the word itself
+ *
+ * Both sides must normalize the word the same way before hashing or submitting
+ */
+
+// Matches MIN_CODE_WORD_SALT_LENGTH in echo.move
+const SALT_LENGTH = 16;
+
+/**
+ * Normalizes a code word so spacing and case typos don't lock students out
+ */
+export function normalizeCodeWord(codeWord: string): string {
+    return codeWord.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+export function generateCodeWordSalt(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
+/**
+ * Computes the hash stored by `set_course_code_word`
+ * @param salt - Random salt stored alongside the hash
+ * @param codeWord - The code word as typed by the lecturer
+ * @returns SHA-256 of salt followed by the normalized word
+ */
+export async function hashCodeWord(salt: Uint8Array, codeWord: string): Promise<Uint8Array> {
+    const word = new TextEncoder().encode(normalizeCodeWord(codeWord));
+    const preimage = new Uint8Array(salt.length + word.length);
+    preimage.set(salt);
+    preimage.set(word, salt.length);
+    return new Uint8Array(await crypto.subtle.digest("SHA-256", preimage));
+}
@@ -22,19 +22,27 @@ export const MODULE_NAME = 'echo';
 // Move function targets
 export const TARGETS = {
     mint_handout: `${PACKAGE_ID}::${MODULE_NAME}::mint_handout`,
-    verify_handout: `${PACKAGE_ID}::${MODULE_NAME}::verify_handout`,
+    mint_official_handout: `${PACKAGE_ID}::${MODULE_NAME}::mint_official_handout`,
+    endorse_handout: `${PACKAGE_ID}::${MODULE_NAME}::endorse_handout`,
     verify_handout_tee: `${PACKAGE_ID}::${MODULE_NAME}::verify_handout_tee`,
     verify_handout_admin: `${PACKAGE_ID}::${MODULE_NAME}::verify_handout_admin`,
     verify_with_attestation: `${PACKAGE_ID}::${MODULE_NAME}::verify_with_attestation`,
-    set_tee_pubkey: `${PACKAGE_ID}::${MODULE_NAME}::set_tee_pubkey`,
+    register_tee_key: `${PACKAGE_ID}::${MODULE_NAME}::register_tee_key`,
+    retire_tee_key: `${PACKAGE_ID}::${MODULE_NAME}::retire_tee_key`,
+    revoke_tee_key: `${PACKAGE_ID}::${MODULE_NAME}::revoke_tee_key`,
     claim_reward: `${PACKAGE_ID}::${MODULE_NAME}::claim_reward`,
     broadcast: `${PACKAGE_ID}::${MODULE_NAME}::broadcast`,
     broadcast_verified: `${PACKAGE_ID}::${MODULE_NAME}::broadcast_verified`,
     apply_for_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::apply_for_course_rep`,
+    nominate_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::nominate_course_rep`,
     approve_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::approve_course_rep`,
     reject_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::reject_course_rep`,
+    revoke_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::revoke_course_rep`,
+    hand_over_course_rep: `${PACKAGE_ID}::${MODULE_NAME}::hand_over_course_rep`,
     sponsor_course: `${PACKAGE_ID}::${MODULE_NAME}::sponsor_course`,
     create_tee_verifier: `${PACKAGE_ID}::${MODULE_NAME}::create_tee_verifier`,
+    issue_lecturer_cap: `${PACKAGE_ID}::${MODULE_NAME}::issue_lecturer_cap`,
+    set_course_code_word: `${PACKAGE_ID}::${MODULE_NAME}::set_course_code_word`,
 };
 
 // Type identifiers for querying objects
@@ -46,8 +54,27 @@ export const TYPES = {
     AdminCap: `${PACKAGE_ID}::${MODULE_NAME}::AdminCap`,
     TeeVerifierCap: `${PACKAGE_ID}::${MODULE_NAME}::TeeVerifierCap`,
     TeeConfig: `${PACKAGE_ID}::${MODULE_NAME}::TeeConfig`,
+    LecturerCap: `${PACKAGE_ID}::${MODULE_NAME}::LecturerCap`,
 };
 
+// Abort codes from echo.move that the UI explains to users
+export const ABORT_CODES = {
+    EAlreadyRegistered: 6,
+    ENotLecturerForCourse: 20,
+    ECodeWordNotSet: 21,
+    EInvalidCodeWord: 22,
+    EOfficialHandout: 23,
+};
+
+/**
+ * Extracts the abort code from a failed transaction's error message
+ * @param message - e.g. `MoveAbort(MoveLocation { ... }, 22) in command 0`
+ */
+export function getMoveAbortCode(message: string): number | null {
+    const match = message.match(/MoveAbort\(.*,\s*(\d+)\)/);
+    return match ? Number(match[1]) : null;
+}
+
 // Helper to check if contract is configured
 export function isContractConfigured(): boolean {
     return !!PACKAGE_ID && PACKAGE_ID.startsWith('0x') && PACKAGE_ID.length > 10;
@@ -0,0 +1,163 @@
+/**
+ * Course Rep Helpers
+ * Reads rep caps and the CourseRepRegistry to decide whether a rep is still active
+ *
+ * A cap is active while it is the rep's current cap in `rep_caps` (revoked and
+ * handed-over caps are removed) and the current epoch is before its expiry
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import { COURSE_REP_REGISTRY_ID, TYPES } from "@/lib/contract";
+
+export interface CourseRepCapInfo {
+    id: string;
+    courseCode: string;
+    repAddress: string;
+    expiresAtEpoch: number | null;
+}
+
+export interface CourseRepEntry {
+    address: string;
+    courseCode: string;
+    capId: string | null;
+    expiresAtEpoch: number | null;
+}
+
+interface RegistryFields {
+    verified_reps: { fields: { id: { id: string } } };
+    rep_caps: { fields: { id: { id: string } } };
+    code_words: { fields: { id: { id: string } } };
+}
+
+interface CapFields {
+    course_code: string;
+    rep_address: string;
+    expires_at_epoch: string | null;
+}
+
+function parseCap(id: string, fields: CapFields): CourseRepCapInfo {
+    return {
+        id,
+        courseCode: fields.course_code,
+        repAddress: fields.rep_address,
+        expiresAtEpoch: fields.expires_at_epoch === null ? null : Number(fields.expires_at_epoch),
+    };
+}
+
+async function getRegistryTables(client: SuiClient) {
+    const registry = await client.getObject({
+        id: COURSE_REP_REGISTRY_ID,
+        options: { showContent: true },
+    });
+    const content = registry.data?.content;
+    if (content?.dataType !== "moveObject") {
+        throw new Error("CourseRepRegistry not found");
+    }
+
+    const fields = content.fields as unknown as RegistryFields;
+    return {
+        verifiedRepsId: fields.verified_reps.fields.id.id,
+        repCapsId: fields.rep_caps.fields.id.id,
+        codeWordsId: fields.code_words.fields.id.id,
+    };
+}
+
+/**
+ * Reads a value from a `Table<address, _>` on the registry
+ */
+async function getTableValue(client: SuiClient, tableId: string, key: string): Promise<string | null> {
+    const entry = await client.getDynamicFieldObject({
+        parentId: tableId,
+        name: { type: "address", value: key },
+    });
+    const content = entry.data?.content;
+    if (content?.dataType !== "moveObject") return null;
+    return (content.fields as { value: string }).value;
+}
+
+/**
+ * Returns the address's CourseRepCap if it is still active
+ * @param client - Sui client
+ * @param address - Rep address
+ * @param currentEpoch - Current network epoch, used for the term check
+ */
+export async function getActiveRepCap(
+    client: SuiClient,
+    address: string,
+    currentEpoch: number
+): Promise<CourseRepCapInfo | null> {
+    const owned = await client.getOwnedObjects({
+        owner: address,
+        filter: { StructType: TYPES.CourseRepCap },
+        options: { showContent: true },
+    });
+    if (owned.data.length === 0) return null;
+
+    const { repCapsId } = await getRegistryTables(client);
+    const currentCapId = await getTableValue(client, repCapsId, address);
+    if (!currentCapId) return null;
+
+    for (const obj of owned.data) {
+        const content = obj.data?.content;
+        if (obj.data?.objectId !== currentCapId || content?.dataType !== "moveObject") continue;
+
+        const cap = parseCap(obj.data.objectId, content.fields as unknown as CapFields);
+        if (cap.expiresAtEpoch !== null && currentEpoch >= cap.expiresAtEpoch) return null;
+        return cap;
+    }
+
+    return null;
+}
+
+/**
+ * Lists every verified rep in the registry with their current cap
+ */
+export async function listCourseReps(client: SuiClient): Promise<CourseRepEntry[]> {
+    const { verifiedRepsId, repCapsId } = await getRegistryTables(client);
+    const reps: CourseRepEntry[] = [];
+    let cursor: string | null = null;
+
+    do {
+        const page = await client.getDynamicFields({ parentId: verifiedRepsId, cursor });
+        const entries = await client.multiGetObjects({
+            ids: page.data.map(field => field.objectId),
+            options: { showContent: true },
+        });
+
+        for (const entry of entries) {
+            const content = entry.data?.content;
+            if (content?.dataType !== "moveObject") continue;
+            const { name, value } = content.fields as { name: string; value: string };
+            reps.push({ address: name, courseCode: value, capId: null, expiresAtEpoch: null });
+        }
+
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    // Caps are owned by the reps, so read them directly for the term
+    await Promise.all(reps.map(async rep => {
+        rep.capId = await getTableValue(client, repCapsId, rep.address);
+        if (!rep.capId) return;
+
+        const cap = await client.getObject({ id: rep.capId, options: { showContent: true } });
+        const content = cap.data?.content;
+        if (content?.dataType === "moveObject") {
+            rep.expiresAtEpoch = parseCap(rep.capId, content.fields as unknown as CapFields).expiresAtEpoch;
+        }
+    }));
+
+    return reps.sort((a, b) => a.courseCode.localeCompare(b.courseCode));
+}
+
+/**
+ * Checks whether a lecturer has registered a code word for the course
+ * Students can only apply as rep for courses that have one
+ */
+export async function hasCourseCodeWord(client: SuiClient, courseCode: string): Promise<boolean> {
+    const { codeWordsId } = await getRegistryTables(client);
+    const entry = await client.getDynamicFieldObject({
+        parentId: codeWordsId,
+        name: { type: "0x1::string::String", value: courseCode },
+    });
+    return !!entry.data;
+}
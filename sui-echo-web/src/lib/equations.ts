@@ -0,0 +1,450 @@
+/**
+ * Equations
+ * Spots equation-like lines in OCR output, rewrites their symbols as LaTeX,
+ * and verbalizes LaTeX for speech ("x^2 + 2x" reads as "x squared plus 2 x")
+ *
+ * The verbalizer covers the LaTeX used in typical course handouts; unknown
+ * commands are spoken by name. Speech is English whatever the handout language.
+ */
+
+const MAX_EQUATION_LENGTH = 120;
+const MIN_SYMBOL_RATIO = 0.4;
+const MAX_PROSE_WORDS = 2;
+
+const RELATION_PATTERN = /[=<>≤≥≠≈]/;
+const MATH_CHARACTERS = /[0-9+\-−=*/^()[\]<>≤≥≠≈√∑∏∫π∞±×÷·²³.,|]/;
+const MATH_WORDS = new Set(["sin", "cos", "tan", "sec", "csc", "cot", "log", "ln", "exp", "lim", "max", "min", "det", "mod"]);
+
+const UNICODE_TO_LATEX: [RegExp, string][] = [
+    [/−/g, "-"],
+    [/×/g, "\\times "],
+    [/·/g, "\\cdot "],
+    [/÷/g, "\\div "],
+    [/±/g, "\\pm "],
+    [/≤/g, "\\leq "],
+    [/≥/g, "\\geq "],
+    [/≠/g, "\\neq "],
+    [/≈/g, "\\approx "],
+    [/∞/g, "\\infty "],
+    [/∑/g, "\\sum "],
+    [/∏/g, "\\prod "],
+    [/∫/g, "\\int "],
+    [/∂/g, "\\partial "],
+    [/→/g, "\\to "],
+    [/π/g, "\\pi "],
+    [/θ/g, "\\theta "],
+    [/α/g, "\\alpha "],
+    [/β/g, "\\beta "],
+    [/γ/g, "\\gamma "],
+    [/δ/g, "\\delta "],
+    [/λ/g, "\\lambda "],
+    [/μ/g, "\\mu "],
+    [/σ/g, "\\sigma "],
+    [/ω/g, "\\omega "],
+    [/Δ/g, "\\Delta "],
+    [/Ω/g, "\\Omega "],
+    [/°/g, "^\\circ "],
+    [/²/g, "^2"],
+    [/³/g, "^3"],
+    [/√\s*(\([^)]*\)|\w+)/g, "\\sqrt{$1}"],
+];
+
+/**
+ * Heuristic for OCR paragraphs: short text with a relation sign, mostly symbols,
+ * digits and single letters, and at most a couple of ordinary words
+ */
+export function isLikelyEquation(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.length > MAX_EQUATION_LENGTH || trimmed.split("\n").length > 2) return false;
+    if (!RELATION_PATTERN.test(trimmed) && !/[√∑∏∫]/.test(trimmed)) return false;
+
+    const proseWords = trimmed.split(/\s+/).filter(word => /^[A-Za-z]{3,}$/.test(word) && !MATH_WORDS.has(word.toLowerCase()));
+    if (proseWords.length > MAX_PROSE_WORDS) return false;
+
+    const characters = trimmed.replace(/\s/g, "");
+    const symbols = Array.from(characters).filter((char, i) =>
+        MATH_CHARACTERS.test(char) || (/\p{L}/u.test(char) && !/\p{L}/u.test(characters[i - 1] ?? "") && !/\p{L}/u.test(characters[i + 1] ?? ""))
+    );
+    return symbols.length / characters.length >= MIN_SYMBOL_RATIO;
+}
+
+/**
+ * Best-effort LaTeX for an OCR'd equation, for the user to correct
+ */
+export function ocrTextToLatex(text: string): string {
+    let latex = text.trim().replace(/\s+/g, " ");
+    for (const [pattern, replacement] of UNICODE_TO_LATEX) {
+        latex = latex.replace(pattern, replacement);
+    }
+    return latex.replace(/\s+/g, " ").trim();
+}
+
+type Token =
+    | { kind: "command"; value: string }
+    | { kind: "text"; value: string }
+    | { kind: "number"; value: string }
+    | { kind: "letter"; value: string }
+    | { kind: "symbol"; value: string }
+    | { kind: "open" }
+    | { kind: "close" };
+
+// Commands whose argument is read as plain words
+const TEXT_COMMANDS = new Set(["text", "textrm", "textit", "textbf", "mathrm", "operatorname"]);
+// Sizing and font commands that don't change what is said
+const SILENT_COMMANDS = new Set(["left", "right", "big", "Big", "bigg", "Bigg", "displaystyle", "limits", "nolimits", "quad", "qquad"]);
+const STYLE_COMMANDS = new Set(["mathbf", "mathit", "mathcal", "mathbb", "boldsymbol", "mathsf"]);
+
+const GREEK = new Set([
+    "alpha", "beta", "gamma", "delta", "epsilon", "varepsilon", "zeta", "eta", "theta", "vartheta", "iota", "kappa",
+    "lambda", "mu", "nu", "xi", "pi", "rho", "sigma", "tau", "upsilon", "phi", "varphi", "chi", "psi", "omega",
+]);
+
+const COMMAND_WORDS: Record<string, string> = {
+    times: "times",
+    cdot: "times",
+    div: "divided by",
+    pm: "plus or minus",
+    mp: "minus or plus",
+    leq: "is less than or equal to",
+    le: "is less than or equal to",
+    geq: "is greater than or equal to",
+    ge: "is greater than or equal to",
+    neq: "is not equal to",
+    ne: "is not equal to",
+    approx: "is approximately equal to",
+    equiv: "is equivalent to",
+    propto: "is proportional to",
+    sim: "is similar to",
+    to: "tends to",
+    rightarrow: "tends to",
+    Rightarrow: "implies",
+    iff: "if and only if",
+    infty: "infinity",
+    partial: "partial",
+    nabla: "del",
+    in: "is in",
+    notin: "is not in",
+    subset: "is a subset of",
+    cup: "union",
+    cap: "intersection",
+    forall: "for all",
+    exists: "there exists",
+    angle: "angle",
+    perp: "is perpendicular to",
+    parallel: "is parallel to",
+    circ: "composed with",
+    prime: "prime",
+    ldots: "dot dot dot",
+    cdots: "dot dot dot",
+    dots: "dot dot dot",
+    degree: "degrees",
+};
+
+const FUNCTION_WORDS: Record<string, string> = {
+    sin: "sine",
+    cos: "cosine",
+    tan: "tangent",
+    sec: "secant",
+    csc: "cosecant",
+    cot: "cotangent",
+    arcsin: "arc sine",
+    arccos: "arc cosine",
+    arctan: "arc tangent",
+    sinh: "hyperbolic sine",
+    cosh: "hyperbolic cosine",
+    tanh: "hyperbolic tangent",
+    log: "log",
+    ln: "natural log",
+    exp: "exponential",
+    det: "determinant",
+    max: "maximum",
+    min: "minimum",
+};
+
+const BIG_OPERATORS: Record<string, string> = {
+    sum: "the sum",
+    prod: "the product",
+    int: "the integral",
+    oint: "the contour integral",
+    lim: "the limit",
+};
+
+const SYMBOL_WORDS: Record<string, string> = {
+    "+": "plus",
+    "=": "equals",
+    "<": "is less than",
+    ">": "is greater than",
+    "/": "over",
+    "*": "times",
+    "!": "factorial",
+    "%": "percent",
+    ",": ",",
+    ";": ";",
+    ":": "such that",
+    "|": "bar",
+    "'": "prime",
+};
+
+const ACCENTS: Record<string, string> = {
+    hat: "hat",
+    bar: "bar",
+    overline: "bar",
+    tilde: "tilde",
+    dot: "dot",
+    ddot: "double dot",
+};
+
+// After these a minus sign reads as "negative"
+const OPERATOR_SYMBOLS = new Set(["+", "=", "<", ">", "/", "*", ",", ";", ":"]);
+const OPERATOR_COMMANDS = new Set([
+    "times", "cdot", "div", "pm", "mp", "leq", "le", "geq", "ge", "neq", "ne", "approx", "equiv", "propto", "sim",
+    "to", "rightarrow", "Rightarrow", "iff", "in", "notin", "subset", "cup", "cap",
+]);
+
+// Functions like f(x) read as "f of x"
+const FUNCTION_LETTERS = new Set(["f", "g", "h"]);
+
+function tokenize(latex: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < latex.length) {
+        const char = latex[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === "\\") {
+            const name = /^[A-Za-z]+/.exec(latex.slice(i + 1))?.[0];
+            if (!name) {
+                // Escaped percent is spoken; spacing commands (\, \; \!) and escaped braces are silent
+                if (latex[i + 1] === "%") tokens.push({ kind: "symbol", value: "%" });
+                i += 2;
+                continue;
+            }
+            i += name.length + 1;
+
+            if (TEXT_COMMANDS.has(name)) {
+                const match = /^\s*\{([^}]*)\}/.exec(latex.slice(i));
+                if (match) {
+                    tokens.push({ kind: "text", value: match[1].trim() });
+                    i += match[0].length;
+                    continue;
+                }
+            }
+            tokens.push({ kind: "command", value: name });
+        } else if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(latex[i + 1] ?? ""))) {
+            const number = /^[0-9]*\.?[0-9]+/.exec(latex.slice(i))![0];
+            tokens.push({ kind: "number", value: number });
+            i += number.length;
+        } else if (/\p{L}/u.test(char)) {
+            tokens.push({ kind: "letter", value: char });
+            i++;
+        } else if (char === "{") {
+            tokens.push({ kind: "open" });
+            i++;
+        } else if (char === "}") {
+            tokens.push({ kind: "close" });
+            i++;
+        } else {
+            tokens.push({ kind: "symbol", value: char });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+class Verbalizer {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.position++];
+    }
+
+    private isSymbol(value: string): boolean {
+        const token = this.peek();
+        return token?.kind === "symbol" && token.value === value;
+    }
+
+    /**
+     * Reads atoms until the end, a closing brace, or the given closing symbol
+     */
+    sequence(closeSymbol?: string): string[] {
+        const words: string[] = [];
+        let expectOperand = true;
+
+        while (this.position < this.tokens.length) {
+            const token = this.peek()!;
+            if (token.kind === "close") {
+                this.position++;
+                break;
+            }
+            if (closeSymbol && this.isSymbol(closeSymbol)) {
+                this.position++;
+                break;
+            }
+
+            // A minus with nothing before it negates
+            if (token.kind === "symbol" && (token.value === "-" || token.value === "−")) {
+                this.position++;
+                words.push(expectOperand ? "negative" : "minus");
+                expectOperand = true;
+                continue;
+            }
+
+            const previous = this.tokens[this.position - 1];
+            const isCall = token.kind === "symbol" && token.value === "(" && previous?.kind === "letter" && FUNCTION_LETTERS.has(previous.value);
+            const isOperator = (token.kind === "symbol" && OPERATOR_SYMBOLS.has(token.value))
+                || (token.kind === "command" && OPERATOR_COMMANDS.has(token.value));
+
+            const atom = this.scripts(this.atom());
+            if (isCall && atom.length > 0) words.push("of");
+            words.push(...atom);
+            expectOperand = isOperator;
+        }
+        return words;
+    }
+
+    /**
+     * A braced group or, without braces, the next single atom
+     */
+    private argument(): string[] {
+        if (this.peek()?.kind === "open") {
+            this.position++;
+            return this.sequence();
+        }
+        return this.atom();
+    }
+
+    private atom(): string[] {
+        const token = this.next();
+        if (!token) return [];
+
+        switch (token.kind) {
+            case "number":
+            case "letter":
+            case "text":
+                return [token.value];
+            case "open":
+                return this.sequence();
+            case "close":
+                return [];
+            case "symbol":
+                return this.symbol(token.value);
+            case "command":
+                return this.command(token.value);
+        }
+    }
+
+    private symbol(value: string): string[] {
+        if (value === "(" || value === "[") {
+            const inner = this.sequence(value === "(" ? ")" : "]");
+            if (inner.length <= 1) return inner;
+            return value === "(" ? ["open paren", ...inner, "close paren"] : ["open bracket", ...inner, "close bracket"];
+        }
+        // Scripts with no base (e.g. a stray ^) attach to nothing
+        if (value === "^" || value === "_") {
+            this.argument();
+            return [];
+        }
+        return SYMBOL_WORDS[value] ? [SYMBOL_WORDS[value]] : [value];
+    }
+
+    private command(name: string): string[] {
+        if (SILENT_COMMANDS.has(name)) return [];
+        if (STYLE_COMMANDS.has(name)) return this.argument();
+
+        if (name === "frac" || name === "dfrac" || name === "tfrac") {
+            const numerator = this.argument();
+            const denominator = this.argument();
+            if (numerator.length === 1 && denominator.length === 1) return [numerator[0], "over", denominator[0]];
+            return ["the fraction", ...numerator, "over", ...denominator, "end fraction"];
+        }
+
+        if (name === "sqrt") {
+            let index: string[] = [];
+            if (this.isSymbol("[")) {
+                this.position++;
+                index = this.sequence("]");
+            }
+            const radicand = this.argument();
+            const root = index.length === 0 ? "the square root of" : index.join(" ") === "3" ? "the cube root of" : `the ${index.join(" ")}th root of`;
+            return radicand.length > 1 ? [root, ...radicand, "end root"] : [root, ...radicand];
+        }
+
+        if (name in BIG_OPERATORS) {
+            let lower: string[] = [];
+            let upper: string[] = [];
+            const modifier = this.peek();
+            if (modifier?.kind === "command" && (modifier.value === "limits" || modifier.value === "nolimits")) this.position++;
+            // Limits may come in either order
+            while (this.isSymbol("_") || this.isSymbol("^")) {
+                const isLower = this.isSymbol("_");
+                this.position++;
+                if (isLower) lower = this.argument();
+                else upper = this.argument();
+            }
+            if (name === "lim") return lower.length > 0 ? ["the limit as", ...lower, "of"] : ["the limit of"];
+            const words = [BIG_OPERATORS[name]];
+            if (lower.length > 0) words.push("from", ...lower);
+            if (upper.length > 0) words.push("to", ...upper);
+            return [...words, "of"];
+        }
+
+        if (name in FUNCTION_WORDS) {
+            const words = this.scripts([FUNCTION_WORDS[name]]);
+            return [...words, "of"];
+        }
+
+        if (name in ACCENTS) return [...this.argument(), ACCENTS[name]];
+        if (name === "vec") return ["vector", ...this.argument()];
+        if (GREEK.has(name)) return [name.replace(/^var/, "")];
+        if (GREEK.has(name.toLowerCase())) return ["capital", name.toLowerCase()];
+        if (name in COMMAND_WORDS) return [COMMAND_WORDS[name]];
+        return [name];
+    }
+
+    /**
+     * Applies any ^ and _ that follow an atom
+     */
+    private scripts(base: string[]): string[] {
+        const words = [...base];
+        while (this.isSymbol("^") || this.isSymbol("_") || this.isSymbol("'")) {
+            const script = (this.next() as { value: string }).value;
+            if (script === "'") {
+                words.push("prime");
+            } else if (script === "_") {
+                const subscript = this.argument();
+                words.push("sub", ...subscript, ...(subscript.length > 1 ? ["end sub"] : []));
+            } else {
+                words.push(...power(this.argument()));
+            }
+        }
+        return words;
+    }
+}
+
+function power(exponent: string[]): string[] {
+    const spoken = exponent.join(" ");
+    if (spoken === "2") return ["squared"];
+    if (spoken === "3") return ["cubed"];
+    if (spoken === "composed with") return ["degrees"];
+    if (spoken === "prime" || spoken === "prime prime") return [spoken];
+    if (spoken === "negative 1") return ["inverse"];
+    return exponent.length > 1 ? ["to the power of", ...exponent, "end power"] : ["to the power of", ...exponent];
+}
+
+/**
+ * Reads LaTeX aloud, e.g. "\frac{a+b}{2}" as "the fraction a plus b over 2 end fraction"
+ */
+export function verbalizeLatex(latex: string): string {
+    const words = new Verbalizer(tokenize(latex)).sequence();
+    return words
+        .join(" ")
+        .replace(/\s+([,;])/g, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+}
@@ -0,0 +1,287 @@
+/**
+ * Handout Document Format
+ * Versioned JSON schema for handouts stored on Walrus, with a validator and
+ * a reader that falls back to plain-text blobs minted before the schema existed
+ *
+ * Shared by the scan page (writing), /api/verify (checks) and the reader (rendering)
+ */
+
+import { splitPages } from "@/lib/handout-pages";
+import { DEFAULT_LANGUAGE_CODE } from "@/lib/languages";
+import { verbalizeLatex } from "@/lib/equations";
+
+export const HANDOUT_DOCUMENT_FORMAT = "sui-echo-handout";
+export const HANDOUT_DOCUMENT_VERSION = 2;
+// Version 1 predates math blocks; it is otherwise identical
+const SUPPORTED_VERSIONS = [1, 2];
+const MATH_BLOCK_VERSION = 2;
+export const HANDOUT_DOCUMENT_CONTENT_TYPE = "application/json";
+
+export type HandoutBlockType = "heading" | "paragraph" | "math";
+
+export interface HandoutBlock {
+    type: HandoutBlockType;
+    // LaTeX source for math blocks
+    text: string;
+    // OCR confidence from 0 to 1; null for typed or hand-corrected text
+    confidence: number | null;
+}
+
+export interface HandoutPage {
+    blocks: HandoutBlock[];
+    // Walrus blob of the photo the page was recognized from
+    sourceImageBlobId: string | null;
+}
+
+export interface HandoutDocument {
+    format: typeof HANDOUT_DOCUMENT_FORMAT;
+    version: number;
+    title: string;
+    courseCode: string;
+    // BCP 47 language tag, e.g. "en" or "yo"
+    language: string;
+    createdAt: string;
+    pages: HandoutPage[];
+}
+
+export interface ParsedHandoutContent {
+    document: HandoutDocument;
+    // True when the blob was plain text and the document was derived from it
+    legacy: boolean;
+}
+
+const BLOCK_TYPES: HandoutBlockType[] = ["heading", "paragraph", "math"];
+// Math blocks are written as $$...$$ in page text
+const MATH_BLOCK_PATTERN = /^\$\$((?:(?!\$\$)[\s\S])*)\$\$$/;
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 10;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a value against the current document schema
+ * @returns Human-readable problems with their JSON paths; empty when valid
+ */
+export function validateHandoutDocument(value: unknown): string[] {
+    if (!isRecord(value)) return ["document: expected an object"];
+
+    const errors: string[] = [];
+    if (value.format !== HANDOUT_DOCUMENT_FORMAT) errors.push(`format: expected "${HANDOUT_DOCUMENT_FORMAT}"`);
+    if (!SUPPORTED_VERSIONS.includes(value.version as number)) errors.push(`version: unsupported version ${String(value.version)}`);
+    const allowsMath = typeof value.version === "number" && value.version >= MATH_BLOCK_VERSION;
+
+    for (const key of ["title", "courseCode", "language", "createdAt"]) {
+        if (typeof value[key] !== "string") errors.push(`${key}: expected a string`);
+    }
+    if (typeof value.language === "string" && !value.language.trim()) errors.push("language: must not be empty");
+
+    if (!Array.isArray(value.pages) || value.pages.length === 0) {
+        errors.push("pages: expected a non-empty array");
+        return errors;
+    }
+
+    value.pages.forEach((page, pageIndex) => {
+        const pagePath = `pages[${pageIndex}]`;
+        if (!isRecord(page)) {
+            errors.push(`${pagePath}: expected an object`);
+            return;
+        }
+        if (page.sourceImageBlobId !== null && typeof page.sourceImageBlobId !== "string") {
+            errors.push(`${pagePath}.sourceImageBlobId: expected a string or null`);
+        }
+        if (!Array.isArray(page.blocks)) {
+            errors.push(`${pagePath}.blocks: expected an array`);
+            return;
+        }
+
+        page.blocks.forEach((block, blockIndex) => {
+            const blockPath = `${pagePath}.blocks[${blockIndex}]`;
+            if (!isRecord(block)) {
+                errors.push(`${blockPath}: expected an object`);
+                return;
+            }
+            if (!BLOCK_TYPES.includes(block.type as HandoutBlockType)) {
+                errors.push(`${blockPath}.type: expected one of ${BLOCK_TYPES.join(", ")}`);
+            } else if (block.type === "math" && !allowsMath) {
+                errors.push(`${blockPath}.type: math blocks need version ${MATH_BLOCK_VERSION}`);
+            }
+            if (typeof block.text !== "string") errors.push(`${blockPath}.text: expected a string`);
+            if (block.confidence !== null && (typeof block.confidence !== "number" || block.confidence < 0 || block.confidence > 1)) {
+                errors.push(`${blockPath}.confidence: expected a number from 0 to 1 or null`);
+            }
+        });
+    });
+
+    return errors;
+}
+
+/**
+ * Reads a handout blob, accepting both JSON documents and legacy plain text
+ * Content that is not a JSON object tagged with the handout format is treated as plain text
+ * @throws If the content claims to be a handout document but fails validation
+ */
+export function parseHandoutContent(content: string): ParsedHandoutContent {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch {
+        json = null;
+    }
+
+    if (!isRecord(json) || json.format !== HANDOUT_DOCUMENT_FORMAT) {
+        return { document: documentFromPlainText(content), legacy: true };
+    }
+
+    const errors = validateHandoutDocument(json);
+    if (errors.length > 0) {
+        throw new Error(`Invalid handout document: ${errors.join("; ")}`);
+    }
+    return { document: json as unknown as HandoutDocument, legacy: false };
+}
+
+/**
+ * Serializes a document for upload with a fixed key order,
+ * so the same document always hashes to the same bytes
+ */
+export function serializeHandoutDocument(document: HandoutDocument): string {
+    return JSON.stringify({
+        format: document.format,
+        version: document.version,
+        title: document.title,
+        courseCode: document.courseCode,
+        language: document.language,
+        createdAt: document.createdAt,
+        pages: document.pages.map(page => ({
+            blocks: page.blocks.map(block => ({ type: block.type, text: block.text, confidence: block.confidence })),
+            sourceImageBlobId: page.sourceImageBlobId,
+        })),
+    });
+}
+
+export function createHandoutDocument(fields: {
+    title: string;
+    courseCode: string;
+    language?: string;
+    pages: HandoutPage[];
+}): HandoutDocument {
+    return {
+        format: HANDOUT_DOCUMENT_FORMAT,
+        version: HANDOUT_DOCUMENT_VERSION,
+        title: fields.title,
+        courseCode: fields.courseCode,
+        language: fields.language || DEFAULT_LANGUAGE_CODE,
+        createdAt: new Date().toISOString(),
+        pages: fields.pages,
+    };
+}
+
+/**
+ * Heuristic for OCR output: short single lines without closing punctuation that are
+ * numbered ("2.1 Scope") or set in capitals are treated as headings
+ */
+export function isLikelyHeading(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.includes("\n") || trimmed.length > MAX_HEADING_LENGTH) return false;
+    if (trimmed.split(/\s+/).length > MAX_HEADING_WORDS || /[.,;]$/.test(trimmed)) return false;
+
+    const letters = trimmed.replace(/[^\p{L}]/gu, "");
+    const isUpperCase = letters.length > 1 && letters === letters.toUpperCase();
+    const isNumbered = /^(\d+(\.\d+)*\.?|chapter|section|week|topic|unit)\s/i.test(trimmed);
+    return isUpperCase || isNumbered;
+}
+
+/**
+ * Splits page text into blocks at blank lines; chunks wrapped in $$...$$ become math blocks
+ * Blocks whose text is unchanged keep the confidence from `previous`; edited ones get null
+ */
+export function blocksFromText(text: string, previous: HandoutBlock[] = []): HandoutBlock[] {
+    const confidenceByText = new Map(previous.map(block => [block.text, block.confidence]));
+
+    return text
+        .split(/\n\s*\n/)
+        .map(chunk => chunk.trim())
+        .filter(Boolean)
+        .map((chunk): HandoutBlock => {
+            const math = MATH_BLOCK_PATTERN.exec(chunk);
+            const blockText = math ? math[1].trim() : chunk;
+            return {
+                type: math ? "math" : isLikelyHeading(chunk) ? "heading" : "paragraph",
+                text: blockText,
+                confidence: confidenceByText.get(blockText) ?? null,
+            };
+        });
+}
+
+/**
+ * Wraps a plain-text blob (optionally with form-feed page breaks) as a document
+ */
+export function documentFromPlainText(content: string): HandoutDocument {
+    return {
+        format: HANDOUT_DOCUMENT_FORMAT,
+        version: HANDOUT_DOCUMENT_VERSION,
+        title: "",
+        courseCode: "",
+        language: DEFAULT_LANGUAGE_CODE,
+        createdAt: "",
+        pages: splitPages(content).map(page => ({ blocks: blocksFromText(page), sourceImageBlobId: null })),
+    };
+}
+
+/**
+ * Editable text of a page, with blocks separated by blank lines and math as $$...$$
+ * Round-trips through `blocksFromText`
+ */
+export function getPageText(page: Pick<HandoutPage, "blocks">): string {
+    return page.blocks.map(block => block.type === "math" ? `$$${block.text}$$` : block.text).join("\n\n");
+}
+
+/**
+ * Text of a page for speech synthesis, with math read out in words
+ */
+export function getSpokenPageText(page: Pick<HandoutPage, "blocks">): string {
+    return page.blocks.map(block => block.type === "math" ? verbalizeLatex(block.text) : block.text).join("\n\n");
+}
+
+/**
+ * Plain text of the whole document, used for length checks
+ */
+export function getDocumentText(document: HandoutDocument): string {
+    return document.pages.map(getPageText).join("\n\n");
+}
+
+export function getSpokenDocumentText(document: HandoutDocument): string {
+    return document.pages.map(getSpokenPageText).join("\n\n");
+}
+
+/**
+ * Best title available: the explicit title, else the first heading, else the opening words
+ */
+export function getDocumentTitle(document: HandoutDocument): string {
+    if (document.title.trim()) return document.title.trim();
+    const blocks = document.pages.flatMap(page => page.blocks);
+    const heading = blocks.find(block => block.type === "heading");
+    if (heading) return heading.text;
+    const text = blocks.find(block => block.type === "paragraph")?.text ?? "";
+    return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
+
+/**
+ * Average block confidence, or null when no block carries one
+ */
+export function getAverageConfidence(pages: Pick<HandoutPage, "blocks">[]): number | null {
+    const scores = pages
+        .flatMap(page => page.blocks)
+        .map(block => block.confidence)
+        .filter((confidence): confidence is number => confidence !== null);
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+}
+
+/**
+ * Hex SHA-256 of the serialized content, matching the content hash /api/verify attests
+ */
+export async function hashHandoutContent(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,18 @@
+/**
+ * Handout Pages
+ * Plain-text handouts (minted before the JSON document format) separate pages
+ * with a form feed; blobs without one read as a single page
+ */
+
+// ASCII form feed, the plain-text page break
+export const PAGE_BREAK = "\f";
+
+/**
+ * Splits blob content back into pages
+ * @returns At least one page; content without page breaks is a single page
+ */
+export function splitPages(content: string): string[] {
+    const pages = content.split(PAGE_BREAK).map(page => page.trim());
+    const nonEmpty = pages.filter(Boolean);
+    return nonEmpty.length > 0 ? nonEmpty : [content.trim()];
+}
@@ -0,0 +1,74 @@
+/**
+ * Handout Helpers
+ * Handouts are shared objects, so admins, course reps and lecturers can verify and endorse them.
+ * An uploader's handouts are therefore found through the indexer rather than their owned objects
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import type { IndexedHandout } from "@/lib/indexer/store";
+
+const MULTI_GET_LIMIT = 50;
+
+export interface HandoutObject {
+    id: string;
+    blobId: string;
+    description: string;
+    courseCode: string;
+    uploader: string;
+    verified: boolean;
+    rewardClaimed: boolean;
+    official: boolean;
+    endorsedBy: string | null;
+    createdAtMs: number;
+}
+
+interface HandoutFields {
+    blob_id: string;
+    description: string;
+    course_code: string;
+    uploader: string;
+    verified: boolean;
+    reward_claimed: boolean;
+    official: boolean;
+    endorsed_by: string | null;
+    created_at: string;
+}
+
+/**
+ * Returns the handouts an address minted, newest first, with their current on-chain state
+ * Reads the server-side indexer, so it only sees handouts minted before the last sync
+ */
+export async function getUploadedHandouts(client: SuiClient, uploader: string): Promise<HandoutObject[]> {
+    const response = await fetch(`/api/handouts?uploader=${encodeURIComponent(uploader)}&limit=500`);
+    if (!response.ok) throw new Error("Failed to load handouts");
+    const { handouts: indexed } = await response.json() as { handouts: IndexedHandout[] };
+
+    const handouts: HandoutObject[] = [];
+    for (let i = 0; i < indexed.length; i += MULTI_GET_LIMIT) {
+        const objects = await client.multiGetObjects({
+            ids: indexed.slice(i, i + MULTI_GET_LIMIT).map(handout => handout.id),
+            options: { showContent: true },
+        });
+
+        for (const obj of objects) {
+            const content = obj.data?.content;
+            if (content?.dataType !== "moveObject") continue;
+
+            const fields = content.fields as unknown as HandoutFields;
+            handouts.push({
+                id: obj.data!.objectId,
+                blobId: fields.blob_id,
+                description: fields.description,
+                courseCode: fields.course_code,
+                uploader: fields.uploader,
+                verified: fields.verified,
+                rewardClaimed: fields.reward_claimed,
+                official: fields.official,
+                endorsedBy: fields.endorsed_by,
+                createdAtMs: Number(fields.created_at),
+            });
+        }
+    }
+
+    return handouts.sort((a, b) => b.createdAtMs - a.createdAtMs);
+}
@@ -0,0 +1,401 @@
+/**
+ * Image Preprocessing
+ * Cleans up page photos before OCR: grayscale, perspective correction from the
+ * detected page corners, adaptive threshold, deskew and margin crop
+ *
+ * The pipeline works on plain pixel buffers so it can run on any canvas;
+ * `preprocessImageSrc` wraps it for data URLs in the browser
+ */
+
+export interface RgbaImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+// One byte per pixel
+export interface GrayImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessResult {
+    image: GrayImage;
+    // Page corners found in the input, or null when the page already fills the frame
+    corners: Quad | null;
+    skewDegrees: number;
+}
+
+// Larger photos are scaled down first; Tesseract gains little above this
+const MAX_DIMENSION = 2000;
+const THRESHOLD_WINDOW = 31;
+const THRESHOLD_OFFSET = 10;
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+const SKEW_SAMPLE_LIMIT = 50_000;
+const CORNER_GRID = 8;
+const CROP_PADDING = 0.02;
+
+export function toGrayscale(image: RgbaImage): GrayImage {
+    const gray = new Uint8ClampedArray(image.width * image.height);
+    for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+        gray[i] = (image.data[p] * 299 + image.data[p + 1] * 587 + image.data[p + 2] * 114) / 1000;
+    }
+    return { data: gray, width: image.width, height: image.height };
+}
+
+export function toRgba(image: GrayImage): RgbaImage {
+    const data = new Uint8ClampedArray(image.width * image.height * 4);
+    for (let i = 0, p = 0; i < image.data.length; i++, p += 4) {
+        data[p] = data[p + 1] = data[p + 2] = image.data[i];
+        data[p + 3] = 255;
+    }
+    return { data, width: image.width, height: image.height };
+}
+
+/**
+ * Global threshold separating the two main intensity classes (Otsu's method)
+ */
+export function otsuThreshold(image: GrayImage): number {
+    const histogram = new Array<number>(256).fill(0);
+    for (const value of image.data) histogram[value]++;
+
+    const total = image.data.length;
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let bestVariance = 0;
+    let threshold = 127;
+
+    for (let t = 0; t < 256; t++) {
+        weightBackground += histogram[t];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+
+        sumBackground += t * histogram[t];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sum - sumBackground) / weightForeground;
+        const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = t;
+        }
+    }
+    return threshold;
+}
+
+/**
+ * Binarizes against the local mean so shadows and uneven lighting don't swallow text
+ * @returns Black (0) ink on white (255)
+ */
+export function adaptiveThreshold(image: GrayImage, windowSize = THRESHOLD_WINDOW, offset = THRESHOLD_OFFSET): GrayImage {
+    const { width, height, data } = image;
+    const stride = width + 1;
+    const integral = new Float64Array(stride * (height + 1));
+
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += data[y * width + x];
+            integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+        }
+    }
+
+    const half = Math.floor(windowSize / 2);
+    const output = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half);
+        const y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half);
+            const x1 = Math.min(width, x + half + 1);
+            const area = (x1 - x0) * (y1 - y0);
+            const windowSum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+            output[y * width + x] = data[y * width + x] < windowSum / area - offset ? 0 : 255;
+        }
+    }
+    return { data: output, width, height };
+}
+
+function polygonArea(quad: Quad): number {
+    let area = 0;
+    for (let i = 0; i < 4; i++) {
+        const a = quad[i];
+        const b = quad[(i + 1) % 4];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(area) / 2;
+}
+
+/**
+ * Finds the corners of a light page on a darker background
+ * Works on a coarse grid of cell averages so specks of glare don't pull the corners out
+ * @returns The page corners, or null when no distinct page is visible
+ */
+export function detectDocumentCorners(image: GrayImage): Quad | null {
+    const { width, height, data } = image;
+    const columns = Math.floor(width / CORNER_GRID);
+    const rows = Math.floor(height / CORNER_GRID);
+    if (columns < 4 || rows < 4) return null;
+
+    const threshold = otsuThreshold(image);
+    const cells: Point[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            let sum = 0;
+            for (let y = row * CORNER_GRID; y < (row + 1) * CORNER_GRID; y++) {
+                for (let x = column * CORNER_GRID; x < (column + 1) * CORNER_GRID; x++) {
+                    sum += data[y * width + x];
+                }
+            }
+            if (sum / (CORNER_GRID * CORNER_GRID) > threshold) {
+                cells.push({ x: (column + 0.5) * CORNER_GRID, y: (row + 0.5) * CORNER_GRID });
+            }
+        }
+    }
+
+    // The page must stand out from a visible background
+    const coverage = cells.length / (columns * rows);
+    if (coverage < 0.2 || coverage > 0.95) return null;
+
+    let topLeft = cells[0], topRight = cells[0], bottomRight = cells[0], bottomLeft = cells[0];
+    for (const cell of cells) {
+        if (cell.x + cell.y < topLeft.x + topLeft.y) topLeft = cell;
+        if (cell.x + cell.y > bottomRight.x + bottomRight.y) bottomRight = cell;
+        if (cell.x - cell.y > topRight.x - topRight.y) topRight = cell;
+        if (cell.x - cell.y < bottomLeft.x - bottomLeft.y) bottomLeft = cell;
+    }
+
+    const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft];
+    return polygonArea(quad) >= 0.2 * width * height ? quad : null;
+}
+
+/**
+ * Solves the homography mapping each `from` point onto the matching `to` point
+ * @returns Row-major 3x3 matrix with the last entry fixed to 1
+ */
+export function solveHomography(from: Quad, to: Quad): number[] {
+    const matrix: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        matrix.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+        matrix.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let column = 0; column < 8; column++) {
+        let pivot = column;
+        for (let row = column + 1; row < 8; row++) {
+            if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+        }
+        [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+        if (Math.abs(matrix[column][column]) < 1e-12) throw new Error("Degenerate corner points");
+
+        for (let row = 0; row < 8; row++) {
+            if (row === column) continue;
+            const factor = matrix[row][column] / matrix[column][column];
+            for (let k = column; k < 9; k++) matrix[row][k] -= factor * matrix[column][k];
+        }
+    }
+
+    return [...matrix.map((row, i) => row[8] / row[i]), 1];
+}
+
+function sampleBilinear(image: GrayImage, x: number, y: number, fill: number): number {
+    if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return fill;
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1);
+    const fx = x - x0, fy = y - y0;
+    const { data, width } = image;
+    const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+    const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+}
+
+function distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Maps the page quad onto an upright rectangle sized from its edges
+ */
+export function warpPerspective(image: GrayImage, corners: Quad): GrayImage {
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+    const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+    const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+    const target: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+    // Map output pixels back into the source so every output pixel gets a value
+    const h = solveHomography(target, corners);
+
+    const output = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const w = h[6] * x + h[7] * y + h[8];
+            const sourceX = (h[0] * x + h[1] * y + h[2]) / w;
+            const sourceY = (h[3] * x + h[4] * y + h[5]) / w;
+            output[y * width + x] = sampleBilinear(image, sourceX, sourceY, 255);
+        }
+    }
+    return { data: output, width, height };
+}
+
+/**
+ * Estimates text skew by finding the angle whose row projection of ink is most peaked
+ * @param binary - Thresholded image with black ink
+ * @returns Degrees the text is rotated clockwise
+ */
+export function estimateSkew(binary: GrayImage, maxDegrees = MAX_SKEW_DEGREES): number {
+    const { width, height, data } = binary;
+    const ink: Point[] = [];
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] === 0) ink.push({ x: i % width, y: Math.floor(i / width) });
+    }
+    if (ink.length === 0) return 0;
+
+    const step = Math.max(1, Math.floor(ink.length / SKEW_SAMPLE_LIMIT));
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    let bestAngle = 0;
+    let bestScore = -1;
+
+    for (let degrees = -maxDegrees; degrees <= maxDegrees; degrees += SKEW_STEP_DEGREES) {
+        const radians = (degrees * Math.PI) / 180;
+        const sin = Math.sin(radians), cos = Math.cos(radians);
+        const bins = new Float64Array(diagonal * 2);
+
+        for (let i = 0; i < ink.length; i += step) {
+            const row = Math.round(ink[i].y * cos - ink[i].x * sin) + diagonal;
+            bins[row]++;
+        }
+
+        let score = 0;
+        for (const count of bins) score += count * count;
+        if (score > bestScore) {
+            bestScore = score;
+            bestAngle = degrees;
+        }
+    }
+    return bestAngle;
+}
+
+/**
+ * Rotates about the centre, keeping the size and filling uncovered corners with white
+ */
+export function rotate(image: GrayImage, degrees: number): GrayImage {
+    if (degrees === 0) return image;
+    const { width, height } = image;
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians), cos = Math.cos(radians);
+    const centerX = (width - 1) / 2, centerY = (height - 1) / 2;
+
+    const output = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const dx = x - centerX, dy = y - centerY;
+            output[y * width + x] = sampleBilinear(image, centerX + dx * cos - dy * sin, centerY + dx * sin + dy * cos, 255);
+        }
+    }
+    return { data: output, width, height };
+}
+
+/**
+ * Trims blank margins around the ink, ignoring rows and columns with only a few specks
+ */
+export function cropToContent(binary: GrayImage): GrayImage {
+    const { width, height, data } = binary;
+    const rowInk = new Array<number>(height).fill(0);
+    const columnInk = new Array<number>(width).fill(0);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[y * width + x] === 0) {
+                rowInk[y]++;
+                columnInk[x]++;
+            }
+        }
+    }
+
+    const minRowInk = Math.max(2, width * 0.002);
+    const minColumnInk = Math.max(2, height * 0.002);
+    const top = rowInk.findIndex(count => count >= minRowInk);
+    const bottom = height - 1 - [...rowInk].reverse().findIndex(count => count >= minRowInk);
+    const left = columnInk.findIndex(count => count >= minColumnInk);
+    const right = width - 1 - [...columnInk].reverse().findIndex(count => count >= minColumnInk);
+    if (top < 0 || left < 0) return binary;
+
+    const padX = Math.round(width * CROP_PADDING), padY = Math.round(height * CROP_PADDING);
+    const x0 = Math.max(0, left - padX), x1 = Math.min(width, right + padX + 1);
+    const y0 = Math.max(0, top - padY), y1 = Math.min(height, bottom + padY + 1);
+
+    // Cropping to a speck would throw the page away
+    if ((x1 - x0) * (y1 - y0) < 0.1 * width * height) return binary;
+
+    const output = new Uint8ClampedArray((x1 - x0) * (y1 - y0));
+    for (let y = y0; y < y1; y++) {
+        output.set(data.subarray(y * width + x0, y * width + x1), (y - y0) * (x1 - x0));
+    }
+    return { data: output, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Runs the full cleanup pipeline on an RGBA image
+ */
+export function preprocessForOcr(image: RgbaImage): PreprocessResult {
+    let gray = toGrayscale(image);
+
+    const corners = detectDocumentCorners(gray);
+    if (corners) gray = warpPerspective(gray, corners);
+
+    // Skew is measured on the binarized page, but rotating the grayscale keeps edges clean
+    const skewDegrees = estimateSkew(adaptiveThreshold(gray));
+    const binary = adaptiveThreshold(rotate(gray, skewDegrees));
+
+    return { image: cropToContent(binary), corners, skewDegrees };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Could not load image"));
+        image.src = src;
+    });
+}
+
+/**
+ * Preprocesses an image given as a URL or data URL
+ * @returns The cleaned page as a PNG data URL, plus what the pipeline detected
+ */
+export async function preprocessImageSrc(src: string): Promise<Omit<PreprocessResult, "image"> & { dataUrl: string }> {
+    const source = await loadImage(src);
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(source.naturalWidth, source.naturalHeight));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(source.naturalWidth * scale);
+    canvas.height = Math.round(source.naturalHeight * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported");
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    const { image, corners, skewDegrees } = preprocessForOcr(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    const rgba = toRgba(image);
+
+    canvas.width = rgba.width;
+    canvas.height = rgba.height;
+    const output = ctx.createImageData(rgba.width, rgba.height);
+    output.data.set(rgba.data);
+    ctx.putImageData(output, 0, 0);
+    return { dataUrl: canvas.toDataURL("image/png"), corners, skewDegrees };
+}
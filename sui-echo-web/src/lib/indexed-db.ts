@@ -0,0 +1,42 @@
+/**
+ * IndexedDB Helpers
+ * Promise wrappers shared by the browser-side databases (offline library, persisted zkLogin session)
+ */
+
+export interface IndexedDbSchema {
+    name: string;
+    version: number;
+    // Creates the object stores; runs when the database is new or its version goes up
+    upgrade: (db: IDBDatabase) => void;
+}
+
+export function openDatabase(schema: IndexedDbSchema): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(schema.name, schema.version);
+        request.onupgradeneeded = () => schema.upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs one request against an object store, closing the database afterwards
+ * @returns The request's result
+ */
+export async function withStore<T>(
+    schema: IndexedDbSchema,
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDatabase(schema);
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Indexed Event Model
+ * Normalizes raw Sui events emitted by the echo module into flat records
+ * that can be stored and filtered without a live node
+ */
+
+// Event struct names emitted by sui-echo-move/sources/echo.move
+export const INDEXED_EVENT_NAMES = [
+    'HandoutMinted',
+    'HandoutVerified',
+    'RewardClaimed',
+    'BroadcastCreated',
+    'CourseSponsored',
+    'CourseRepApplicationSubmitted',
+    'CourseRepApproved',
+    'CourseRepRejected',
+    'CourseRepRevoked',
+    'CourseRepHandedOver',
+    'CourseRepNominated',
+    'HandoutEndorsed',
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENT_NAMES)[number];
+
+/**
+ * Shape of an event as returned by `suix_queryEvents`
+ * Recorded fixtures use the same shape so they can be replayed offline
+ */
+export interface RawSuiEvent {
+    id: { txDigest: string; eventSeq: string };
+    type: string;
+    sender: string;
+    parsedJson?: unknown;
+    timestampMs?: string | null;
+}
+
+export interface IndexedEvent {
+    id: string;
+    name: IndexedEventName;
+    txDigest: string;
+    sender: string;
+    timestampMs: number;
+    courseCode: string | null;
+    // Handout, broadcast or application object the event refers to
+    objectId: string | null;
+    // Address the event is about (uploader, recipient, broadcaster, applicant, sponsor, nominee)
+    subject: string | null;
+    data: Record<string, unknown>;
+}
+
+/**
+ * Extracts the struct name from a fully-qualified event type
+ * @param type - e.g. `0x123::echo::HandoutMinted`
+ * @returns The struct name if it is one the indexer tracks
+ */
+export function getEventName(type: string): IndexedEventName | null {
+    const name = type.split('::').pop() || '';
+    return (INDEXED_EVENT_NAMES as readonly string[]).includes(name)
+        ? (name as IndexedEventName)
+        : null;
+}
+
+function asString(value: unknown): string | null {
+    return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Converts a raw Sui event into an indexed record
+ * @param event - Event from the node or a recorded fixture
+ * @returns The normalized event, or null if it is not an echo event
+ */
+export function normalizeEvent(event: RawSuiEvent): IndexedEvent | null {
+    const name = getEventName(event.type);
+    if (!name) return null;
+
+    const data = (event.parsedJson && typeof event.parsedJson === 'object'
+        ? event.parsedJson
+        : {}) as Record<string, unknown>;
+
+    let objectId: string | null = null;
+    let subject: string | null = null;
+
+    switch (name) {
+        case 'HandoutMinted':
+            objectId = asString(data.id);
+            subject = asString(data.uploader);
+            break;
+        case 'HandoutVerified':
+            objectId = asString(data.id);
+            subject = asString(data.verified_by);
+            break;
+        case 'RewardClaimed':
+            objectId = asString(data.handout_id);
+            subject = asString(data.recipient);
+            break;
+        case 'BroadcastCreated':
+            objectId = asString(data.id);
+            subject = asString(data.broadcaster);
+            break;
+        case 'CourseSponsored':
+            subject = asString(data.sponsor);
+            break;
+        case 'CourseRepApplicationSubmitted':
+            objectId = asString(data.application_id);
+            subject = asString(data.applicant);
+            break;
+        case 'CourseRepApproved':
+            objectId = asString(data.rep_id);
+            subject = asString(data.applicant);
+            break;
+        case 'CourseRepRejected':
+            objectId = asString(data.application_id);
+            subject = asString(data.applicant);
+            break;
+        case 'CourseRepRevoked':
+            objectId = asString(data.rep_id);
+            subject = asString(data.rep_address);
+            break;
+        case 'CourseRepHandedOver':
+            objectId = asString(data.new_rep_id);
+            subject = asString(data.new_rep);
+            break;
+        case 'CourseRepNominated':
+            objectId = asString(data.application_id);
+            subject = asString(data.nominee);
+            break;
+        case 'HandoutEndorsed':
+            objectId = asString(data.id);
+            subject = asString(data.endorsed_by);
+            break;
+    }
+
+    return {
+        id: `${event.id.txDigest}:${event.id.eventSeq}`,
+        name,
+        txDigest: event.id.txDigest,
+        sender: event.sender,
+        timestampMs: Number(event.timestampMs || 0),
+        courseCode: asString(data.course_code),
+        objectId,
+        subject,
+        data,
+    };
+}
@@ -0,0 +1,368 @@
+/**
+ * Indexer Store
+ * SQLite store for indexed events and the handout projection built from them
+ * Each sync writes only the rows it adds or changes
+ *
+ * Server-only: persists to INDEXER_DB_PATH (defaults to .data/indexer.db)
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { IndexedEvent, IndexedEventName } from './events';
+
+export type HandoutStatus = 'pending' | 'verified' | 'claimed';
+
+export interface IndexedHandout {
+    id: string;
+    uploader: string;
+    blobId: string;
+    courseCode: string;
+    status: HandoutStatus;
+    // Published by a lecturer; verified on mint and not eligible for rewards
+    official: boolean;
+    mintedAtMs: number;
+    verifiedBy: string | null;
+    verifierType: string | null;
+    verifiedAtMs: number | null;
+    endorsedBy: string | null;
+    rewardAmount: string | null;
+    claimedAtMs: number | null;
+}
+
+export interface EventFilter {
+    name?: IndexedEventName;
+    courseCode?: string;
+    address?: string;
+    objectId?: string;
+    fromMs?: number;
+    toMs?: number;
+    limit?: number;
+}
+
+export interface HandoutFilter {
+    courseCode?: string;
+    uploader?: string;
+    blobId?: string;
+    status?: HandoutStatus;
+    fromMs?: number;
+    toMs?: number;
+    limit?: number;
+}
+
+type EventCursor = { txDigest: string; eventSeq: string } | null;
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+// Events that update the handout projection
+const HANDOUT_EVENT_NAMES: IndexedEventName[] = ['HandoutMinted', 'HandoutVerified', 'HandoutEndorsed', 'RewardClaimed'];
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        tx_digest TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        timestamp_ms INTEGER NOT NULL,
+        course_code TEXT,
+        object_id TEXT,
+        subject TEXT,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS events_by_time ON events (timestamp_ms);
+    CREATE INDEX IF NOT EXISTS events_by_course ON events (course_code, timestamp_ms);
+    CREATE INDEX IF NOT EXISTS events_by_object ON events (object_id);
+
+    CREATE TABLE IF NOT EXISTS handouts (
+        id TEXT PRIMARY KEY,
+        uploader TEXT NOT NULL,
+        blob_id TEXT NOT NULL,
+        course_code TEXT NOT NULL,
+        status TEXT NOT NULL,
+        official INTEGER NOT NULL,
+        minted_at_ms INTEGER NOT NULL,
+        verified_by TEXT,
+        verifier_type TEXT,
+        verified_at_ms INTEGER,
+        endorsed_by TEXT,
+        reward_amount TEXT,
+        claimed_at_ms INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS handouts_by_mint ON handouts (minted_at_ms);
+    CREATE INDEX IF NOT EXISTS handouts_by_course ON handouts (course_code, minted_at_ms);
+
+    -- Per event type queryEvents cursor, so syncs resume where they stopped
+    CREATE TABLE IF NOT EXISTS cursors (
+        event_type TEXT PRIMARY KEY,
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+`;
+
+interface EventRow {
+    id: string;
+    name: IndexedEventName;
+    tx_digest: string;
+    sender: string;
+    timestamp_ms: number;
+    course_code: string | null;
+    object_id: string | null;
+    subject: string | null;
+    data: string;
+}
+
+interface HandoutRow {
+    id: string;
+    uploader: string;
+    blob_id: string;
+    course_code: string;
+    status: HandoutStatus;
+    official: number;
+    minted_at_ms: number;
+    verified_by: string | null;
+    verifier_type: string | null;
+    verified_at_ms: number | null;
+    endorsed_by: string | null;
+    reward_amount: string | null;
+    claimed_at_ms: number | null;
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+    return {
+        id: row.id,
+        name: row.name,
+        txDigest: row.tx_digest,
+        sender: row.sender,
+        timestampMs: row.timestamp_ms,
+        courseCode: row.course_code,
+        objectId: row.object_id,
+        subject: row.subject,
+        data: JSON.parse(row.data) as Record<string, unknown>,
+    };
+}
+
+function toHandout(row: HandoutRow): IndexedHandout {
+    return {
+        id: row.id,
+        uploader: row.uploader,
+        blobId: row.blob_id,
+        courseCode: row.course_code,
+        status: row.status,
+        official: row.official === 1,
+        mintedAtMs: row.minted_at_ms,
+        verifiedBy: row.verified_by,
+        verifierType: row.verifier_type,
+        verifiedAtMs: row.verified_at_ms,
+        endorsedBy: row.endorsed_by,
+        rewardAmount: row.reward_amount,
+        claimedAtMs: row.claimed_at_ms,
+    };
+}
+
+/**
+ * Collects optional WHERE clauses and their parameters
+ */
+class Conditions {
+    readonly clauses: string[] = [];
+    readonly params: unknown[] = [];
+
+    add(clause: string, ...params: unknown[]) {
+        this.clauses.push(clause);
+        this.params.push(...params);
+    }
+
+    addRange(column: string, fromMs?: number, toMs?: number) {
+        if (fromMs !== undefined) this.add(`${column} >= ?`, fromMs);
+        if (toMs !== undefined) this.add(`${column} <= ?`, toMs);
+    }
+
+    toSql(): string {
+        return this.clauses.length > 0 ? `WHERE ${this.clauses.join(' AND ')}` : '';
+    }
+}
+
+/**
+ * Parses a `from`/`to` query value given as epoch milliseconds or an ISO date
+ * @returns Milliseconds, undefined when absent, or NaN when malformed
+ */
+export function parseTimeParam(value: string | null): number | undefined {
+    if (!value) return undefined;
+    return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+export class IndexerStore {
+    private readonly db: Database.Database;
+
+    // Pass null to keep the store in memory only (fixture replays)
+    constructor(filePath: string | null) {
+        if (filePath) mkdirSync(path.dirname(filePath), { recursive: true });
+        this.db = new Database(filePath ?? ':memory:');
+        if (filePath) this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+    }
+
+    getCursor(eventType: string): EventCursor {
+        const row = this.db
+            .prepare('SELECT tx_digest, event_seq FROM cursors WHERE event_type = ?')
+            .get(eventType) as { tx_digest: string; event_seq: string } | undefined;
+        return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+    }
+
+    setCursor(eventType: string, cursor: EventCursor) {
+        if (!cursor) {
+            this.db.prepare('DELETE FROM cursors WHERE event_type = ?').run(eventType);
+            return;
+        }
+        this.db
+            .prepare('INSERT OR REPLACE INTO cursors (event_type, tx_digest, event_seq) VALUES (?, ?, ?)')
+            .run(eventType, cursor.txDigest, cursor.eventSeq);
+    }
+
+    get lastSyncedAtMs(): number | null {
+        const row = this.db.prepare(`SELECT value FROM meta WHERE key = 'last_synced_at_ms'`).get() as { value: string } | undefined;
+        return row ? Number(row.value) : null;
+    }
+
+    markSynced(timestampMs: number) {
+        this.db
+            .prepare(`INSERT OR REPLACE INTO meta (key, value) VALUES ('last_synced_at_ms', ?)`)
+            .run(String(timestampMs));
+    }
+
+    /**
+     * Records events and updates the handout projection in one transaction
+     * Events already seen are ignored, so replays are idempotent
+     * @returns Number of new events stored
+     */
+    addEvents(events: IndexedEvent[]): number {
+        const insert = this.db.prepare(`
+            INSERT OR IGNORE INTO events (id, name, tx_digest, sender, timestamp_ms, course_code, object_id, subject, data)
+            VALUES (@id, @name, @txDigest, @sender, @timestampMs, @courseCode, @objectId, @subject, @data)
+        `);
+        const ordered = [...events].sort((a, b) => a.timestampMs - b.timestampMs);
+
+        return this.db.transaction(() => {
+            let added = 0;
+            for (const event of ordered) {
+                if (insert.run({ ...event, data: JSON.stringify(event.data) }).changes === 0) continue;
+                this.applyToHandouts(event);
+                added++;
+            }
+            return added;
+        })();
+    }
+
+    private applyToHandouts(event: IndexedEvent) {
+        if (!event.objectId) return;
+        if (!HANDOUT_EVENT_NAMES.includes(event.name)) return;
+
+        const existing = this.db.prepare('SELECT * FROM handouts WHERE id = ?').get(event.objectId) as HandoutRow | undefined;
+
+        // Verification events may arrive before the mint when types sync separately
+        const handout: IndexedHandout = existing ? toHandout(existing) : {
+            id: event.objectId,
+            uploader: '',
+            blobId: '',
+            courseCode: '',
+            status: 'pending',
+            official: false,
+            mintedAtMs: 0,
+            verifiedBy: null,
+            verifierType: null,
+            verifiedAtMs: null,
+            endorsedBy: null,
+            rewardAmount: null,
+            claimedAtMs: null,
+        };
+
+        if (event.name === 'HandoutMinted') {
+            handout.uploader = event.subject || event.sender;
+            handout.blobId = String(event.data.blob_id ?? '');
+            handout.courseCode = event.courseCode || '';
+            handout.official = event.data.official === true;
+            handout.mintedAtMs = event.timestampMs;
+        } else if (event.name === 'HandoutVerified') {
+            handout.verifiedBy = event.subject;
+            handout.verifierType = typeof event.data.verifier_type === 'string' ? event.data.verifier_type : null;
+            handout.verifiedAtMs = event.timestampMs;
+            if (handout.status === 'pending') handout.status = 'verified';
+        } else if (event.name === 'HandoutEndorsed') {
+            handout.endorsedBy = event.subject;
+        } else {
+            handout.rewardAmount = String(event.data.amount ?? '0');
+            handout.claimedAtMs = event.timestampMs;
+            handout.status = 'claimed';
+            if (!handout.courseCode && event.courseCode) handout.courseCode = event.courseCode;
+        }
+
+        this.db.prepare(`
+            INSERT OR REPLACE INTO handouts (
+                id, uploader, blob_id, course_code, status, official, minted_at_ms,
+                verified_by, verifier_type, verified_at_ms, endorsed_by, reward_amount, claimed_at_ms
+            ) VALUES (
+                @id, @uploader, @blobId, @courseCode, @status, @official, @mintedAtMs,
+                @verifiedBy, @verifierType, @verifiedAtMs, @endorsedBy, @rewardAmount, @claimedAtMs
+            )
+        `).run({ ...handout, official: handout.official ? 1 : 0 });
+    }
+
+    /**
+     * Returns events matching the filter, newest first
+     */
+    queryEvents(filter: EventFilter = {}): IndexedEvent[] {
+        const where = new Conditions();
+        if (filter.name) where.add('name = ?', filter.name);
+        if (filter.courseCode) where.add('course_code = ?', filter.courseCode);
+        if (filter.objectId) where.add('object_id = ?', filter.objectId);
+        if (filter.address) {
+            const address = filter.address.toLowerCase();
+            where.add('(lower(subject) = ? OR lower(sender) = ?)', address, address);
+        }
+        where.addRange('timestamp_ms', filter.fromMs, filter.toMs);
+
+        const rows = this.db
+            .prepare(`SELECT * FROM events ${where.toSql()} ORDER BY timestamp_ms DESC LIMIT ?`)
+            .all(...where.params, filter.limit ?? DEFAULT_QUERY_LIMIT) as EventRow[];
+        return rows.map(toEvent);
+    }
+
+    /**
+     * Returns handouts matching the filter, most recently minted first
+     * The time range applies to the mint time
+     */
+    queryHandouts(filter: HandoutFilter = {}): IndexedHandout[] {
+        const where = new Conditions();
+        if (filter.courseCode) where.add('course_code = ?', filter.courseCode);
+        if (filter.uploader) where.add('lower(uploader) = ?', filter.uploader.toLowerCase());
+        if (filter.blobId) where.add('blob_id = ?', filter.blobId);
+        if (filter.status) where.add('status = ?', filter.status);
+        where.addRange('minted_at_ms', filter.fromMs, filter.toMs);
+
+        const rows = this.db
+            .prepare(`SELECT * FROM handouts ${where.toSql()} ORDER BY minted_at_ms DESC LIMIT ?`)
+            .all(...where.params, filter.limit ?? DEFAULT_QUERY_LIMIT) as HandoutRow[];
+        return rows.map(toHandout);
+    }
+
+    getStats() {
+        const counts: Partial<Record<IndexedEventName, number>> = {};
+        const rows = this.db.prepare('SELECT name, COUNT(*) AS count FROM events GROUP BY name').all() as { name: IndexedEventName; count: number }[];
+        for (const row of rows) {
+            counts[row.name] = row.count;
+        }
+
+        const { count: totalHandouts } = this.db.prepare('SELECT COUNT(*) AS count FROM handouts').get() as { count: number };
+
+        return {
+            totalEvents: rows.reduce((total, row) => total + row.count, 0),
+            totalHandouts,
+            eventCounts: counts,
+            lastSyncedAtMs: this.lastSyncedAtMs,
+        };
+    }
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import recorded from './__fixtures__/events.json';
+import type { RawSuiEvent } from './events';
+import { IndexerStore } from './store';
+import { createFixtureEventSource, syncEvents } from './sync';
+
+const PACKAGE_ID = '0x7c3a1f0e5b2d4c6a8e9f0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e';
+const EVENTS = recorded as RawSuiEvent[];
+// The first five events were recorded before the claim, the official upload and the endorsement
+const FIRST_SYNC = EVENTS.slice(0, 5);
+
+const STUDENT = '0x4f1e2d3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0';
+const STUDENT_HANDOUT = '0x2b4d6f8a0c2e4a6c8e0a2c4e6a8c0e2a4c6e8a0c2e4a6c8e0a2c4e6a8c0e2a4c';
+const ENDORSED_HANDOUT = '0x3c5e7a9b1d3f5b7d9f1b3d5f7b9d1f3b5d7f9b1d3f5b7d9f1b3d5f7b9d1f3b5d';
+const OFFICIAL_HANDOUT = '0x4d6f8b0c2e4a6c8e0a2c4e6a8c0e2a4c6e8a0c2e4a6c8e0a2c4e6a8c0e2a4c6e';
+const LECTURER = '0x5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f';
+
+const handout = (store: IndexerStore, id: string) =>
+    store.queryHandouts({ limit: 500 }).find(h => h.id === id);
+
+describe('syncEvents', () => {
+    let tmpDir: string | null = null;
+
+    afterEach(async () => {
+        if (tmpDir) await fs.rm(tmpDir, { recursive: true, force: true });
+        tmpDir = null;
+    });
+
+    it('builds the handout projection from recorded events', async () => {
+        const store = new IndexerStore(null);
+
+        expect(await syncEvents(store, createFixtureEventSource(EVENTS), PACKAGE_ID)).toBe(EVENTS.length);
+
+        expect(handout(store, STUDENT_HANDOUT)).toMatchObject({
+            uploader: STUDENT,
+            courseCode: 'CSC101',
+            status: 'claimed',
+            verifierType: 'ADMIN',
+            rewardAmount: '100000000',
+        });
+        expect(handout(store, ENDORSED_HANDOUT)).toMatchObject({ status: 'verified', endorsedBy: LECTURER });
+        expect(handout(store, OFFICIAL_HANDOUT)).toMatchObject({ status: 'verified', official: true });
+        expect(store.queryHandouts({ uploader: STUDENT })).toHaveLength(1);
+        expect(store.queryEvents({ courseCode: 'MTH201' })).toHaveLength(4);
+    });
+
+    it('resumes from the saved cursors and stores only new events', async () => {
+        const store = new IndexerStore(null);
+
+        expect(await syncEvents(store, createFixtureEventSource(FIRST_SYNC), PACKAGE_ID)).toBe(FIRST_SYNC.length);
+        expect(handout(store, STUDENT_HANDOUT)?.status).toBe('verified');
+
+        expect(await syncEvents(store, createFixtureEventSource(EVENTS), PACKAGE_ID))
+            .toBe(EVENTS.length - FIRST_SYNC.length);
+        expect(handout(store, STUDENT_HANDOUT)?.status).toBe('claimed');
+
+        expect(await syncEvents(store, createFixtureEventSource(EVENTS), PACKAGE_ID)).toBe(0);
+    });
+
+    it('resumes from cursors persisted to disk', async () => {
+        tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-'));
+        const dbPath = path.join(tmpDir, 'indexer.db');
+
+        await syncEvents(new IndexerStore(dbPath), createFixtureEventSource(FIRST_SYNC), PACKAGE_ID);
+
+        const reopened = new IndexerStore(dbPath);
+        expect(await syncEvents(reopened, createFixtureEventSource(EVENTS), PACKAGE_ID))
+            .toBe(EVENTS.length - FIRST_SYNC.length);
+        expect(reopened.queryEvents({ limit: 500 })).toHaveLength(EVENTS.length);
+    });
+
+    it('fails instead of replaying everything when a saved cursor is unknown', async () => {
+        const store = new IndexerStore(null);
+        store.setCursor(`${PACKAGE_ID}::echo::HandoutMinted`, { txDigest: 'UnknownDigest', eventSeq: '0' });
+
+        await expect(syncEvents(store, createFixtureEventSource(EVENTS), PACKAGE_ID))
+            .rejects.toThrow('Cursor UnknownDigest:0 not found');
+        expect(store.queryEvents()).toHaveLength(0);
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Indexer Sync
+ * Pulls echo events from an event source into the indexer store
+ *
+ * Sources are pluggable so the indexer can replay recorded fixtures
+ * (INDEXER_FIXTURE_PATH) instead of talking to a live node
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { INDEXED_EVENT_NAMES, normalizeEvent, type RawSuiEvent } from './events';
+import { IndexerStore } from './store';
+
+type EventCursor = { txDigest: string; eventSeq: string } | null;
+
+export interface EventPage {
+    data: RawSuiEvent[];
+    nextCursor: EventCursor;
+    hasNextPage: boolean;
+}
+
+export interface EventSource {
+    fetchEvents(eventType: string, cursor: EventCursor): Promise<EventPage>;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Reads events from a fullnode with `suix_queryEvents`, oldest first
+ */
+export function createSuiEventSource(client: SuiClient): EventSource {
+    return {
+        async fetchEvents(eventType, cursor) {
+            const page = await client.queryEvents({
+                query: { MoveEventType: eventType },
+                cursor,
+                limit: PAGE_SIZE,
+                order: 'ascending',
+            });
+            return {
+                data: page.data as RawSuiEvent[],
+                nextCursor: page.nextCursor ?? null,
+                hasNextPage: page.hasNextPage,
+            };
+        },
+    };
+}
+
+/**
+ * Serves events from a recorded JSON array of `queryEvents` results
+ * @param events - Recorded events, in any order
+ */
+export function createFixtureEventSource(events: RawSuiEvent[]): EventSource {
+    return {
+        async fetchEvents(eventType, cursor) {
+            const matching = events.filter(event => event.type === eventType);
+            let start = 0;
+            if (cursor) {
+                const index = matching.findIndex(event =>
+                    event.id.txDigest === cursor.txDigest && event.id.eventSeq === cursor.eventSeq);
+                // Restarting from 0 would silently replay every event, so refuse instead
+                if (index === -1) {
+                    throw new Error(`Cursor ${cursor.txDigest}:${cursor.eventSeq} not found in fixture events for ${eventType}`);
+                }
+                start = index + 1;
+            }
+            const data = matching.slice(start, start + PAGE_SIZE);
+            const last = data[data.length - 1];
+
+            return {
+                data,
+                nextCursor: last ? last.id : cursor,
+                hasNextPage: start + PAGE_SIZE < matching.length,
+            };
+        },
+    };
+}
+
+/**
+ * Fetches every new event for each tracked type and stores it
+ * @param store - Store to write into (cursors are read from and saved to it)
+ * @param source - Where events come from
+ * @param packageId - Package that emits the events
+ * @returns Number of new events stored
+ */
+export async function syncEvents(store: IndexerStore, source: EventSource, packageId: string): Promise<number> {
+    let added = 0;
+
+    for (const name of INDEXED_EVENT_NAMES) {
+        const eventType = `${packageId}::echo::${name}`;
+        let cursor = store.getCursor(eventType);
+        let hasNextPage = true;
+
+        while (hasNextPage) {
+            const page = await source.fetchEvents(eventType, cursor);
+            const events = page.data
+                .map(normalizeEvent)
+                .filter((event): event is NonNullable<typeof event> => event !== null);
+
+            added += store.addEvents(events);
+            cursor = page.nextCursor ?? cursor;
+            store.setCursor(eventType, cursor);
+            hasNextPage = page.hasNextPage && page.data.length > 0;
+        }
+    }
+
+    store.markSynced(Date.now());
+    return added;
+}
+
+// ========== Server Singleton ==========
+
+const SUI_NETWORK = (process.env.SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet' | 'devnet';
+const PACKAGE_ID = process.env.PACKAGE_ID || process.env.NEXT_PUBLIC_PACKAGE_ID || '';
+const INDEXER_DB_PATH = process.env.INDEXER_DB_PATH || path.join(process.cwd(), '.data', 'indexer.db');
+const INDEXER_FIXTURE_PATH = process.env.INDEXER_FIXTURE_PATH || '';
+// Queries trigger a sync when the index is older than this
+const INDEXER_MAX_AGE_MS = Number(process.env.INDEXER_MAX_AGE_MS || 30_000);
+
+let store: IndexerStore | null = null;
+let source: EventSource | null = null;
+let inflightSync: Promise<number> | null = null;
+
+async function getEventSource(): Promise<EventSource> {
+    if (source) return source;
+
+    if (INDEXER_FIXTURE_PATH) {
+        const raw = await fs.readFile(INDEXER_FIXTURE_PATH, 'utf-8');
+        source = createFixtureEventSource(JSON.parse(raw) as RawSuiEvent[]);
+    } else {
+        source = createSuiEventSource(new SuiClient({ url: getFullnodeUrl(SUI_NETWORK) }));
+    }
+    return source;
+}
+
+export function getIndexerStore(): IndexerStore {
+    // Fixture replays stay in memory so they never pollute the real database
+    store ??= new IndexerStore(INDEXER_FIXTURE_PATH ? null : INDEXER_DB_PATH);
+    return store;
+}
+
+/**
+ * Runs a sync, sharing it with any sync already in progress
+ */
+export function syncIndexer(): Promise<number> {
+    if (!PACKAGE_ID) {
+        return Promise.reject(new Error('PACKAGE_ID not configured'));
+    }
+
+    inflightSync ??= getEventSource()
+        .then(eventSource => syncEvents(getIndexerStore(), eventSource, PACKAGE_ID))
+        .finally(() => { inflightSync = null; });
+    return inflightSync;
+}
+
+/**
+ * Returns the store, syncing first if the index is stale
+ * A failed sync still serves whatever is already indexed
+ */
+export async function getFreshIndexerStore(): Promise<IndexerStore> {
+    const indexerStore = getIndexerStore();
+
+    const lastSynced = indexerStore.lastSyncedAtMs;
+    if (!lastSynced || Date.now() - lastSynced > INDEXER_MAX_AGE_MS) {
+        try {
+            await syncIndexer();
+        } catch (error) {
+            console.error('[Indexer] Sync failed, serving cached index', { error: error instanceof Error ? error.message : error });
+        }
+    }
+
+    return indexerStore;
+}
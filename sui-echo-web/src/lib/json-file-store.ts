@@ -0,0 +1,40 @@
+/**
+ * JSON File Store
+ * Reads and atomically writes a single JSON document on disk
+ *
+ * Backs the server-side stores under .data/ (sponsor quotas, reading progress, audio tracks)
+ * Server-only
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export class JsonFileStore<T> {
+    // Pass null to keep nothing on disk: reads find nothing and writes are skipped
+    constructor(private readonly filePath: string | null) { }
+
+    /**
+     * @returns The stored document, or null if none has been written yet
+     */
+    async read(): Promise<T | null> {
+        if (!this.filePath) return null;
+
+        try {
+            const raw = await fs.readFile(this.filePath, 'utf-8');
+            return JSON.parse(raw) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async write(value: T): Promise<void> {
+        if (!this.filePath) return;
+
+        // Write to a temp file first so a crash never leaves a truncated database
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(value));
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Handout Languages
+ * Languages handouts can be scanned and read in, with the Tesseract language pack
+ * and speech locale for each, and the user's preferred language in localStorage
+ */
+
+const LANGUAGE_KEY = "sui_echo_language";
+// Fired on this tab when the preference changes; other tabs get a storage event
+const LANGUAGE_CHANGE_EVENT = "sui-echo-language-change";
+
+export const DEFAULT_LANGUAGE_CODE = "en";
+// Latin-script fallback for languages without their own traineddata
+const FALLBACK_OCR_LANGUAGE = "eng";
+
+export interface HandoutLanguage {
+    // BCP 47 primary tag, stored in the handout document's `language`
+    code: string;
+    // Name in the language itself, for pickers
+    label: string;
+    // Tesseract traineddata, or null when none is published
+    ocrLanguage: string | null;
+    // Locale for speech synthesis and recognition, with regional voices preferred
+    speechLocale: string;
+}
+
+export const HANDOUT_LANGUAGES: HandoutLanguage[] = [
+    { code: "en", label: "English", ocrLanguage: "eng", speechLocale: "en-NG" },
+    { code: "fr", label: "Français", ocrLanguage: "fra", speechLocale: "fr-FR" },
+    { code: "yo", label: "Yorùbá", ocrLanguage: null, speechLocale: "yo-NG" },
+    { code: "ha", label: "Hausa", ocrLanguage: null, speechLocale: "ha-NG" },
+    { code: "ig", label: "Igbo", ocrLanguage: null, speechLocale: "ig-NG" },
+];
+
+function primaryTag(tag: string): string {
+    return tag.replace("_", "-").split("-")[0].toLowerCase();
+}
+
+/**
+ * Looks up a language by tag ("yo", "yo-NG"), falling back to English
+ */
+export function getHandoutLanguage(tag: string | null | undefined): HandoutLanguage {
+    const code = primaryTag(tag || DEFAULT_LANGUAGE_CODE);
+    return HANDOUT_LANGUAGES.find(language => language.code === code) ?? HANDOUT_LANGUAGES[0];
+}
+
+/**
+ * Tesseract language pack for a language tag
+ */
+export function getOcrLanguage(tag: string | null | undefined): string {
+    return getHandoutLanguage(tag).ocrLanguage ?? FALLBACK_OCR_LANGUAGE;
+}
+
+export function getPreferredLanguage(): string {
+    try {
+        return getHandoutLanguage(window.localStorage.getItem(LANGUAGE_KEY)).code;
+    } catch {
+        return DEFAULT_LANGUAGE_CODE;
+    }
+}
+
+export function setPreferredLanguage(code: string): void {
+    window.localStorage.setItem(LANGUAGE_KEY, getHandoutLanguage(code).code);
+    window.dispatchEvent(new Event(LANGUAGE_CHANGE_EVENT));
+}
+
+/**
+ * Watches the preferred language, for useSyncExternalStore with getPreferredLanguage
+ */
+export function subscribeToPreferredLanguage(onChange: () => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+        if (event.key === LANGUAGE_KEY) onChange();
+    };
+    window.addEventListener(LANGUAGE_CHANGE_EVENT, onChange);
+    window.addEventListener("storage", onStorage);
+    return () => {
+        window.removeEventListener(LANGUAGE_CHANGE_EVENT, onChange);
+        window.removeEventListener("storage", onStorage);
+    };
+}
+
+/**
+ * Installed voices that speak a language, regional voices (e.g. en-NG) first
+ */
+export function getVoicesForLanguage(voices: SpeechSynthesisVoice[], tag: string | null | undefined): SpeechSynthesisVoice[] {
+    const { code, speechLocale } = getHandoutLanguage(tag);
+    const locale = speechLocale.toLowerCase();
+    return voices
+        .filter(voice => primaryTag(voice.lang) === code)
+        .sort((a, b) => Number(b.lang.replace("_", "-").toLowerCase() === locale) - Number(a.lang.replace("_", "-").toLowerCase() === locale));
+}
+
+/**
+ * Best voice for a language, or null to let the browser choose from `utterance.lang`
+ */
+export function pickVoice(voices: SpeechSynthesisVoice[], tag: string | null | undefined): SpeechSynthesisVoice | null {
+    return getVoicesForLanguage(voices, tag)[0] ?? null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Lecturer Helpers
+ * Reads the LecturerCap objects issued by the admin and the handouts lecturers can endorse
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import { TYPES } from "@/lib/contract";
+import type { IndexedHandout } from "@/lib/indexer/store";
+
+export interface LecturerCapInfo {
+    id: string;
+    name: string;
+    courseCodes: string[];
+}
+
+interface LecturerCapFields {
+    name: string;
+    course_codes: string[];
+}
+
+/**
+ * Returns the lecturer caps owned by an address
+ */
+export async function getLecturerCaps(client: SuiClient, address: string): Promise<LecturerCapInfo[]> {
+    const owned = await client.getOwnedObjects({
+        owner: address,
+        filter: { StructType: TYPES.LecturerCap },
+        options: { showContent: true },
+    });
+
+    const caps: LecturerCapInfo[] = [];
+    for (const obj of owned.data) {
+        const content = obj.data?.content;
+        if (content?.dataType !== "moveObject") continue;
+
+        const fields = content.fields as unknown as LecturerCapFields;
+        caps.push({
+            id: obj.data!.objectId,
+            name: fields.name,
+            courseCodes: fields.course_codes,
+        });
+    }
+    return caps;
+}
+
+/**
+ * Lists student handouts in the lecturer's courses that are waiting for an endorsement
+ * Reads the server-side indexer, so it only sees handouts minted before the last sync
+ */
+export async function fetchEndorsableHandouts(courseCodes: string[]): Promise<IndexedHandout[]> {
+    const results = await Promise.all(courseCodes.map(async courseCode => {
+        const response = await fetch(`/api/handouts?course=${encodeURIComponent(courseCode)}`);
+        if (!response.ok) throw new Error(`Failed to load handouts for ${courseCode}`);
+        const { handouts } = await response.json() as { handouts: IndexedHandout[] };
+        return handouts;
+    }));
+
+    return results
+        .flat()
+        .filter(handout => !handout.official && !handout.endorsedBy)
+        .sort((a, b) => b.mintedAtMs - a.mintedAtMs);
+}
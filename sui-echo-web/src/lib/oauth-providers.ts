@@ -0,0 +1,105 @@
+/**
+ * zkLogin OAuth Providers
+ * The OpenID providers Sui accepts for zkLogin, how to request an ID token from each and how to
+ * recognise and verify the tokens they issue
+ *
+ * Shared by the browser login flow (utils/zklogin-proof) and server token checks (lib/zklogin-auth)
+ */
+
+import { MICROSOFT_TENANT, OAUTH_CLIENT_IDS } from "@/config";
+
+export type OAuthProviderId = keyof typeof OAUTH_CLIENT_IDS;
+
+export interface OAuthProvider {
+    id: OAuthProviderId;
+    name: string;
+    authorizeUrl: string;
+    // Authorize parameters besides client_id, redirect_uri, nonce, state and prompt
+    params: Record<string, string>;
+    // Honours prompt=none and login_hint, so sessions can be renewed without UI
+    supportsSilentLogin: boolean;
+    // Enoki issues salts and proofs for this provider; others use the local salt and the prover service
+    enokiSupported: boolean;
+    jwksUrl: string;
+    // Whether an ID token's `iss` claim came from this provider
+    matchesIssuer: (iss: string) => boolean;
+}
+
+export const OAUTH_PROVIDERS: Record<OAuthProviderId, OAuthProvider> = {
+    google: {
+        id: "google",
+        name: "Google",
+        authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+        params: { response_type: "id_token", scope: "openid email profile" },
+        supportsSilentLogin: true,
+        enokiSupported: true,
+        jwksUrl: "https://www.googleapis.com/oauth2/v3/certs",
+        matchesIssuer: iss => iss === "https://accounts.google.com" || iss === "accounts.google.com",
+    },
+    microsoft: {
+        id: "microsoft",
+        name: "Microsoft",
+        authorizeUrl: `https://login.microsoftonline.com/${MICROSOFT_TENANT}/oauth2/v2.0/authorize`,
+        params: { response_type: "id_token", response_mode: "fragment", scope: "openid email profile" },
+        supportsSilentLogin: true,
+        enokiSupported: false,
+        jwksUrl: `https://login.microsoftonline.com/${MICROSOFT_TENANT}/discovery/v2.0/keys`,
+        // Tokens name the user's own tenant
+        matchesIssuer: iss => /^https:\/\/login\.microsoftonline\.com\/[0-9a-f-]+\/v2\.0$/.test(iss),
+    },
+    apple: {
+        id: "apple",
+        name: "Apple",
+        authorizeUrl: "https://appleid.apple.com/auth/authorize",
+        // Apple only returns tokens in the fragment when no scope is requested
+        params: { response_type: "code id_token", response_mode: "fragment" },
+        supportsSilentLogin: false,
+        enokiSupported: false,
+        jwksUrl: "https://appleid.apple.com/auth/keys",
+        matchesIssuer: iss => iss === "https://appleid.apple.com",
+    },
+    facebook: {
+        id: "facebook",
+        name: "Facebook",
+        authorizeUrl: "https://www.facebook.com/v19.0/dialog/oauth",
+        params: { response_type: "id_token", scope: "openid" },
+        supportsSilentLogin: false,
+        enokiSupported: true,
+        jwksUrl: "https://www.facebook.com/.well-known/oauth/openid/jwks/",
+        matchesIssuer: iss => iss === "https://www.facebook.com",
+    },
+    twitch: {
+        id: "twitch",
+        name: "Twitch",
+        authorizeUrl: "https://id.twitch.tv/oauth2/authorize",
+        params: {
+            response_type: "id_token",
+            scope: "openid",
+            // Twitch leaves email out of the ID token unless asked
+            claims: JSON.stringify({ id_token: { email: null } }),
+        },
+        supportsSilentLogin: false,
+        enokiSupported: true,
+        jwksUrl: "https://id.twitch.tv/oauth2/keys",
+        matchesIssuer: iss => iss === "https://id.twitch.tv/oauth2",
+    },
+};
+
+export function getOAuthClientId(providerId: OAuthProviderId): string {
+    return OAUTH_CLIENT_IDS[providerId];
+}
+
+/**
+ * Providers with a client ID configured, in picker order
+ */
+export function getConfiguredOAuthProviders(): OAuthProvider[] {
+    return Object.values(OAUTH_PROVIDERS).filter(provider => getOAuthClientId(provider.id));
+}
+
+export function getOAuthProviderForIssuer(iss: string): OAuthProvider | null {
+    return Object.values(OAUTH_PROVIDERS).find(provider => provider.matchesIssuer(iss)) ?? null;
+}
+
+export function isOAuthProviderId(value: string): value is OAuthProviderId {
+    return Object.hasOwn(OAUTH_PROVIDERS, value);
+}
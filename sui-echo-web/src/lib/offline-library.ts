@@ -0,0 +1,134 @@
+/**
+ * Offline Library
+ * Keeps downloaded handouts (blob content and metadata) in IndexedDB so they can be read without a connection
+ *
+ * The service worker in public/sw.js reads the same database to answer aggregator blob requests offline,
+ * so keep OFFLINE_DB_NAME and HANDOUT_STORE in sync with it
+ */
+
+import { withStore as withDatabaseStore, type IndexedDbSchema } from "@/lib/indexed-db";
+import { fetchFromWalrus } from "@/lib/walrus";
+
+const OFFLINE_DB_NAME = "sui-echo-offline";
+const OFFLINE_DB_VERSION = 1;
+const HANDOUT_STORE = "handouts";
+const SERVICE_WORKER_URL = "/sw.js";
+
+export interface OfflineHandout {
+    blobId: string;
+    // Handout object ID on chain, when saved from the handouts page
+    handoutId: string | null;
+    title: string;
+    courseCode: string;
+    language: string;
+    // Raw blob content as stored on Walrus (see lib/handout-document)
+    content: string;
+    size: number;
+    savedAt: number;
+}
+
+export interface StorageUsage {
+    // Bytes taken by saved handout content
+    handoutBytes: number;
+    // Whole-origin figures from the browser; null where unsupported
+    usage: number | null;
+    quota: number | null;
+    persisted: boolean;
+}
+
+const OFFLINE_DB: IndexedDbSchema = {
+    name: OFFLINE_DB_NAME,
+    version: OFFLINE_DB_VERSION,
+    upgrade: db => db.createObjectStore(HANDOUT_STORE, { keyPath: "blobId" }),
+};
+
+function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return withDatabaseStore(OFFLINE_DB, HANDOUT_STORE, mode, run);
+}
+
+/**
+ * Stores a handout for offline reading, replacing any earlier copy of the same blob
+ */
+export async function saveHandoutOffline(handout: Omit<OfflineHandout, "size" | "savedAt">): Promise<OfflineHandout> {
+    const saved: OfflineHandout = { ...handout, size: new Blob([handout.content]).size, savedAt: Date.now() };
+    await withStore("readwrite", store => store.put(saved));
+
+    // Ask the browser not to evict the library under storage pressure; it may decline
+    await navigator.storage?.persist?.().catch(() => false);
+    return saved;
+}
+
+export async function getOfflineHandout(blobId: string): Promise<OfflineHandout | null> {
+    return (await withStore<OfflineHandout | undefined>("readonly", store => store.get(blobId))) ?? null;
+}
+
+/**
+ * All saved handouts, most recently saved first
+ */
+export async function listOfflineHandouts(): Promise<OfflineHandout[]> {
+    const handouts = await withStore<OfflineHandout[]>("readonly", store => store.getAll());
+    return handouts.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function removeOfflineHandout(blobId: string): Promise<void> {
+    await withStore("readwrite", store => store.delete(blobId));
+}
+
+export async function getStorageUsage(handouts: OfflineHandout[]): Promise<StorageUsage> {
+    const handoutBytes = handouts.reduce((total, handout) => total + handout.size, 0);
+    const estimate = await navigator.storage?.estimate?.().catch(() => null);
+    const persisted = await navigator.storage?.persisted?.().catch(() => false);
+    return {
+        handoutBytes,
+        usage: estimate?.usage ?? null,
+        quota: estimate?.quota ?? null,
+        persisted: persisted ?? false,
+    };
+}
+
+/**
+ * Loads handout content, preferring the saved copy
+ * Walrus blobs never change once written, so a saved copy is always current
+ */
+export async function loadHandoutContent(blobId: string): Promise<string> {
+    try {
+        const saved = await getOfflineHandout(blobId);
+        if (saved) return saved.content;
+    } catch (error) {
+        console.warn("[Offline] Failed to read offline library:", error);
+    }
+    return fetchFromWalrus(blobId);
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// ========== Service Worker ==========
+
+/**
+ * Registers the service worker that serves the reader and saved handouts offline
+ * Skipped in development, where cached assets would go stale between edits
+ */
+export async function registerOfflineWorker(): Promise<void> {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    try {
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    } catch (error) {
+        console.warn("[Offline] Service worker registration failed:", error);
+    }
+}
+
+/**
+ * Asks the service worker to cache the reader and library pages with their assets,
+ * so a handout saved now can be opened after connectivity drops
+ */
+export async function cacheOfflinePages(): Promise<void> {
+    if (!("serviceWorker" in navigator)) return;
+    const registration = await navigator.serviceWorker.getRegistration();
+    registration?.active?.postMessage({ type: "cache-offline-pages" });
+}
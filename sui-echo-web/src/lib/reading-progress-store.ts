@@ -0,0 +1,57 @@
+/**
+ * Reading Progress Store
+ * File-backed store of synced reading progress, keyed by account address and blob ID
+ *
+ * Server-only: persists to READING_PROGRESS_DB_PATH (defaults to .data/reading-progress.json)
+ */
+
+import path from 'path';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { newerReadingProgress, type ReadingProgress } from './reading-progress';
+
+const READING_PROGRESS_DB_PATH = process.env.READING_PROGRESS_DB_PATH || path.join(process.cwd(), '.data', 'reading-progress.json');
+
+type ReadingProgressState = Record<string, Record<string, ReadingProgress>>;
+
+export class ReadingProgressStore {
+    private state: ReadingProgressState = {};
+    private loaded = false;
+
+    private readonly file: JsonFileStore<ReadingProgressState>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileStore(filePath);
+    }
+
+    async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        this.state = await this.file.read() ?? this.state;
+    }
+
+    async save(): Promise<void> {
+        await this.file.write(this.state);
+    }
+
+    get(address: string, blobId: string): ReadingProgress | null {
+        return this.state[address]?.[blobId] ?? null;
+    }
+
+    /**
+     * Stores progress unless a newer copy is already stored
+     * @returns The copy now stored
+     */
+    put(address: string, progress: ReadingProgress): ReadingProgress {
+        const stored = newerReadingProgress(this.get(address, progress.blobId), progress)!;
+        this.state[address] = { ...this.state[address], [progress.blobId]: stored };
+        return stored;
+    }
+}
+
+let store: ReadingProgressStore | null = null;
+
+export function getReadingProgressStore(): ReadingProgressStore {
+    store ??= new ReadingProgressStore(READING_PROGRESS_DB_PATH);
+    return store;
+}
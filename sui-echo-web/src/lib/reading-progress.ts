@@ -0,0 +1,142 @@
+/**
+ * Reading Progress
+ * Remembers the last sentence read and named bookmarks per handout blob in localStorage,
+ * and syncs them to /api/reading-progress for zkLogin users so they follow the account
+ */
+
+
+const PROGRESS_KEY = "sui_echo_reading_progress";
+const MAX_BOOKMARKS = 100;
+const MAX_BOOKMARK_NAME_LENGTH = 80;
+
+export interface ReadingBookmark {
+    id: string;
+    name: string;
+    // Position in the reading queue (see lib/reading-queue)
+    sentenceIndex: number;
+    createdAt: number;
+}
+
+export interface ReadingProgress {
+    blobId: string;
+    sentenceIndex: number;
+    // Bumped on every change; the newer copy wins when local and synced progress differ
+    updatedAt: number;
+    bookmarks: ReadingBookmark[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIndex(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Checks progress received from a client or storage
+ * @returns A problem description, or null when valid
+ */
+export function validateReadingProgress(value: unknown): string | null {
+    if (!isRecord(value)) return "expected an object";
+    if (typeof value.blobId !== "string" || !value.blobId || value.blobId.length > 200) return "blobId: expected a blob ID";
+    if (!isIndex(value.sentenceIndex)) return "sentenceIndex: expected a non-negative integer";
+    if (!isIndex(value.updatedAt)) return "updatedAt: expected a timestamp";
+    if (!Array.isArray(value.bookmarks) || value.bookmarks.length > MAX_BOOKMARKS) {
+        return `bookmarks: expected at most ${MAX_BOOKMARKS} bookmarks`;
+    }
+
+    for (const bookmark of value.bookmarks) {
+        if (!isRecord(bookmark) || typeof bookmark.id !== "string" || !isIndex(bookmark.sentenceIndex) || !isIndex(bookmark.createdAt)) {
+            return "bookmarks: expected id, sentenceIndex and createdAt";
+        }
+        if (typeof bookmark.name !== "string" || !bookmark.name.trim() || bookmark.name.length > MAX_BOOKMARK_NAME_LENGTH) {
+            return `bookmarks: names must be 1-${MAX_BOOKMARK_NAME_LENGTH} characters`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Picks the more recently updated of two copies
+ */
+export function newerReadingProgress(a: ReadingProgress | null, b: ReadingProgress | null): ReadingProgress | null {
+    if (!a || !b) return a ?? b;
+    return b.updatedAt > a.updatedAt ? b : a;
+}
+
+function readAll(): Record<string, ReadingProgress> {
+    try {
+        const stored = window.localStorage.getItem(PROGRESS_KEY);
+        return stored ? (JSON.parse(stored) as Record<string, ReadingProgress>) : {};
+    } catch {
+        return {};
+    }
+}
+
+export function getLocalReadingProgress(blobId: string): ReadingProgress | null {
+    const progress = readAll()[blobId];
+    return progress && validateReadingProgress(progress) === null ? progress : null;
+}
+
+export function saveLocalReadingProgress(progress: ReadingProgress): void {
+    window.localStorage.setItem(PROGRESS_KEY, JSON.stringify({ ...readAll(), [progress.blobId]: progress }));
+}
+
+/**
+ * Finds the bookmark best matching a spoken name: exact, then prefix, then containing
+ */
+export function findBookmark(bookmarks: ReadingBookmark[], spokenName: string): ReadingBookmark | null {
+    const name = spokenName.trim().toLowerCase();
+    if (!name) return null;
+    const names = bookmarks.map(bookmark => bookmark.name.trim().toLowerCase());
+    const index = [
+        names.findIndex(candidate => candidate === name),
+        names.findIndex(candidate => candidate.startsWith(name) || name.startsWith(candidate)),
+        names.findIndex(candidate => candidate.includes(name) || name.includes(candidate)),
+    ].find(i => i !== -1);
+    return index === undefined ? null : bookmarks[index];
+}
+
+// ========== Account Sync ==========
+
+/**
+ * Loads progress synced to the signed-in account
+ * @param authHeaders - zkLogin or wallet credentials (useEchoSigner's getAuthHeaders); null when signed out
+ * @returns null when signed out or when sync is unavailable
+ */
+export async function fetchSyncedReadingProgress(blobId: string, authHeaders: Record<string, string> | null): Promise<ReadingProgress | null> {
+    if (!authHeaders) return null;
+
+    try {
+        const response = await fetch(`/api/reading-progress?blobId=${encodeURIComponent(blobId)}`, { headers: authHeaders });
+        if (!response.ok) {
+            console.warn("[Reading] Synced progress unavailable:", response.status);
+            return null;
+        }
+        const { progress } = await response.json();
+        return progress && validateReadingProgress(progress) === null ? progress : null;
+    } catch (error) {
+        console.warn("[Reading] Failed to load synced progress:", error);
+        return null;
+    }
+}
+
+/**
+ * Saves progress to the signed-in account; does nothing when signed out
+ */
+export async function pushReadingProgress(progress: ReadingProgress, authHeaders: Record<string, string> | null): Promise<void> {
+    if (!authHeaders) return;
+
+    try {
+        const response = await fetch("/api/reading-progress", {
+            method: "PUT",
+            headers: { ...authHeaders, "Content-Type": "application/json" },
+            body: JSON.stringify(progress),
+            keepalive: true,
+        });
+        if (!response.ok) console.warn("[Reading] Failed to sync progress:", response.status);
+    } catch (error) {
+        console.warn("[Reading] Failed to sync progress:", error);
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * Reading Queue
+ * Splits a handout document into the sentences the reader speaks one utterance at a time,
+ * so playback can seek by sentence or paragraph and highlight what is being read
+ */
+
+import type { HandoutDocument } from "@/lib/handout-document";
+import { verbalizeLatex } from "@/lib/equations";
+
+export interface ReadingSegment {
+    pageIndex: number;
+    blockIndex: number;
+    // Counts blocks across the whole document; skipping by paragraph moves between these
+    paragraph: number;
+    // Text as shown in the transcript, including trailing whitespace so segments rejoin exactly
+    displayText: string;
+    // Text handed to speech synthesis
+    spokenText: string;
+}
+
+// Sentence ends followed by whitespace; keeps closing quotes and brackets with the sentence
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["')\]]*\s*|$)|[.!?]+\s*/g;
+
+/**
+ * Splits text into sentences, keeping each sentence's trailing whitespace
+ * Uses Intl.Segmenter where available so abbreviations are handled per language
+ */
+export function splitSentences(text: string, language?: string): string[] {
+    if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+        const segmenter = new Intl.Segmenter(language, { granularity: "sentence" });
+        return Array.from(segmenter.segment(text), segment => segment.segment).filter(sentence => sentence.trim());
+    }
+    return (text.match(SENTENCE_PATTERN) ?? []).filter(sentence => sentence.trim());
+}
+
+/**
+ * Builds the speaking order for a document: headings and equations are one segment each,
+ * paragraphs are split into sentences
+ */
+export function buildReadingQueue(document: HandoutDocument): ReadingSegment[] {
+    const segments: ReadingSegment[] = [];
+    let paragraph = 0;
+
+    document.pages.forEach((page, pageIndex) => {
+        page.blocks.forEach((block, blockIndex) => {
+            if (!block.text.trim()) return;
+
+            if (block.type === "paragraph") {
+                for (const sentence of splitSentences(block.text, document.language)) {
+                    segments.push({ pageIndex, blockIndex, paragraph, displayText: sentence, spokenText: sentence.trim() });
+                }
+            } else {
+                const spokenText = block.type === "math" ? verbalizeLatex(block.text) : block.text.trim();
+                segments.push({ pageIndex, blockIndex, paragraph, displayText: block.text, spokenText });
+            }
+            paragraph++;
+        });
+    });
+
+    return segments;
+}
+
+/**
+ * Segment to move to when skipping by paragraph
+ * Going back from mid-paragraph returns to that paragraph's start first
+ */
+export function findParagraphSegment(segments: ReadingSegment[], index: number, direction: 1 | -1): number {
+    const current = segments[index];
+    if (!current) return index;
+
+    if (direction === 1) {
+        const next = segments.findIndex((segment, i) => i > index && segment.paragraph > current.paragraph);
+        return next === -1 ? index : next;
+    }
+
+    const start = segments.findIndex(segment => segment.paragraph === current.paragraph);
+    if (start < index) return start;
+    const previous = segments[start - 1];
+    return previous ? segments.findIndex(segment => segment.paragraph === previous.paragraph) : start;
+}
+
+/**
+ * First segment on a page, or -1 if the page has nothing to read
+ */
+export function findPageSegment(segments: ReadingSegment[], pageIndex: number): number {
+    return segments.findIndex(segment => segment.pageIndex === pageIndex);
+}
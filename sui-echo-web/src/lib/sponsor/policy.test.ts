@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import { checkQuotas, checkSender, checkTransactionKind, type SponsorQuotaLimits } from './policy';
+import { SponsorQuotaStore } from './quotas';
+
+const PACKAGE = '0x2a';
+const MINT = `${PACKAGE}::echo::mint_handout`;
+const CLAIM = `${PACKAGE}::echo::claim_reward`;
+const ALLOWED_TARGETS = [MINT, CLAIM];
+
+const SENDER = '0x' + 'b'.repeat(64);
+const OTHER = '0x' + 'c'.repeat(64);
+
+const LIMITS: SponsorQuotaLimits = {
+    transactionsPerAddress: 3,
+    callsPerFunction: { claim_reward: 1 },
+    defaultCallsPerFunction: 2,
+};
+
+async function buildKind(build: (tx: Transaction) => void): Promise<string> {
+    const tx = new Transaction();
+    build(tx);
+    return toBase64(await tx.build({ onlyTransactionKind: true }));
+}
+
+const mintCall = (tx: Transaction) => tx.moveCall({
+    target: MINT,
+    arguments: [tx.pure.string('walrus-blob-0001'), tx.pure.string('Notes'), tx.pure.string('CSC101')],
+});
+
+describe('checkTransactionKind', () => {
+    it('allows calls to sponsored targets, comparing padded and short package IDs', async () => {
+        const check = checkTransactionKind(await buildKind(mintCall), [`0x${'0'.repeat(62)}2a::echo::mint_handout`]);
+
+        expect(check).toEqual({
+            allowed: true,
+            moveCalls: [{ target: `0x${'0'.repeat(62)}2a::echo::mint_handout`, functionName: 'mint_handout' }],
+        });
+    });
+
+    it('rejects calls to targets outside the allowlist', async () => {
+        const kind = await buildKind(tx => {
+            mintCall(tx);
+            tx.moveCall({ target: `${PACKAGE}::echo::set_reward_amount`, arguments: [tx.pure.u64(1)] });
+        });
+
+        const check = checkTransactionKind(kind, ALLOWED_TARGETS);
+        expect(check.allowed).toBe(false);
+        if (!check.allowed) {
+            expect(check.rejection).toMatchObject({ code: 'target_not_allowed', command: 1 });
+        }
+    });
+
+    it('rejects commands other than Move calls', async () => {
+        const kind = await buildKind(tx => {
+            const [coin] = tx.splitCoins(tx.gas, [1_000]);
+            tx.transferObjects([coin], OTHER);
+        });
+
+        const check = checkTransactionKind(kind, ALLOWED_TARGETS);
+        expect(check.allowed).toBe(false);
+        if (!check.allowed) {
+            expect(check.rejection).toMatchObject({ code: 'command_not_allowed', command: 0 });
+        }
+    });
+
+    it('rejects Move calls that take the gas coin', async () => {
+        const kind = await buildKind(tx => tx.moveCall({ target: CLAIM, arguments: [tx.gas] }));
+
+        const check = checkTransactionKind(kind, ALLOWED_TARGETS);
+        expect(check.allowed).toBe(false);
+        if (!check.allowed) expect(check.rejection.code).toBe('gas_coin_not_allowed');
+    });
+
+    it('rejects bytes that are not a transaction kind', () => {
+        const check = checkTransactionKind(toBase64(new Uint8Array([0xff, 0xff])), ALLOWED_TARGETS);
+
+        expect(check.allowed).toBe(false);
+        if (!check.allowed) expect(check.rejection.code).toBe('invalid_transaction');
+    });
+});
+
+describe('checkSender', () => {
+    it('accepts the signed-in address in any casing or padding', () => {
+        expect(checkSender('0x2a', '0x' + '0'.repeat(62) + '2A')).toBeNull();
+    });
+
+    it('rejects a sender other than the signed-in account', () => {
+        expect(checkSender(SENDER, OTHER)?.code).toBe('sender_mismatch');
+    });
+});
+
+describe('checkQuotas', () => {
+    const mint = { target: MINT, functionName: 'mint_handout' };
+    const claim = { target: CLAIM, functionName: 'claim_reward' };
+    const noon = Date.UTC(2026, 0, 15, 12);
+
+    it('allows calls within the daily limits', () => {
+        expect(checkQuotas({ transactions: 2, functions: { mint_handout: 1 } }, [mint], LIMITS, noon)).toBeNull();
+    });
+
+    it('rejects once the address has used its transactions for the day', () => {
+        const rejection = checkQuotas({ transactions: 3, functions: {} }, [mint], LIMITS, noon);
+
+        expect(rejection).toMatchObject({
+            code: 'address_quota_exceeded',
+            limit: 3,
+            resetsAt: '2026-01-16T00:00:00.000Z',
+        });
+    });
+
+    it('applies per-function overrides and counts repeated calls in one transaction', () => {
+        expect(checkQuotas({ transactions: 0, functions: {} }, [claim, claim], LIMITS, noon)).toMatchObject({
+            code: 'function_quota_exceeded',
+            target: CLAIM,
+            limit: 1,
+        });
+        expect(checkQuotas({ transactions: 0, functions: { mint_handout: 1 } }, [mint, mint], LIMITS, noon)?.code)
+            .toBe('function_quota_exceeded');
+    });
+
+    it('starts counting again after midnight UTC', () => {
+        const store = new SponsorQuotaStore('unused.json');
+        const lateEvening = Date.UTC(2026, 0, 15, 23, 59);
+        for (let i = 0; i < LIMITS.transactionsPerAddress; i++) {
+            store.record(SENDER, ['mint_handout'], lateEvening);
+        }
+        expect(checkQuotas(store.getUsage(SENDER, lateEvening), [mint], LIMITS, lateEvening)?.code)
+            .toBe('address_quota_exceeded');
+
+        const nextMorning = Date.UTC(2026, 0, 16, 0, 1);
+        expect(store.getUsage(SENDER, nextMorning)).toEqual({ transactions: 0, functions: {} });
+        expect(checkQuotas(store.getUsage(SENDER, nextMorning), [mint], LIMITS, nextMorning)).toBeNull();
+    });
+});
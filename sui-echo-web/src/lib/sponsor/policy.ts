@@ -0,0 +1,173 @@
+/**
+ * Sponsor Policy
+ * Decides whether /api/sponsor pays gas for a transaction: only programmable transactions made
+ * entirely of calls to echo module targets, sent by the signed-in zkLogin or wallet user, within daily quotas
+ *
+ * Rejections carry a stable code so clients can tell users why sponsorship was refused
+ */
+
+import { bcs } from '@mysten/sui/bcs';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import { PACKAGE_ID, TARGETS } from '@/lib/contract';
+import { getQuotaResetTime, type SponsorUsage } from './quotas';
+
+export type SponsorRejectionCode =
+    | 'invalid_transaction'
+    | 'unsupported_transaction_kind'
+    | 'command_not_allowed'
+    | 'target_not_allowed'
+    | 'gas_coin_not_allowed'
+    | 'sender_mismatch'
+    | 'address_quota_exceeded'
+    | 'function_quota_exceeded';
+
+export interface SponsorRejection {
+    code: SponsorRejectionCode;
+    message: string;
+    // Index of the offending command in the transaction
+    command?: number;
+    target?: string;
+    limit?: number;
+    resetsAt?: string;
+}
+
+export interface SponsoredMoveCall {
+    target: string;
+    functionName: string;
+}
+
+export type TransactionKindCheck =
+    | { allowed: true; moveCalls: SponsoredMoveCall[] }
+    | { allowed: false; rejection: SponsorRejection };
+
+export interface SponsorQuotaLimits {
+    transactionsPerAddress: number;
+    // Move calls per address per day for each function; functions not listed use defaultCallsPerFunction
+    callsPerFunction: Record<string, number>;
+    defaultCallsPerFunction: number;
+}
+
+/**
+ * Normalizes `package::module::function` so short and padded package IDs compare equal
+ */
+export function normalizeMoveTarget(target: string): string {
+    const [packageId, ...rest] = target.split('::');
+    return [normalizeSuiAddress(packageId), ...rest].join('::');
+}
+
+function reject(rejection: SponsorRejection): TransactionKindCheck {
+    return { allowed: false, rejection };
+}
+
+/**
+ * Decodes base64 transaction kind bytes and checks every command against the allowed targets
+ * The gas coin belongs to the sponsor, so no command may take it as an argument
+ */
+export function checkTransactionKind(transactionKindBytes: string, allowedTargets: string[]): TransactionKindCheck {
+    let kind: ReturnType<typeof bcs.TransactionKind.parse>;
+    try {
+        kind = bcs.TransactionKind.parse(fromBase64(transactionKindBytes));
+    } catch {
+        return reject({ code: 'invalid_transaction', message: 'Transaction kind bytes could not be decoded' });
+    }
+
+    if (kind.$kind !== 'ProgrammableTransaction') {
+        return reject({ code: 'unsupported_transaction_kind', message: `${kind.$kind} transactions are never sponsored` });
+    }
+
+    const { commands } = kind.ProgrammableTransaction;
+    if (commands.length === 0) {
+        return reject({ code: 'invalid_transaction', message: 'Transaction has no commands' });
+    }
+
+    const allowed = new Set(allowedTargets.map(normalizeMoveTarget));
+    const moveCalls: SponsoredMoveCall[] = [];
+
+    for (const [index, command] of commands.entries()) {
+        if (command.$kind !== 'MoveCall') {
+            return reject({ code: 'command_not_allowed', message: `Only Move calls are sponsored, command ${index} is ${command.$kind}`, command: index });
+        }
+
+        const call = command.MoveCall;
+        const target = normalizeMoveTarget(`${call.package}::${call.module}::${call.function}`);
+        if (!allowed.has(target)) {
+            return reject({ code: 'target_not_allowed', message: `${call.module}::${call.function} is not a sponsored function`, command: index, target });
+        }
+        if (call.arguments.some(argument => argument.$kind === 'GasCoin')) {
+            return reject({ code: 'gas_coin_not_allowed', message: 'Sponsored transactions cannot use the gas coin', command: index, target });
+        }
+
+        moveCalls.push({ target, functionName: call.function });
+    }
+
+    return { allowed: true, moveCalls };
+}
+
+export function checkSender(sender: string, verifiedAddress: string): SponsorRejection | null {
+    if (normalizeSuiAddress(sender) === normalizeSuiAddress(verifiedAddress)) return null;
+    return { code: 'sender_mismatch', message: 'Sender does not match the signed-in account' };
+}
+
+/**
+ * Checks that sponsoring these calls keeps the sender within today's quotas
+ * @param usage - The sender's usage so far today
+ */
+export function checkQuotas(usage: SponsorUsage, moveCalls: SponsoredMoveCall[], limits: SponsorQuotaLimits, nowMs: number): SponsorRejection | null {
+    const resetsAt = getQuotaResetTime(nowMs);
+
+    if (usage.transactions + 1 > limits.transactionsPerAddress) {
+        return {
+            code: 'address_quota_exceeded',
+            message: `Daily limit of ${limits.transactionsPerAddress} sponsored transactions reached`,
+            limit: limits.transactionsPerAddress,
+            resetsAt,
+        };
+    }
+
+    const callCounts = new Map<string, SponsoredMoveCall & { count: number }>();
+    for (const call of moveCalls) {
+        const entry = callCounts.get(call.functionName) ?? { ...call, count: 0 };
+        callCounts.set(call.functionName, { ...entry, count: entry.count + 1 });
+    }
+
+    for (const { functionName, target, count } of callCounts.values()) {
+        const limit = limits.callsPerFunction[functionName] ?? limits.defaultCallsPerFunction;
+        if ((usage.functions[functionName] ?? 0) + count > limit) {
+            return {
+                code: 'function_quota_exceeded',
+                message: `Daily limit of ${limit} sponsored ${functionName} calls reached`,
+                target,
+                limit,
+                resetsAt,
+            };
+        }
+    }
+
+    return null;
+}
+
+// ========== Server Configuration ==========
+
+/**
+ * Parses `mint_handout=30,claim_reward=5` style limits
+ */
+function parseFunctionLimits(value: string): Record<string, number> {
+    const entries = value.split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([name, limit]) => name && Number.isInteger(Number(limit)))
+        .map(([name, limit]) => [name, Number(limit)]);
+    return Object.fromEntries(entries);
+}
+
+export const SPONSOR_QUOTA_LIMITS: SponsorQuotaLimits = {
+    transactionsPerAddress: Number(process.env.SPONSOR_ADDRESS_DAILY_LIMIT || 50),
+    callsPerFunction: parseFunctionLimits(process.env.SPONSOR_FUNCTION_LIMITS || ''),
+    defaultCallsPerFunction: Number(process.env.SPONSOR_FUNCTION_DAILY_LIMIT || 20),
+};
+
+/**
+ * Every echo module function in TARGETS; empty until the package ID is configured
+ */
+export function getSponsoredTargets(): string[] {
+    return PACKAGE_ID ? Object.values(TARGETS) : [];
+}
@@ -0,0 +1,190 @@
+/**
+ * Sponsor Providers
+ * Backends that pay gas for the transactions /api/sponsor accepts
+ *
+ * Providers are pluggable: Enoki sponsors through Mysten's hosted gas pool, while the keypair
+ * provider pays from a sponsor account's own SUI coins, which also works on a local network.
+ * Pick one with SPONSOR_PROVIDER
+ */
+
+import { EnokiClient } from '@mysten/enoki';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+
+export interface SponsorRequest {
+    // Base64 transaction kind built with `onlyTransactionKind`
+    transactionKindBytes: string;
+    sender: string;
+    // Move call targets the transaction may contain
+    allowedMoveCallTargets: string[];
+}
+
+export interface SponsoredTransaction {
+    // Base64 transaction data for the sender to sign
+    bytes: string;
+    digest: string;
+}
+
+export interface SponsorProvider {
+    name: string;
+    sponsor(request: SponsorRequest): Promise<SponsoredTransaction>;
+    // Adds the sponsor's side and submits the transaction the sender signed
+    execute(digest: string, senderSignature: string): Promise<{ digest: string }>;
+}
+
+export type SponsorNetwork = 'testnet' | 'mainnet' | 'devnet' | 'localnet';
+
+export interface EnokiProviderOptions {
+    apiKey: string;
+    network: SponsorNetwork;
+}
+
+/**
+ * Sponsors through Enoki; Enoki also checks targets against its dashboard allowlist
+ */
+export function createEnokiSponsorProvider({ apiKey, network }: EnokiProviderOptions): SponsorProvider {
+    if (network === 'localnet') throw new Error('Enoki does not sponsor on localnet; use the keypair provider');
+    const enokiClient = new EnokiClient({ apiKey });
+
+    return {
+        name: 'enoki',
+        async sponsor({ transactionKindBytes, sender, allowedMoveCallTargets }) {
+            const { bytes, digest } = await enokiClient.createSponsoredTransaction({
+                network,
+                transactionKindBytes,
+                sender,
+                allowedMoveCallTargets,
+                allowedAddresses: undefined, // Use dashboard config
+            });
+            return { bytes, digest };
+        },
+        async execute(digest, signature) {
+            const { digest: executedDigest } = await enokiClient.executeSponsoredTransaction({ digest, signature });
+            return { digest: executedDigest };
+        },
+    };
+}
+
+export interface KeypairProviderOptions {
+    client: SuiClient;
+    keypair: Ed25519Keypair;
+    // Coins stay reserved for a sponsored transaction until it executes or this long passes
+    reservationMs: number;
+    // Most coins to merge into one gas payment
+    maxGasCoins: number;
+}
+
+interface PendingTransaction {
+    bytes: string;
+    coinIds: string[];
+    expiresAtMs: number;
+}
+
+/**
+ * Self-hosted sponsorship: builds the gas payment from the sponsor keypair's SUI coins,
+ * co-signs the sender's signed transaction and executes it
+ *
+ * Coins are reserved per transaction so concurrent sponsorships never share a gas coin,
+ * which would lock it until the end of the epoch
+ */
+export function createKeypairSponsorProvider({ client, keypair, reservationMs, maxGasCoins }: KeypairProviderOptions): SponsorProvider {
+    const sponsorAddress = keypair.toSuiAddress();
+    const pending = new Map<string, PendingTransaction>();
+
+    const release = (digest: string) => pending.delete(digest);
+
+    const reservedCoinIds = () => {
+        const now = Date.now();
+        for (const [digest, transaction] of pending) {
+            if (transaction.expiresAtMs < now) release(digest);
+        }
+        return new Set([...pending.values()].flatMap(transaction => transaction.coinIds));
+    };
+
+    return {
+        name: 'keypair',
+        async sponsor({ transactionKindBytes, sender }) {
+            const reserved = reservedCoinIds();
+            const { data: coins } = await client.getCoins({ owner: sponsorAddress, coinType: '0x2::sui::SUI' });
+            const payment = coins
+                .filter(coin => !reserved.has(coin.coinObjectId))
+                .sort((a, b) => Number(BigInt(b.balance) - BigInt(a.balance)))
+                .slice(0, maxGasCoins)
+                .map(coin => ({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest }));
+            if (payment.length === 0) throw new Error('Sponsor account has no free SUI coins for gas');
+
+            const transaction = Transaction.fromKind(transactionKindBytes);
+            transaction.setSender(sender);
+            transaction.setGasOwner(sponsorAddress);
+            transaction.setGasPayment(payment);
+
+            const bytes = await transaction.build({ client });
+            const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+            pending.set(digest, {
+                bytes: toBase64(bytes),
+                coinIds: payment.map(coin => coin.objectId),
+                expiresAtMs: Date.now() + reservationMs,
+            });
+            return { bytes: toBase64(bytes), digest };
+        },
+        async execute(digest, senderSignature) {
+            const transaction = pending.get(digest);
+            if (!transaction || transaction.expiresAtMs < Date.now()) {
+                throw new Error('Unknown or expired sponsored transaction');
+            }
+
+            try {
+                const { signature: sponsorSignature } = await keypair.signTransaction(fromBase64(transaction.bytes));
+                const result = await client.executeTransactionBlock({
+                    transactionBlock: transaction.bytes,
+                    signature: [senderSignature, sponsorSignature],
+                });
+                // Let the gas coins' new versions settle before they can be picked again
+                await client.waitForTransaction({ digest: result.digest });
+                return { digest: result.digest };
+            } finally {
+                release(digest);
+            }
+        },
+    };
+}
+
+// ========== Server Singleton ==========
+
+const SUI_NETWORK = (process.env.SUI_NETWORK || 'testnet') as SponsorNetwork;
+const SPONSOR_PROVIDER = process.env.SPONSOR_PROVIDER || 'enoki';
+// Must be a private/secret API key; NEXT_PUBLIC_ENOKI_PRIVATE_API_KEY is still read for older deployments
+const ENOKI_PRIVATE_API_KEY = process.env.ENOKI_PRIVATE_API_KEY || process.env.NEXT_PUBLIC_ENOKI_PRIVATE_API_KEY || '';
+const SPONSOR_SECRET_KEY = process.env.SPONSOR_SECRET_KEY || '';
+const SPONSOR_RPC_URL = process.env.SPONSOR_RPC_URL || '';
+
+let provider: SponsorProvider | null = null;
+
+/**
+ * The provider selected by SPONSOR_PROVIDER, on SUI_NETWORK
+ * @throws If the selected provider isn't configured
+ */
+export function getSponsorProvider(): SponsorProvider {
+    if (provider) return provider;
+
+    switch (SPONSOR_PROVIDER) {
+        case 'enoki':
+            if (!ENOKI_PRIVATE_API_KEY) throw new Error('ENOKI_PRIVATE_API_KEY not configured');
+            provider = createEnokiSponsorProvider({ apiKey: ENOKI_PRIVATE_API_KEY, network: SUI_NETWORK });
+            break;
+        case 'keypair':
+            if (!SPONSOR_SECRET_KEY) throw new Error('SPONSOR_SECRET_KEY not configured');
+            provider = createKeypairSponsorProvider({
+                client: new SuiClient({ url: SPONSOR_RPC_URL || getFullnodeUrl(SUI_NETWORK) }),
+                keypair: Ed25519Keypair.fromSecretKey(SPONSOR_SECRET_KEY),
+                reservationMs: 2 * 60_000,
+                maxGasCoins: 10,
+            });
+            break;
+        default:
+            throw new Error(`Unknown sponsor provider: ${SPONSOR_PROVIDER}`);
+    }
+    return provider;
+}
@@ -0,0 +1,98 @@
+/**
+ * Sponsor Quota Store
+ * File-backed daily counters of sponsored transactions per account and per Move function
+ *
+ * Accounts are wallet addresses, or the OAuth account for zkLogin users (see getZkLoginAccountKey)
+ *
+ * Counters reset at midnight UTC
+ * Server-only: persists to SPONSOR_QUOTA_DB_PATH (defaults to .data/sponsor-quotas.json)
+ */
+
+import path from 'path';
+import { JsonFileStore } from '@/lib/json-file-store';
+
+const SPONSOR_QUOTA_DB_PATH = process.env.SPONSOR_QUOTA_DB_PATH || path.join(process.cwd(), '.data', 'sponsor-quotas.json');
+
+export interface SponsorUsage {
+    transactions: number;
+    // Move calls sponsored today, keyed by function name
+    functions: Record<string, number>;
+}
+
+interface QuotaState {
+    // UTC day the counters belong to, as YYYY-MM-DD
+    day: string;
+    usage: Record<string, SponsorUsage>;
+}
+
+export function getQuotaDay(nowMs: number): string {
+    return new Date(nowMs).toISOString().slice(0, 10);
+}
+
+/**
+ * When the current quota day ends, as an ISO timestamp
+ */
+export function getQuotaResetTime(nowMs: number): string {
+    const reset = new Date(nowMs);
+    reset.setUTCHours(24, 0, 0, 0);
+    return reset.toISOString();
+}
+
+export class SponsorQuotaStore {
+    private state: QuotaState = { day: '', usage: {} };
+    private loaded = false;
+
+    private readonly file: JsonFileStore<QuotaState>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileStore(filePath);
+    }
+
+    async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        this.state = await this.file.read() ?? this.state;
+    }
+
+    async save(): Promise<void> {
+        await this.file.write(this.state);
+    }
+
+    private rollOver(nowMs: number): void {
+        const day = getQuotaDay(nowMs);
+        if (this.state.day !== day) this.state = { day, usage: {} };
+    }
+
+    getUsage(account: string, nowMs: number): SponsorUsage {
+        this.rollOver(nowMs);
+        return this.state.usage[account] ?? { transactions: 0, functions: {} };
+    }
+
+    /**
+     * Counts one sponsored transaction and each Move call in it
+     */
+    record(account: string, functionNames: string[], nowMs: number): void {
+        const usage = this.getUsage(account, nowMs);
+        const functions = { ...usage.functions };
+        for (const name of functionNames) functions[name] = (functions[name] ?? 0) + 1;
+        this.state.usage[account] = { transactions: usage.transactions + 1, functions };
+    }
+
+    /**
+     * Gives back a recorded transaction that ended up not being sponsored
+     */
+    release(account: string, functionNames: string[], nowMs: number): void {
+        const usage = this.getUsage(account, nowMs);
+        const functions = { ...usage.functions };
+        for (const name of functionNames) functions[name] = Math.max(0, (functions[name] ?? 0) - 1);
+        this.state.usage[account] = { transactions: Math.max(0, usage.transactions - 1), functions };
+    }
+}
+
+let store: SponsorQuotaStore | null = null;
+
+export function getSponsorQuotaStore(): SponsorQuotaStore {
+    store ??= new SponsorQuotaStore(SPONSOR_QUOTA_DB_PATH);
+    return store;
+}
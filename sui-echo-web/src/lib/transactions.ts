@@ -0,0 +1,103 @@
+/**
+ * Transaction Execution
+ * The sponsored-transaction flow and result shape shared by every signer (see hooks/useEchoSigner)
+ */
+
+import type { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+
+export type EchoTransactionResult = Pick<SuiTransactionBlockResponse, "digest" | "effects" | "objectChanges" | "events">;
+
+export const TRANSACTION_RESULT_OPTIONS = {
+    showEffects: true,
+    showEvents: true,
+    showObjectChanges: true,
+} as const;
+
+export interface SponsoredTransactionSigner {
+    sender: string;
+    // Credentials /api/sponsor checks the sender against
+    authHeaders: Record<string, string>;
+    // Signs base64 transaction bytes, returning the serialized signature
+    signTransaction: (bytes: string) => Promise<string>;
+}
+
+/**
+ * Throw the on-chain error for transactions that executed but aborted
+ */
+export function assertTransactionSucceeded(result: EchoTransactionResult): EchoTransactionResult {
+    if (result.effects?.status.status === "failure") {
+        throw new Error(result.effects.status.error || "Transaction failed");
+    }
+    return result;
+}
+
+/**
+ * Wait for a transaction to be indexed and read its effects, events and object changes
+ */
+export async function getTransactionResult(client: SuiClient, digest: string): Promise<EchoTransactionResult> {
+    const { effects, objectChanges, events } = await client.waitForTransaction({
+        digest,
+        options: TRANSACTION_RESULT_OPTIONS,
+    });
+    return assertTransactionSucceeded({ digest, effects, objectChanges, events });
+}
+
+/**
+ * Execute a transaction with gas paid by /api/sponsor
+ * The sender signs the sponsored transaction; the sponsor adds its signature and submits it
+ */
+export async function executeSponsoredTransaction(
+    client: SuiClient,
+    transaction: Transaction,
+    { sender, authHeaders, signTransaction }: SponsoredTransactionSigner
+): Promise<EchoTransactionResult> {
+    // 1. Build the transaction KIND only (for sponsorship)
+    transaction.setSender(sender);
+    const txKindBytes = await transaction.build({ client, onlyTransactionKind: true });
+
+    // 2. Call the sponsor API to get sponsored transaction
+    // The sponsor policy only pays for the signed-in account's own transactions
+    console.log("[Sponsor] Requesting sponsored transaction...");
+    const sponsorResponse = await fetch("/api/sponsor", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({
+            transactionBytes: Buffer.from(txKindBytes).toString("base64"),
+            sender,
+        }),
+    });
+
+    if (!sponsorResponse.ok) {
+        const errorData = await sponsorResponse.json();
+        throw new Error(errorData.rejection?.message || errorData.details || errorData.error || "Failed to sponsor transaction");
+    }
+
+    const { bytes: sponsoredBytes, digest: sponsorDigest } = await sponsorResponse.json();
+    console.log("[Sponsor] Transaction sponsored, digest:", sponsorDigest);
+
+    // 3. Sign the sponsored transaction as the sender
+    const signature = await signTransaction(sponsoredBytes);
+
+    // 4. Execute via the sponsor (it adds the sponsor signature and submits)
+    console.log("[Sponsor] Executing sponsored transaction...");
+    const executeResponse = await fetch("/api/sponsor", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({
+            digest: sponsorDigest,
+            signature,
+        }),
+    });
+
+    if (!executeResponse.ok) {
+        const errorData = await executeResponse.json();
+        throw new Error(errorData.error || "Failed to execute sponsored transaction");
+    }
+
+    const { digest } = await executeResponse.json();
+    console.log("[Sponsor] Sponsored transaction executed:", digest);
+
+    // 5. Query the transaction to get objectChanges and events
+    return getTransactionResult(client, digest);
+}
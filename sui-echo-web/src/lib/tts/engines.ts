@@ -0,0 +1,173 @@
+/**
+ * TTS Engines
+ * Local text-to-speech engines the server renders handout audio with
+ *
+ * Engines are pluggable: anything that turns text into a PCM WAV file can implement TtsEngine.
+ * Piper (neural voices) and eSpeak NG are built in; pick one with TTS_ENGINE
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface TtsEngine {
+    name: string;
+    // Voice or model used for a handout language, recorded with the rendered track
+    getVoice(language: string): string;
+    // Renders text to a PCM WAV file
+    synthesize(text: string, language: string): Promise<Buffer>;
+}
+
+interface CommandOptions {
+    input?: string;
+    timeoutMs: number;
+}
+
+/**
+ * Runs a command to completion, feeding it text on stdin
+ * @throws If the command is missing, fails or times out
+ */
+export function runCommand(binary: string, args: string[], { input, timeoutMs }: CommandOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(binary, args, { timeout: timeoutMs, stdio: ['pipe', 'ignore', 'pipe'] });
+        let stderr = '';
+
+        child.stderr.on('data', (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(-2000);
+        });
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            reject(new Error(error.code === 'ENOENT' ? `${binary} is not installed` : error.message));
+        });
+        child.on('close', (code, signal) => {
+            if (code === 0) resolve();
+            else if (signal) reject(new Error(`${binary} was stopped (${signal}); it may have timed out`));
+            else reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+        });
+
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(input ?? '');
+    });
+}
+
+/**
+ * Gives a callback a scratch directory and removes it afterwards
+ */
+export async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sui-echo-tts-'));
+    try {
+        return await run(dir);
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+}
+
+function pickForLanguage(options: Record<string, string>, language: string): string | null {
+    const base = language.toLowerCase().split('-')[0];
+    return options[language] ?? options[base] ?? options.default ?? null;
+}
+
+export interface PiperOptions {
+    binary: string;
+    // Model (.onnx) per handout language code, with `default` as the fallback
+    models: Record<string, string>;
+    timeoutMs: number;
+}
+
+/**
+ * Piper neural TTS (https://github.com/rhasspy/piper)
+ */
+export function createPiperEngine({ binary, models, timeoutMs }: PiperOptions): TtsEngine {
+    const getModel = (language: string) => {
+        const model = pickForLanguage(models, language);
+        if (!model) throw new Error(`No Piper model configured for ${language}`);
+        return model;
+    };
+
+    return {
+        name: 'piper',
+        getVoice: language => path.basename(getModel(language), '.onnx'),
+        synthesize: (text, language) => withTempDir(async (dir) => {
+            const output = path.join(dir, 'speech.wav');
+            // Piper reads one utterance per line
+            await runCommand(binary, ['--model', getModel(language), '--output_file', output], {
+                input: text.replace(/\s*\n\s*/g, ' '),
+                timeoutMs,
+            });
+            return fs.readFile(output);
+        }),
+    };
+}
+
+export interface EspeakOptions {
+    binary: string;
+    // eSpeak voice per handout language code, with `default` as the fallback
+    voices: Record<string, string>;
+    timeoutMs: number;
+}
+
+/**
+ * eSpeak NG, a small formant synthesizer available on most Linux hosts
+ */
+export function createEspeakEngine({ binary, voices, timeoutMs }: EspeakOptions): TtsEngine {
+    const getVoice = (language: string) => pickForLanguage(voices, language) ?? 'en';
+
+    return {
+        name: 'espeak',
+        getVoice,
+        synthesize: (text, language) => withTempDir(async (dir) => {
+            const output = path.join(dir, 'speech.wav');
+            await runCommand(binary, ['-v', getVoice(language), '-w', output, '--stdin'], { input: text, timeoutMs });
+            return fs.readFile(output);
+        }),
+    };
+}
+
+// ========== Server Singleton ==========
+
+const TTS_ENGINE = process.env.TTS_ENGINE || '';
+const TTS_TIMEOUT_MS = Number(process.env.TTS_TIMEOUT_MS || 5 * 60_000);
+const PIPER_PATH = process.env.PIPER_PATH || 'piper';
+const PIPER_MODEL = process.env.PIPER_MODEL || '';
+const PIPER_MODELS = process.env.PIPER_MODELS || '';
+const ESPEAK_PATH = process.env.ESPEAK_PATH || 'espeak-ng';
+const ESPEAK_VOICES = process.env.ESPEAK_VOICES || '';
+
+/**
+ * Parses `en=/models/en.onnx,fr=/models/fr.onnx` style settings
+ */
+function parseLanguageMap(value: string): Record<string, string> {
+    const entries = value.split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([language, setting]) => language && setting);
+    return Object.fromEntries(entries);
+}
+
+let engine: TtsEngine | null = null;
+
+/**
+ * The engine selected by TTS_ENGINE
+ * @throws If no engine is configured
+ */
+export function getTtsEngine(): TtsEngine {
+    if (engine) return engine;
+
+    switch (TTS_ENGINE) {
+        case 'piper': {
+            const models = parseLanguageMap(PIPER_MODELS);
+            if (PIPER_MODEL) models.default ??= PIPER_MODEL;
+            engine = createPiperEngine({ binary: PIPER_PATH, models, timeoutMs: TTS_TIMEOUT_MS });
+            break;
+        }
+        case 'espeak':
+            engine = createEspeakEngine({
+                binary: ESPEAK_PATH,
+                voices: { en: 'en', fr: 'fr', ...parseLanguageMap(ESPEAK_VOICES) },
+                timeoutMs: TTS_TIMEOUT_MS,
+            });
+            break;
+        default:
+            throw new Error(TTS_ENGINE ? `Unknown TTS engine: ${TTS_ENGINE}` : 'TTS engine not configured');
+    }
+    return engine;
+}
@@ -0,0 +1,72 @@
+/**
+ * Audio Render Quota Store
+ * File-backed daily count of audio tracks each account has asked /api/tts to render
+ * Accounts are wallet addresses, or the OAuth account for zkLogin users (see getZkLoginAccountKey)
+ *
+ * Counters reset at midnight UTC, like the sponsor quotas
+ * Server-only: persists to TTS_QUOTA_DB_PATH (defaults to .data/tts-quotas.json)
+ */
+
+import path from 'path';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { getQuotaDay } from '@/lib/sponsor/quotas';
+
+const TTS_QUOTA_DB_PATH = process.env.TTS_QUOTA_DB_PATH || path.join(process.cwd(), '.data', 'tts-quotas.json');
+
+// Renders each account may start per day; replaying an existing track is free
+export const TTS_RENDERS_PER_ADDRESS = Number(process.env.TTS_ADDRESS_DAILY_LIMIT || 5);
+
+interface RenderQuotaState {
+    // UTC day the counters belong to, as YYYY-MM-DD
+    day: string;
+    renders: Record<string, number>;
+}
+
+export class RenderQuotaStore {
+    private state: RenderQuotaState = { day: '', renders: {} };
+    private loaded = false;
+    private readonly file: JsonFileStore<RenderQuotaState>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileStore(filePath);
+    }
+
+    async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        this.state = await this.file.read() ?? this.state;
+    }
+
+    async save(): Promise<void> {
+        await this.file.write(this.state);
+    }
+
+    private rollOver(nowMs: number): void {
+        const day = getQuotaDay(nowMs);
+        if (this.state.day !== day) this.state = { day, renders: {} };
+    }
+
+    getUsage(account: string, nowMs: number): number {
+        this.rollOver(nowMs);
+        return this.state.renders[account] ?? 0;
+    }
+
+    record(account: string, nowMs: number): void {
+        this.state.renders[account] = this.getUsage(account, nowMs) + 1;
+    }
+
+    /**
+     * Gives back a render that failed
+     */
+    release(account: string, nowMs: number): void {
+        this.state.renders[account] = Math.max(0, this.getUsage(account, nowMs) - 1);
+    }
+}
+
+let store: RenderQuotaStore | null = null;
+
+export function getRenderQuotaStore(): RenderQuotaStore {
+    store ??= new RenderQuotaStore(TTS_QUOTA_DB_PATH);
+    return store;
+}
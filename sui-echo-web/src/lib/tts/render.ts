@@ -0,0 +1,165 @@
+/**
+ * Handout Audio Rendering
+ * Narrates a handout document with a TTS engine, one chapter at a time, and joins the
+ * chapters into a single track so the reader can seek to chapter markers
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseHandoutContent, type HandoutDocument } from '@/lib/handout-document';
+import { buildReadingQueue } from '@/lib/reading-queue';
+import { fetchFromWalrus, uploadToWalrus } from '@/lib/walrus';
+import type { AudioChapter, AudioTrack } from '@/lib/audio-tracks';
+import { concatWav, createSilence, encodeWav, getWavDuration, parseWav, type WavAudio } from './wav';
+import { getTtsEngine, runCommand, withTempDir, type TtsEngine } from './engines';
+import { getAudioTrackStore } from './store';
+
+// Pause between chapters
+const CHAPTER_GAP_SECONDS = 0.8;
+
+export type AudioFormat = 'wav' | 'mp3';
+
+export interface ChapterScript {
+    title: string;
+    // Spoken text, sentences joined into one utterance
+    text: string;
+    pageIndex: number;
+    segmentIndex: number;
+}
+
+export interface RenderedAudio {
+    audio: Buffer;
+    mimeType: string;
+    durationSeconds: number;
+    chapters: AudioChapter[];
+}
+
+/**
+ * Splits a document into chapters: one per heading when it has headings, otherwise one per page
+ */
+export function buildChapterScripts(document: HandoutDocument): ChapterScript[] {
+    const segments = buildReadingQueue(document);
+    const blockType = (pageIndex: number, blockIndex: number) => document.pages[pageIndex].blocks[blockIndex].type;
+    const byHeading = segments.some(segment => blockType(segment.pageIndex, segment.blockIndex) === 'heading');
+    const chapters: ChapterScript[] = [];
+
+    segments.forEach((segment, segmentIndex) => {
+        const isHeading = blockType(segment.pageIndex, segment.blockIndex) === 'heading';
+        const previous = segments[segmentIndex - 1];
+        const startsChapter = !previous || (byHeading ? isHeading : segment.pageIndex !== previous.pageIndex);
+
+        if (startsChapter) {
+            const title = byHeading
+                ? (isHeading ? segment.spokenText : 'Introduction')
+                : `Page ${segment.pageIndex + 1}`;
+            chapters.push({ title, text: '', pageIndex: segment.pageIndex, segmentIndex });
+        }
+
+        // Headings and equations have no closing punctuation; add it so the voice pauses
+        const sentence = /[.!?:;]$/.test(segment.spokenText) ? segment.spokenText : `${segment.spokenText}.`;
+        const chapter = chapters[chapters.length - 1];
+        chapter.text = chapter.text ? `${chapter.text} ${sentence}` : sentence;
+    });
+
+    return chapters;
+}
+
+/**
+ * Re-encodes WAV audio as constant-bitrate MP3 with ffmpeg
+ * Constant bitrate keeps seeking to chapter markers accurate
+ */
+export function encodeMp3(wav: Buffer, ffmpegPath: string, timeoutMs: number): Promise<Buffer> {
+    return withTempDir(async (dir) => {
+        const input = path.join(dir, 'track.wav');
+        const output = path.join(dir, 'track.mp3');
+        await fs.writeFile(input, wav);
+        await runCommand(ffmpegPath, ['-hide_banner', '-loglevel', 'error', '-i', input, '-codec:a', 'libmp3lame', '-b:a', '64k', output], { timeoutMs });
+        return fs.readFile(output);
+    });
+}
+
+/**
+ * Renders each chapter with the engine and joins them, recording where each chapter starts
+ * @throws If the document has nothing to read or the engine fails
+ */
+export async function renderHandoutAudio(
+    document: HandoutDocument,
+    engine: TtsEngine,
+    encode: (wav: Buffer) => Promise<{ audio: Buffer; mimeType: string }>,
+): Promise<RenderedAudio> {
+    const scripts = buildChapterScripts(document);
+    if (scripts.length === 0) throw new Error('Handout has no text to read');
+
+    const clips: WavAudio[] = [];
+    const chapters: AudioChapter[] = [];
+    let elapsed = 0;
+
+    for (const script of scripts) {
+        const clip = parseWav(await engine.synthesize(script.text, document.language));
+        if (clips.length > 0) {
+            const gap = createSilence(clip.format, CHAPTER_GAP_SECONDS);
+            clips.push(gap);
+            elapsed += getWavDuration(gap);
+        }
+
+        chapters.push({ title: script.title, startSeconds: Math.round(elapsed * 1000) / 1000, pageIndex: script.pageIndex, segmentIndex: script.segmentIndex });
+        clips.push(clip);
+        elapsed += getWavDuration(clip);
+    }
+
+    const { audio, mimeType } = await encode(encodeWav(concatWav(clips)));
+    return { audio, mimeType, durationSeconds: Math.round(elapsed * 1000) / 1000, chapters };
+}
+
+// ========== Server Singleton ==========
+
+const TTS_AUDIO_FORMAT: AudioFormat = process.env.TTS_AUDIO_FORMAT === 'mp3' ? 'mp3' : 'wav';
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const ENCODE_TIMEOUT_MS = Number(process.env.TTS_TIMEOUT_MS || 5 * 60_000);
+
+const inflightRenders = new Map<string, Promise<AudioTrack>>();
+
+async function encodeTrack(wav: Buffer): Promise<{ audio: Buffer; mimeType: string }> {
+    if (TTS_AUDIO_FORMAT === 'mp3') {
+        return { audio: await encodeMp3(wav, FFMPEG_PATH, ENCODE_TIMEOUT_MS), mimeType: 'audio/mpeg' };
+    }
+    return { audio: wav, mimeType: 'audio/wav' };
+}
+
+/**
+ * Renders, uploads and records the audio track for a handout blob, unless one is already recorded
+ * Concurrent requests for the same blob share one render
+ */
+export function renderAudioTrack(blobId: string): Promise<AudioTrack> {
+    const inflight = inflightRenders.get(blobId);
+    if (inflight) return inflight;
+
+    const render = (async () => {
+        const store = getAudioTrackStore();
+        await store.load();
+        const existing = store.get(blobId);
+        if (existing) return existing;
+
+        const engine = getTtsEngine();
+        const { document } = parseHandoutContent(await fetchFromWalrus(blobId));
+        const rendered = await renderHandoutAudio(document, engine, encodeTrack);
+        const audioBlobId = await uploadToWalrus(new Blob([new Uint8Array(rendered.audio)], { type: rendered.mimeType }));
+
+        const track: AudioTrack = {
+            blobId,
+            audioBlobId,
+            mimeType: rendered.mimeType,
+            durationSeconds: rendered.durationSeconds,
+            chapters: rendered.chapters,
+            engine: engine.name,
+            voice: engine.getVoice(document.language),
+            createdAt: Date.now(),
+        };
+        store.put(track);
+        await store.save();
+        return track;
+    })().finally(() => inflightRenders.delete(blobId));
+
+    inflightRenders.set(blobId, render);
+    return render;
+}
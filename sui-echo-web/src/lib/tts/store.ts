@@ -0,0 +1,50 @@
+/**
+ * Audio Track Store
+ * File-backed record of rendered audio tracks, keyed by the handout's blob ID
+ *
+ * Walrus blobs never change, so a track rendered once stays valid for its handout
+ * Server-only: persists to AUDIO_TRACKS_DB_PATH (defaults to .data/audio-tracks.json)
+ */
+
+import path from 'path';
+import { JsonFileStore } from '@/lib/json-file-store';
+import type { AudioTrack } from '@/lib/audio-tracks';
+
+const AUDIO_TRACKS_DB_PATH = process.env.AUDIO_TRACKS_DB_PATH || path.join(process.cwd(), '.data', 'audio-tracks.json');
+
+export class AudioTrackStore {
+    private tracks: Record<string, AudioTrack> = {};
+    private loaded = false;
+
+    private readonly file: JsonFileStore<Record<string, AudioTrack>>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileStore(filePath);
+    }
+
+    async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        this.tracks = await this.file.read() ?? this.tracks;
+    }
+
+    async save(): Promise<void> {
+        await this.file.write(this.tracks);
+    }
+
+    get(blobId: string): AudioTrack | null {
+        return this.tracks[blobId] ?? null;
+    }
+
+    put(track: AudioTrack): void {
+        this.tracks[track.blobId] = track;
+    }
+}
+
+let store: AudioTrackStore | null = null;
+
+export function getAudioTrackStore(): AudioTrackStore {
+    store ??= new AudioTrackStore(AUDIO_TRACKS_DB_PATH);
+    return store;
+}
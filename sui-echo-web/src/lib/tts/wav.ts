@@ -0,0 +1,111 @@
+/**
+ * WAV Utilities
+ * Reads and joins the PCM WAV files local TTS engines write, so chapters rendered
+ * separately become one track with known chapter offsets
+ */
+
+export interface WavFormat {
+    audioFormat: number;
+    channels: number;
+    sampleRate: number;
+    byteRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+}
+
+export interface WavAudio {
+    format: WavFormat;
+    // Raw sample data (the `data` chunk)
+    data: Buffer;
+}
+
+const PCM_FORMAT = 1;
+
+/**
+ * Parses a RIFF/WAVE file
+ * Streamed WAVs (e.g. espeak-ng --stdout) declare placeholder sizes, so chunk sizes are clamped to the file
+ * @throws If the file isn't PCM WAV
+ */
+export function parseWav(buffer: Buffer): WavAudio {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Not a WAV file');
+    }
+
+    let format: WavFormat | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const id = buffer.toString('ascii', offset, offset + 4);
+        const size = Math.min(buffer.readUInt32LE(offset + 4), buffer.length - offset - 8);
+        const body = offset + 8;
+
+        if (id === 'fmt ') {
+            format = {
+                audioFormat: buffer.readUInt16LE(body),
+                channels: buffer.readUInt16LE(body + 2),
+                sampleRate: buffer.readUInt32LE(body + 4),
+                byteRate: buffer.readUInt32LE(body + 8),
+                blockAlign: buffer.readUInt16LE(body + 12),
+                bitsPerSample: buffer.readUInt16LE(body + 14),
+            };
+        } else if (id === 'data') {
+            if (!format) throw new Error('WAV data chunk before format chunk');
+            if (format.audioFormat !== PCM_FORMAT) throw new Error('Only PCM WAV audio is supported');
+            // Drop any trailing partial frame
+            const length = size - (size % format.blockAlign);
+            return { format, data: buffer.subarray(body, body + length) };
+        }
+
+        // Chunks are padded to an even length
+        offset = body + size + (size % 2);
+    }
+
+    throw new Error('WAV file has no audio data');
+}
+
+export function getWavDuration(audio: WavAudio): number {
+    return audio.data.length / audio.format.byteRate;
+}
+
+/**
+ * Silence in the given format, rounded down to whole frames
+ */
+export function createSilence(format: WavFormat, seconds: number): WavAudio {
+    const frames = Math.floor(seconds * format.sampleRate);
+    return { format, data: Buffer.alloc(frames * format.blockAlign) };
+}
+
+function sameFormat(a: WavFormat, b: WavFormat): boolean {
+    return a.channels === b.channels && a.sampleRate === b.sampleRate && a.bitsPerSample === b.bitsPerSample;
+}
+
+/**
+ * Joins clips into one
+ * @throws If clips differ in sample rate, channels or bit depth
+ */
+export function concatWav(clips: WavAudio[]): WavAudio {
+    if (clips.length === 0) throw new Error('No audio to join');
+    const { format } = clips[0];
+    if (clips.some(clip => !sameFormat(clip.format, format))) {
+        throw new Error('Cannot join WAV clips with different formats');
+    }
+    return { format, data: Buffer.concat(clips.map(clip => clip.data)) };
+}
+
+export function encodeWav({ format, data }: WavAudio): Buffer {
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(PCM_FORMAT, 20);
+    header.writeUInt16LE(format.channels, 22);
+    header.writeUInt32LE(format.sampleRate, 24);
+    header.writeUInt32LE(format.byteRate, 28);
+    header.writeUInt16LE(format.blockAlign, 32);
+    header.writeUInt16LE(format.bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(data.length, 40);
+    return Buffer.concat([header, data]);
+}
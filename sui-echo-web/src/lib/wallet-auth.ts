@@ -0,0 +1,87 @@
+/**
+ * Wallet Request Authentication
+ * Lets browser-wallet users prove which Sui address they control to API routes, as zkLogin
+ * users do with their ID token (see lib/zklogin-auth)
+ *
+ * Clients sign a short auth message with their wallet and send it as `X-Wallet-Message` (base64)
+ * with `X-Wallet-Signature`; the message names the address and when it was signed
+ */
+
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { fromBase64 } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+
+// Servers accept a signed message this long; clients reuse theirs for a little less
+const WALLET_AUTH_MAX_AGE_MS = 10 * 60 * 1000;
+const WALLET_AUTH_REUSE_MS = 8 * 60 * 1000;
+// Allowance for clocks running ahead of the server's
+const WALLET_AUTH_CLOCK_SKEW_MS = 60 * 1000;
+
+export const WALLET_MESSAGE_HEADER = 'x-wallet-message';
+export const WALLET_SIGNATURE_HEADER = 'x-wallet-signature';
+
+const AUTH_MESSAGE_PATTERN = /^Sign in to Sui Echo\n\nAddress: (0x[0-9a-f]{64})\nIssued at: (\S+)$/;
+
+export interface WalletIdentity {
+    address: string;
+}
+
+export type SignPersonalMessage = (message: Uint8Array) => Promise<{ bytes: string; signature: string }>;
+
+function createWalletAuthMessage(address: string, issuedAtMs: number): string {
+    return `Sign in to Sui Echo\n\nAddress: ${address}\nIssued at: ${new Date(issuedAtMs).toISOString()}`;
+}
+
+// ========== Client ==========
+
+let cachedAuth: { address: string; headers: Record<string, string>; expiresAtMs: number } | null = null;
+
+/**
+ * Credentials for API routes, signing a new auth message only when the last one is about to lapse
+ * @param signPersonalMessage - Prompts the wallet to sign, e.g. dapp-kit's useSignPersonalMessage
+ */
+export async function getWalletAuthHeaders(address: string, signPersonalMessage: SignPersonalMessage): Promise<Record<string, string>> {
+    if (cachedAuth?.address === address && cachedAuth.expiresAtMs > Date.now()) return cachedAuth.headers;
+
+    const issuedAtMs = Date.now();
+    const message = new TextEncoder().encode(createWalletAuthMessage(address, issuedAtMs));
+    const { bytes, signature } = await signPersonalMessage(message);
+    const headers = { [WALLET_MESSAGE_HEADER]: bytes, [WALLET_SIGNATURE_HEADER]: signature };
+    cachedAuth = { address, headers, expiresAtMs: issuedAtMs + WALLET_AUTH_REUSE_MS };
+    return headers;
+}
+
+// ========== Server ==========
+
+const SUI_NETWORK = (process.env.SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet' | 'devnet' | 'localnet';
+
+let client: SuiClient | null = null;
+
+/**
+ * Checks the wallet's signature over the auth message and that the message is recent
+ * @throws If the credentials are missing, malformed, stale or not signed by the named address
+ */
+export async function verifyWalletRequest(headers: Headers): Promise<WalletIdentity> {
+    const encodedMessage = headers.get(WALLET_MESSAGE_HEADER) || '';
+    const signature = headers.get(WALLET_SIGNATURE_HEADER) || '';
+    if (!encodedMessage || !signature) throw new Error('Missing wallet credentials');
+
+    const message = fromBase64(encodedMessage);
+    const match = AUTH_MESSAGE_PATTERN.exec(new TextDecoder().decode(message));
+    if (!match) throw new Error('Malformed wallet auth message');
+
+    const [, address, issuedAt] = match;
+    const ageMs = Date.now() - Date.parse(issuedAt);
+    if (Number.isNaN(ageMs) || ageMs > WALLET_AUTH_MAX_AGE_MS || ageMs < -WALLET_AUTH_CLOCK_SKEW_MS) {
+        throw new Error('Wallet auth message expired');
+    }
+
+    // zkLogin wallets (e.g. Enoki) sign with zkLogin signatures, which are checked over RPC
+    client ??= new SuiClient({ url: getFullnodeUrl(SUI_NETWORK) });
+    try {
+        await verifyPersonalMessageSignature(message, signature, { address, client });
+    } catch {
+        throw new Error('Invalid wallet signature');
+    }
+    return { address };
+}
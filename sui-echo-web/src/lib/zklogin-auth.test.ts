@@ -0,0 +1,52 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const CLIENT_ID = 'test-client.apps.googleusercontent.com';
+const KEY_ID = 'test-key';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function createToken(payload: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', kid: KEY_ID, typ: 'JWT' })}.${encode(payload)}`;
+    return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+}
+
+const token = createToken({
+    iss: 'https://accounts.google.com',
+    aud: CLIENT_ID,
+    sub: '110169484474386276334',
+    // Expired an hour ago, as it is for most of a zkLogin session
+    exp: Math.floor(Date.now() / 1000) - 3600,
+});
+
+describe('getZkLoginAccountKey', () => {
+    let auth: typeof import('./zklogin-auth');
+
+    beforeAll(async () => {
+        // The audience is read when the module loads
+        vi.stubEnv('GOOGLE_OAUTH_CLIENT_ID', CLIENT_ID);
+        vi.stubGlobal('fetch', async () => Response.json({
+            keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }],
+        }));
+        auth = await import('./zklogin-auth');
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('gives every salt for the same token the same key', async () => {
+        const first = await auth.verifyZkLoginToken(token, '1111', { allowExpired: true });
+        const second = await auth.verifyZkLoginToken(token, '2222', { allowExpired: true });
+
+        expect(first.address).not.toBe(second.address);
+        expect(auth.getZkLoginAccountKey(first)).toBe(auth.getZkLoginAccountKey(second));
+        expect(auth.getZkLoginAccountKey(first)).toBe('zklogin:https://accounts.google.com:110169484474386276334');
+    });
+
+    it('rejects expired tokens unless the route allows them', async () => {
+        await expect(auth.verifyZkLoginToken(token, '1111')).rejects.toThrow('Token expired');
+    });
+});
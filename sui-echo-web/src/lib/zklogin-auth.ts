@@ -0,0 +1,123 @@
+/**
+ * zkLogin Request Authentication
+ * Verifies the OAuth ID token a zkLogin user signed in with (from any provider in lib/oauth-providers)
+ * and derives their Sui address, so API routes can store data for that address
+ *
+ * Server-only: clients send `Authorization: Bearer <jwt>` and `X-ZkLogin-Salt: <salt>`
+ */
+
+import { createPublicKey, verify, type JsonWebKey } from 'crypto';
+import { jwtToAddress } from '@mysten/sui/zklogin';
+import { getOAuthClientId, getOAuthProviderForIssuer, type OAuthProviderId } from '@/lib/oauth-providers';
+
+// Server-side override for the Google audience
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_OAUTH_CLIENT_ID || '';
+// Providers rotate keys every few days; refetch hourly or on an unknown key id
+const JWKS_MAX_AGE_MS = 60 * 60 * 1000;
+
+export const ZKLOGIN_SALT_HEADER = 'x-zklogin-salt';
+
+export interface ZkLoginIdentity {
+    // Derived with the client-supplied salt, so one token can yield any number of addresses
+    address: string;
+    issuer: string;
+    sub: string;
+    provider: OAuthProviderId;
+}
+
+export interface ZkLoginVerifyOptions {
+    // zkLogin signatures stay valid until the session's maxEpoch, long after the ID token expires.
+    // Routes that only need to know who the sender is (the sender still signs with their
+    // ephemeral key) can accept expired tokens
+    allowExpired?: boolean;
+}
+
+interface JwtHeader {
+    alg?: string;
+    kid?: string;
+}
+
+interface JwtPayload {
+    iss?: string;
+    aud?: string | string[];
+    sub?: string;
+    exp?: number;
+}
+
+interface JwksEntry {
+    keys: (JsonWebKey & { kid?: string })[];
+    fetchedAtMs: number;
+}
+
+// Signing keys per provider JWKS URL
+const jwksCache = new Map<string, JwksEntry>();
+
+async function getSigningKey(jwksUrl: string, kid: string) {
+    let entry = jwksCache.get(jwksUrl);
+    const isStale = !entry || Date.now() - entry.fetchedAtMs > JWKS_MAX_AGE_MS;
+    if (isStale || !entry?.keys.some(key => key.kid === kid)) {
+        const response = await fetch(jwksUrl);
+        if (!response.ok) throw new Error(`Failed to fetch signing keys: ${response.status}`);
+        entry = { keys: (await response.json()).keys, fetchedAtMs: Date.now() };
+        jwksCache.set(jwksUrl, entry);
+    }
+
+    const key = entry!.keys.find(candidate => candidate.kid === kid);
+    if (!key) throw new Error('Unknown token signing key');
+    return createPublicKey({ key, format: 'jwk' });
+}
+
+function decodeSegment<T>(segment: string): T {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')) as T;
+}
+
+/**
+ * Checks the ID token's signature, issuer, audience and expiry, then derives the zkLogin address
+ * @throws If the token is missing, invalid or expired
+ */
+export async function verifyZkLoginToken(jwt: string, salt: string, options: ZkLoginVerifyOptions = {}): Promise<ZkLoginIdentity> {
+    const [headerSegment, payloadSegment, signatureSegment] = jwt.split('.');
+    if (!headerSegment || !payloadSegment || !signatureSegment) throw new Error('Malformed token');
+
+    const header = decodeSegment<JwtHeader>(headerSegment);
+    if (header.alg !== 'RS256' || !header.kid) throw new Error('Unsupported token algorithm');
+
+    // The issuer picks which provider's keys and client ID the token is checked against
+    const payload = decodeSegment<JwtPayload>(payloadSegment);
+    const provider = payload.iss ? getOAuthProviderForIssuer(payload.iss) : null;
+    if (!provider) throw new Error('Unexpected token issuer');
+    const clientId = (provider.id === 'google' && GOOGLE_CLIENT_ID) || getOAuthClientId(provider.id);
+    if (!clientId) throw new Error(`${provider.name} OAuth client ID not configured`);
+
+    const publicKey = await getSigningKey(provider.jwksUrl, header.kid);
+    const signed = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    if (!verify('RSA-SHA256', signed, publicKey, Buffer.from(signatureSegment, 'base64url'))) {
+        throw new Error('Invalid token signature');
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(clientId)) throw new Error('Token was issued for another app');
+    if (!payload.exp || (!options.allowExpired && payload.exp * 1000 < Date.now())) throw new Error('Token expired');
+    if (!payload.sub) throw new Error('Token has no subject');
+
+    return { address: jwtToAddress(jwt, salt), issuer: payload.iss!, sub: payload.sub, provider: provider.id };
+}
+
+/**
+ * Key for per-user limits: the OAuth account behind the token, which the salt can't change
+ */
+export function getZkLoginAccountKey(identity: ZkLoginIdentity): string {
+    return `zklogin:${identity.issuer}:${identity.sub}`;
+}
+
+/**
+ * Reads and verifies the zkLogin credentials on an API request
+ */
+export function verifyZkLoginRequest(headers: Headers, options: ZkLoginVerifyOptions = {}): Promise<ZkLoginIdentity> {
+    const authorization = headers.get('authorization') || '';
+    const salt = headers.get(ZKLOGIN_SALT_HEADER) || '';
+    if (!authorization.startsWith('Bearer ') || !salt) {
+        return Promise.reject(new Error('Missing zkLogin credentials'));
+    }
+    return verifyZkLoginToken(authorization.slice('Bearer '.length), salt, options);
+}
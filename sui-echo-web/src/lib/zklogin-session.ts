@@ -0,0 +1,481 @@
+/**
+ * zkLogin Session Manager
+ * Tracks the signed-in zkLogin session against the chain's epoch, warns before its ephemeral key
+ * expires and renews it by re-running the OAuth + proof flow
+ *
+ * The working session stays in sessionStorage (see utils/zklogin-proof). When the user opts in,
+ * an AES-GCM encrypted copy is kept in IndexedDB under a non-extractable key so new tabs and
+ * restarts pick it up; tabs keep each other in step over a BroadcastChannel
+ *
+ * React code reads this through hooks/useZkLoginSession
+ */
+
+import { jwtDecode } from "jwt-decode";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { ZKLOGIN_CONFIG } from "@/config";
+import {
+    buildOAuthLoginUrl,
+    clearZkLoginSession,
+    createEphemeralSession,
+    getStoredSession,
+    getSuiClient,
+    getZkLoginAddress,
+    getZkLoginProvider,
+    isZkLoginSessionValid,
+    prepareZkLoginSession,
+    proveZkLoginSession,
+    storeZkLoginSession,
+    type DecodedJwt,
+} from "@/utils/zklogin-proof";
+import { withStore as withDatabaseStore, type IndexedDbSchema } from "@/lib/indexed-db";
+import { isOAuthProviderId, type OAuthProviderId } from "@/lib/oauth-providers";
+
+const SESSION_DB_NAME = "sui-echo-session";
+const SESSION_DB_VERSION = 1;
+const KEY_STORE = "keys";
+const SESSION_STORE = "sessions";
+const RECORD_ID = "current";
+const PERSIST_PREFERENCE_KEY = "sui_zklogin_persist";
+const SESSION_CHANNEL = "sui-echo-session";
+// OAuth state prefix marking a renewal; the provider and nonce follow it
+const RENEWAL_STATE_PREFIX = "renew:";
+// OAuth errors meaning the account has to be picked or confirmed by hand
+const INTERACTION_ERRORS = new Set(["interaction_required", "login_required", "consent_required", "account_selection_required"]);
+// sessionStorage entries that make up a signed-in session
+const SESSION_KEYS = [
+    "sui_zklogin_session",
+    "sui_zklogin_jwt",
+    "sui_zklogin_proof",
+    "sui_zklogin_address",
+    "sui_zklogin_user_salt",
+    "sui_echo_user_role",
+];
+
+export type ZkLoginSessionStatus = "loading" | "signed_out" | "active" | "expiring" | "expired";
+
+export interface ZkLoginSessionState {
+    status: ZkLoginSessionStatus;
+    address: string | null;
+    email: string | null;
+    // OAuth provider the session signed in with
+    provider: OAuthProviderId | null;
+    maxEpoch: number | null;
+    // Null when the network couldn't be reached; the session is then treated as active
+    currentEpoch: number | null;
+    // Estimated end of maxEpoch from the current epoch's start and duration
+    expiresAt: number | null;
+    // Whether an encrypted copy is kept on this device
+    persisted: boolean;
+    renewing: boolean;
+    error: string | null;
+}
+
+interface EpochInfo {
+    epoch: number;
+    startMs: number;
+    durationMs: number;
+}
+
+interface EncryptedSession {
+    iv: Uint8Array<ArrayBuffer>;
+    ciphertext: ArrayBuffer;
+    savedAt: number;
+}
+
+type SessionMessage =
+    | { type: "session_updated"; address: string }
+    | { type: "signed_out"; address: string }
+    | { type: "renewal_result"; nonce: string; idToken: string | null; error: string | null };
+
+const LOADING_STATE: ZkLoginSessionState = {
+    status: "loading",
+    address: null,
+    email: null,
+    provider: null,
+    maxEpoch: null,
+    currentEpoch: null,
+    expiresAt: null,
+    persisted: false,
+    renewing: false,
+    error: null,
+};
+
+let state = LOADING_STATE;
+const listeners = new Set<() => void>();
+let started = false;
+let channel: BroadcastChannel | null = null;
+let epochInfo: EpochInfo | null = null;
+let statusTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setState(patch: Partial<ZkLoginSessionState>): void {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+}
+
+function getSessionChannel(): BroadcastChannel | null {
+    if (!channel && typeof BroadcastChannel !== "undefined") {
+        channel = new BroadcastChannel(SESSION_CHANNEL);
+    }
+    return channel;
+}
+
+// ========== IndexedDB ==========
+
+const SESSION_DB: IndexedDbSchema = {
+    name: SESSION_DB_NAME,
+    version: SESSION_DB_VERSION,
+    upgrade: db => {
+        db.createObjectStore(KEY_STORE);
+        db.createObjectStore(SESSION_STORE);
+    },
+};
+
+function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return withDatabaseStore(SESSION_DB, storeName, mode, run);
+}
+
+/**
+ * The device's session encryption key; created on first use and never readable by script
+ */
+async function getEncryptionKey(): Promise<CryptoKey> {
+    const existing = await withStore<CryptoKey | undefined>(KEY_STORE, "readonly", store => store.get(RECORD_ID));
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+    await withStore(KEY_STORE, "readwrite", store => store.put(key, RECORD_ID));
+    return key;
+}
+
+async function deletePersistedSession(): Promise<void> {
+    await withStore(SESSION_STORE, "readwrite", store => store.delete(RECORD_ID));
+}
+
+/**
+ * Copies the persisted session into this tab's sessionStorage
+ * @returns Whether a session was restored
+ */
+async function restorePersistedSession(): Promise<boolean> {
+    const record = await withStore<EncryptedSession | undefined>(SESSION_STORE, "readonly", store => store.get(RECORD_ID));
+    if (!record) return false;
+
+    const key = await getEncryptionKey();
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: record.iv }, key, record.ciphertext);
+    const entries: Record<string, string> = JSON.parse(new TextDecoder().decode(plaintext));
+
+    for (const name of SESSION_KEYS) {
+        if (entries[name] !== undefined) window.sessionStorage.setItem(name, entries[name]);
+    }
+    return true;
+}
+
+// ========== Persistence ==========
+
+export function isSessionPersistenceEnabled(): boolean {
+    if (typeof window === "undefined") return false;
+    return window.localStorage.getItem(PERSIST_PREFERENCE_KEY) === "1";
+}
+
+/**
+ * Saves an encrypted copy of this tab's session when persistence is on, and tells other tabs about it
+ * Call after login or renewal completes
+ */
+export async function persistZkLoginSession(): Promise<void> {
+    const address = getZkLoginAddress();
+    if (!address) return;
+
+    if (isSessionPersistenceEnabled()) {
+        const entries = Object.fromEntries(
+            SESSION_KEYS.flatMap(name => {
+                const value = window.sessionStorage.getItem(name);
+                return value === null ? [] : [[name, value]];
+            })
+        );
+
+        const key = await getEncryptionKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(entries)));
+        const record: EncryptedSession = { iv, ciphertext, savedAt: Date.now() };
+        await withStore(SESSION_STORE, "readwrite", store => store.put(record, RECORD_ID));
+    }
+
+    getSessionChannel()?.postMessage({ type: "session_updated", address } satisfies SessionMessage);
+}
+
+/**
+ * Turns keeping the session on this device on or off; turning it off deletes the stored copy
+ */
+export async function setSessionPersistence(enabled: boolean): Promise<void> {
+    if (enabled) {
+        window.localStorage.setItem(PERSIST_PREFERENCE_KEY, "1");
+        await persistZkLoginSession();
+    } else {
+        window.localStorage.removeItem(PERSIST_PREFERENCE_KEY);
+        await deletePersistedSession();
+    }
+    setState({ persisted: enabled });
+}
+
+// ========== Status ==========
+
+async function fetchEpochInfo(): Promise<EpochInfo> {
+    const systemState = await getSuiClient().getLatestSuiSystemState();
+    return {
+        epoch: Number(systemState.epoch),
+        startMs: Number(systemState.epochStartTimestampMs),
+        durationMs: Number(systemState.epochDurationMs),
+    };
+}
+
+function scheduleStatusCheck(delayMs: number): void {
+    if (statusTimer) clearTimeout(statusTimer);
+    // setTimeout overflows past ~24.8 days
+    statusTimer = setTimeout(() => void refreshZkLoginSession(), Math.min(Math.max(delayMs, 1000), 2 ** 31 - 1));
+}
+
+function updateStatus(): void {
+    const session = getStoredSession();
+    const address = getZkLoginAddress();
+    const persisted = isSessionPersistenceEnabled();
+
+    if (!session || !address || !isZkLoginSessionValid()) {
+        if (statusTimer) clearTimeout(statusTimer);
+        setState({ ...LOADING_STATE, status: "signed_out", persisted, error: state.error });
+        return;
+    }
+
+    let email: string | null = null;
+    const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
+    if (jwt) {
+        try {
+            email = jwtDecode<DecodedJwt>(jwt).email ?? null;
+        } catch {
+            // Keep the session usable without a display email
+        }
+    }
+
+    const base = { address, email, provider: getZkLoginProvider()?.id ?? null, maxEpoch: session.maxEpoch, persisted };
+    if (!epochInfo) {
+        setState({ ...base, status: "active", currentEpoch: null, expiresAt: null });
+        return;
+    }
+
+    const now = Date.now();
+    const expiresAt = epochInfo.startMs + (session.maxEpoch - epochInfo.epoch + 1) * epochInfo.durationMs;
+    let status: ZkLoginSessionStatus;
+    if (epochInfo.epoch > session.maxEpoch) {
+        status = "expired";
+    } else if (expiresAt - now <= ZKLOGIN_CONFIG.EXPIRY_WARNING_MS) {
+        status = "expiring";
+        // Epoch changes can run late, so keep checking the chain once the estimate has passed
+        scheduleStatusCheck(expiresAt > now ? expiresAt - now : 60_000);
+    } else {
+        status = "active";
+        scheduleStatusCheck(expiresAt - ZKLOGIN_CONFIG.EXPIRY_WARNING_MS - now);
+    }
+
+    setState({ ...base, status, currentEpoch: epochInfo.epoch, expiresAt });
+}
+
+/**
+ * Re-reads the session and the current epoch
+ */
+export async function refreshZkLoginSession(): Promise<void> {
+    try {
+        epochInfo = await fetchEpochInfo();
+    } catch (error) {
+        // Offline: keep the last known epoch, if any
+        console.warn("[Session] Could not fetch the current epoch:", error);
+    }
+    updateStatus();
+}
+
+async function handleSessionMessage(message: SessionMessage): Promise<void> {
+    const address = getZkLoginAddress();
+
+    if (message.type === "session_updated") {
+        // Another tab signed in or renewed; pick up its session if we share one
+        const sameAccount = !address || normalizeSuiAddress(address) === normalizeSuiAddress(message.address);
+        if (sameAccount && isSessionPersistenceEnabled()) {
+            try {
+                await restorePersistedSession();
+            } catch (error) {
+                console.warn("[Session] Could not restore session from another tab:", error);
+            }
+        }
+        updateStatus();
+    } else if (message.type === "signed_out") {
+        if (address && normalizeSuiAddress(address) === normalizeSuiAddress(message.address)) {
+            clearZkLoginSession();
+            window.sessionStorage.removeItem("sui_echo_user_role");
+            updateStatus();
+        }
+    }
+}
+
+async function startSessionManager(): Promise<void> {
+    getSessionChannel()?.addEventListener("message", event => void handleSessionMessage(event.data));
+    // Timers are throttled in background tabs, so re-check when the user comes back
+    window.addEventListener("focus", () => void refreshZkLoginSession());
+
+    if (!getStoredSession() && isSessionPersistenceEnabled()) {
+        try {
+            await restorePersistedSession();
+        } catch (error) {
+            console.warn("[Session] Could not restore persisted session:", error);
+        }
+    }
+    await refreshZkLoginSession();
+}
+
+// ========== Store ==========
+
+export function subscribeToZkLoginSession(listener: () => void): () => void {
+    listeners.add(listener);
+    if (!started) {
+        started = true;
+        void startSessionManager();
+    }
+    return () => listeners.delete(listener);
+}
+
+export function getZkLoginSessionState(): ZkLoginSessionState {
+    return state;
+}
+
+export function getServerZkLoginSessionState(): ZkLoginSessionState {
+    return LOADING_STATE;
+}
+
+// ========== Sign out ==========
+
+/**
+ * Ends the session in this tab, on this device and in other tabs signed in to the same account
+ */
+export async function signOutZkLogin(): Promise<void> {
+    const address = getZkLoginAddress();
+    clearZkLoginSession();
+    window.sessionStorage.removeItem("sui_echo_user_role");
+
+    try {
+        await deletePersistedSession();
+    } catch (error) {
+        console.warn("[Session] Could not delete persisted session:", error);
+    }
+    if (address) getSessionChannel()?.postMessage({ type: "signed_out", address } satisfies SessionMessage);
+    updateStatus();
+}
+
+// ========== Renewal ==========
+
+/**
+ * Handles the OAuth redirect inside a renewal popup
+ * @returns false when the callback isn't part of a renewal
+ */
+export function completeRenewalCallback(params: URLSearchParams): boolean {
+    const oauthState = params.get("state");
+    if (!oauthState?.startsWith(RENEWAL_STATE_PREFIX)) return false;
+
+    const [providerId, nonce] = oauthState.slice(RENEWAL_STATE_PREFIX.length).split(":");
+    const error = params.get("error");
+    if (error && INTERACTION_ERRORS.has(error) && isOAuthProviderId(providerId)) {
+        // No silent sign-in possible; let the user pick the account in this window
+        window.location.replace(buildOAuthLoginUrl(providerId, nonce, { state: oauthState }));
+        return true;
+    }
+
+    getSessionChannel()?.postMessage({
+        type: "renewal_result",
+        nonce,
+        idToken: params.get("id_token"),
+        error,
+    } satisfies SessionMessage);
+    window.close();
+    return true;
+}
+
+/**
+ * Waits for the renewal popup to send back an ID token for the nonce
+ * Results arrive over the BroadcastChannel because provider pages can cut the popup off from its opener
+ */
+function waitForRenewalToken(nonce: string): Promise<string> {
+    const sessionChannel = getSessionChannel();
+    if (!sessionChannel) return Promise.reject(new Error("This browser can't renew sessions in a popup"));
+
+    return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => finish(() => reject(new Error("Session renewal timed out"))), ZKLOGIN_CONFIG.RENEWAL_TIMEOUT_MS);
+
+        const onMessage = (event: MessageEvent<SessionMessage>) => {
+            const message = event.data;
+            if (message.type !== "renewal_result" || message.nonce !== nonce) return;
+            finish(() => message.idToken ? resolve(message.idToken) : reject(new Error(message.error || "Session renewal was cancelled")));
+        };
+
+        function finish(settle: () => void) {
+            clearTimeout(timeout);
+            sessionChannel?.removeEventListener("message", onMessage);
+            settle();
+        }
+
+        sessionChannel.addEventListener("message", onMessage);
+    });
+}
+
+/**
+ * Renews the session with a new ephemeral key and proof for the same account
+ * Signs in silently when the provider supports it and still has a session, otherwise asks the user
+ * to confirm the account
+ * Must be called from a user gesture so the popup isn't blocked; falls back to a full redirect
+ */
+export async function renewZkLoginSession(): Promise<void> {
+    if (state.renewing) return;
+
+    const address = getZkLoginAddress();
+    const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
+    const provider = getZkLoginProvider();
+    if (!address || !jwt || !provider) {
+        setState({ error: "No zkLogin session to renew. Please sign in again." });
+        return;
+    }
+    const { email, sub } = jwtDecode<DecodedJwt>(jwt);
+    const loginHint = email || sub;
+
+    // Open the popup before any await so it still counts as a user gesture
+    const popup = window.open("about:blank", "sui-echo-renew", "width=500,height=640");
+    setState({ renewing: true, error: null });
+
+    try {
+        if (!popup) {
+            // Popups blocked: renew through a full redirect that comes back to this page
+            const { loginUrl } = await prepareZkLoginSession({
+                provider: provider.id,
+                returnTo: `${window.location.pathname}${window.location.search}`,
+                loginHint,
+            });
+            window.location.href = loginUrl;
+            return;
+        }
+
+        const pending = await createEphemeralSession();
+        popup.location.href = buildOAuthLoginUrl(provider.id, pending.nonce, {
+            prompt: "none",
+            loginHint,
+            state: `${RENEWAL_STATE_PREFIX}${provider.id}:${pending.nonce}`,
+        });
+
+        const idToken = await waitForRenewalToken(pending.nonce);
+        const result = await proveZkLoginSession(idToken, pending);
+        if (normalizeSuiAddress(result.zkLoginAddress) !== normalizeSuiAddress(address)) {
+            throw new Error(`Renewal signed in to a different ${provider.name} account. Sign out to switch accounts.`);
+        }
+
+        storeZkLoginSession(pending, idToken, result);
+        await persistZkLoginSession();
+        await refreshZkLoginSession();
+    } catch (error) {
+        console.error("[Session] Renewal failed:", error);
+        setState({ error: error instanceof Error ? error.message : "Session renewal failed" });
+    } finally {
+        if (popup && !popup.closed) popup.close();
+        setState({ renewing: false });
+    }
+}
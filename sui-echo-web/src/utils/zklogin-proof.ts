@@ -6,6 +6,7 @@
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { SuiClient } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
 import {
     generateRandomness,
     generateNonce,
@@ -15,7 +16,14 @@ import {
     jwtToAddress,
 } from "@mysten/sui/zklogin";
 import { jwtDecode } from "jwt-decode";
-import { SUI_RPC_URL, ZK_PROVER_URL, ZKLOGIN_CONFIG } from "@/config";
+import { SUI_RPC_URL, ZK_PROVER_URL, ZKLOGIN_CONFIG, getRedirectUri } from "@/config";
+import { OAUTH_PROVIDERS, getOAuthClientId, getOAuthProviderForIssuer, type OAuthProvider, type OAuthProviderId } from "@/lib/oauth-providers";
+import {
+    assertTransactionSucceeded,
+    executeSponsoredTransaction,
+    TRANSACTION_RESULT_OPTIONS,
+    type EchoTransactionResult,
+} from "@/lib/transactions";
 
 // Types
 export interface ZkLoginSession {
@@ -42,6 +50,20 @@ export interface ZkProof {
     headerBase64: string;
 }
 
+// Ephemeral key material kept in sessionStorage between the OAuth redirect and the proof
+export interface EphemeralSessionData {
+    ephemeralSecretKey: string;
+    randomness: string;
+    nonce: string;
+    maxEpoch: number;
+}
+
+export interface ZkLoginResult {
+    zkLoginAddress: string;
+    zkProof: ZkProof;
+    userSalt: string;
+}
+
 export interface DecodedJwt {
     iss: string;
     sub: string;
@@ -79,9 +101,10 @@ export async function getCurrentEpoch(): Promise<number> {
  */
 export async function getEnokiSaltAndAddress(jwt: string): Promise<{ salt: string; address: string }> {
     const ENOKI_API_KEY = process.env.NEXT_PUBLIC_ENOKI_API_KEY;
+    const provider = getOAuthProviderForIssuer(jwtDecode<DecodedJwt>(jwt).iss);
 
-    if (!ENOKI_API_KEY) {
-        console.warn("[zkLogin] ENOKI_API_KEY not set, falling back to local salt");
+    if (!ENOKI_API_KEY || !provider?.enokiSupported) {
+        console.warn("[zkLogin] Enoki not available for this provider, falling back to local salt");
         // Fallback to local deterministic salt
         const decodedJwt = jwtDecode<{ sub: string }>(jwt);
         const salt = generateLocalSalt(decodedJwt.sub);
@@ -145,14 +168,9 @@ export function generateUserSalt(sub: string): string {
 }
 
 /**
- * Prepare zkLogin session - Called before OAuth redirect
+ * Create a fresh ephemeral key pair and nonce valid for ZKLOGIN_CONFIG.MAX_EPOCH_OFFSET epochs
  */
-export async function prepareZkLoginSession(): Promise<{ loginUrl: string; maxEpoch: number }> {
-    const GOOGLE_CLIENT_ID = process.env.NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID;
-    if (!GOOGLE_CLIENT_ID) {
-        throw new Error("NEXT_PUBLIC_GOOGLE_OAUTH_CLIENT_ID is not defined");
-    }
-
+export async function createEphemeralSession(): Promise<EphemeralSessionData> {
     // 1. Get current epoch
     const currentEpoch = await getCurrentEpoch();
     const maxEpoch = currentEpoch + ZKLOGIN_CONFIG.MAX_EPOCH_OFFSET;
@@ -164,45 +182,88 @@ export async function prepareZkLoginSession(): Promise<{ loginUrl: string; maxEp
     const randomness = generateRandomness();
     const nonce = generateNonce(ephemeralKeyPair.getPublicKey(), maxEpoch, randomness);
 
-    // 4. Store session data
-    if (typeof window !== "undefined") {
-        const sessionData = {
-            ephemeralSecretKey: ephemeralKeyPair.getSecretKey(),
-            randomness,
-            nonce,
-            maxEpoch,
-        };
-        window.sessionStorage.setItem("sui_zklogin_session", JSON.stringify(sessionData));
-    }
+    return {
+        ephemeralSecretKey: ephemeralKeyPair.getSecretKey(),
+        randomness,
+        nonce,
+        maxEpoch,
+    };
+}
 
-    // 5. Construct OAuth URL
-    const redirectUri = typeof window !== "undefined"
-        ? `${window.location.origin}/callback`
-        : "http://localhost:3000/callback";
+/**
+ * Build the provider's OAuth URL that returns an ID token bound to the nonce
+ * @param prompt - "none" signs in without any UI when the provider session is still active;
+ * ignored, like loginHint, by providers without silent login
+ * @param loginHint - Email or subject of the account to sign in with
+ * @param state - Opaque value echoed back to the callback
+ */
+export function buildOAuthLoginUrl(
+    providerId: OAuthProviderId,
+    nonce: string,
+    { prompt = "select_account", loginHint, state }: { prompt?: "none" | "select_account"; loginHint?: string; state?: string } = {}
+): string {
+    const provider = OAUTH_PROVIDERS[providerId];
+    const clientId = getOAuthClientId(providerId);
+    if (!clientId) {
+        throw new Error(`${provider.name} sign-in is not configured`);
+    }
 
     const params = new URLSearchParams({
-        client_id: GOOGLE_CLIENT_ID,
-        redirect_uri: redirectUri,
-        response_type: "id_token",
-        scope: "openid email profile",
+        client_id: clientId,
+        redirect_uri: getRedirectUri(),
+        ...provider.params,
         nonce: nonce,
-        prompt: "select_account",
     });
+    if (provider.supportsSilentLogin) {
+        params.set("prompt", prompt);
+        if (loginHint) params.set("login_hint", loginHint);
+    }
+    // Echoed back to the callback, which uses it to recognise session renewals
+    if (state) params.set("state", state);
+
+    return `${provider.authorizeUrl}?${params.toString()}`;
+}
 
-    const loginUrl = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+/**
+ * Prepare zkLogin session - Called before OAuth redirect
+ * @param provider - OAuth provider to sign in with (defaults to Google)
+ * @param returnTo - Page the callback sends the user back to (defaults to the dashboard)
+ */
+export async function prepareZkLoginSession(
+    { provider = "google", returnTo, loginHint }: { provider?: OAuthProviderId; returnTo?: string; loginHint?: string } = {}
+): Promise<{ loginUrl: string; maxEpoch: number }> {
+    const session = await createEphemeralSession();
+    const loginUrl = buildOAuthLoginUrl(provider, session.nonce, { loginHint });
 
-    return { loginUrl, maxEpoch };
+    // Store session data
+    if (typeof window !== "undefined") {
+        window.sessionStorage.setItem("sui_zklogin_session", JSON.stringify(session));
+        if (returnTo) {
+            window.sessionStorage.setItem("sui_zklogin_return_to", returnTo);
+        } else {
+            window.sessionStorage.removeItem("sui_zklogin_return_to");
+        }
+    }
+
+    return { loginUrl, maxEpoch: session.maxEpoch };
+}
+
+/**
+ * Page the callback should send the user to once login completes
+ */
+export function takeZkLoginReturnPath(): string {
+    if (typeof window === "undefined") return "/dashboard";
+
+    const returnTo = window.sessionStorage.getItem("sui_zklogin_return_to");
+    window.sessionStorage.removeItem("sui_zklogin_return_to");
+    // Only ever redirect within the app
+    return returnTo?.startsWith("/") && !returnTo.startsWith("//") ? returnTo : "/dashboard";
 }
 
 /**
  * Retrieve stored session data
  */
-export function getStoredSession(): {
-    ephemeralSecretKey: string;
-    randomness: string;
-    nonce: string;
-    maxEpoch: number;
-} | null {
+export function getStoredSession(): EphemeralSessionData | null {
     if (typeof window === "undefined") return null;
 
     const data = window.sessionStorage.getItem("sui_zklogin_session");
@@ -252,17 +313,22 @@ export async function generateZkProof(
  * Complete zkLogin callback - Called after OAuth redirect
  * Uses Enoki API for salt and ZK proof generation
  */
-export async function completeZkLoginCallback(jwt: string): Promise<{
-    zkLoginAddress: string;
-    zkProof: ZkProof;
-    userSalt: string;
-}> {
+export async function completeZkLoginCallback(jwt: string): Promise<ZkLoginResult> {
     // 1. Retrieve session data
     const session = getStoredSession();
     if (!session) {
         throw new Error("Missing zkLogin session data. Please restart login.");
     }
 
+    const result = await proveZkLoginSession(jwt, session);
+    storeZkLoginSession(session, jwt, result);
+    return result;
+}
+
+/**
+ * Validate the ID token against an ephemeral session and generate its ZK proof
+ */
+export async function proveZkLoginSession(jwt: string, session: EphemeralSessionData): Promise<ZkLoginResult> {
     // 2. Decode JWT
     const decodedJwt = jwtDecode<DecodedJwt>(jwt);
 
@@ -275,8 +341,13 @@ export async function completeZkLoginCallback(jwt: string): Promise<{
         throw new Error("JWT has expired. Please login again.");
     }
 
+    const provider = getOAuthProviderForIssuer(decodedJwt.iss);
+    if (!provider) {
+        throw new Error("This sign-in provider is not supported by zkLogin.");
+    }
+
     // 4. Get salt and address from Enoki (or fallback)
-    console.log("[zkLogin] Getting salt from Enoki...");
+    console.log(`[zkLogin] Getting salt for ${provider.name} login...`);
     const { salt: userSalt, address: enokiAddress } = await getEnokiSaltAndAddress(jwt);
     console.log("[zkLogin] Got salt, address:", enokiAddress);
 
@@ -288,7 +359,7 @@ export async function completeZkLoginCallback(jwt: string): Promise<{
     let zkProof: ZkProof;
     const ENOKI_API_KEY = process.env.NEXT_PUBLIC_ENOKI_API_KEY;
 
-    if (ENOKI_API_KEY) {
+    if (ENOKI_API_KEY && provider.enokiSupported) {
         console.log("[zkLogin] Generating ZK proof via Enoki...");
         try {
             const response = await fetch("https://api.enoki.mystenlabs.com/v1/zklogin/zkp", {
@@ -329,21 +400,30 @@ export async function completeZkLoginCallback(jwt: string): Promise<{
     const zkLoginAddress = enokiAddress || jwtToAddress(jwt, userSalt);
     console.log("[zkLogin] Derived address:", zkLoginAddress);
 
-    // 8. Store proof and address for later use
+    return { zkLoginAddress, zkProof, userSalt };
+}
+
+/**
+ * Store the ephemeral session, proof and address for later use
+ */
+export function storeZkLoginSession(session: EphemeralSessionData, jwt: string, result: ZkLoginResult): void {
+    window.sessionStorage.setItem("sui_zklogin_session", JSON.stringify(session));
     window.sessionStorage.setItem("sui_zklogin_jwt", jwt);
-    window.sessionStorage.setItem("sui_zklogin_proof", JSON.stringify(zkProof));
-    window.sessionStorage.setItem("sui_zklogin_address", zkLoginAddress);
-    window.sessionStorage.setItem("sui_zklogin_user_salt", userSalt);
+    window.sessionStorage.setItem("sui_zklogin_proof", JSON.stringify(result.zkProof));
+    window.sessionStorage.setItem("sui_zklogin_address", result.zkLoginAddress);
+    window.sessionStorage.setItem("sui_zklogin_user_salt", result.userSalt);
+}
 
-    return { zkLoginAddress, zkProof, userSalt };
+interface ZkLoginSigner {
+    address: string;
+    // Signs transaction bytes with the ephemeral key and wraps them in a zkLogin signature
+    signTransaction: (bytes: Uint8Array) => Promise<string>;
 }
 
 /**
- * Sign and execute a transaction with zkLogin
+ * Load the stored session's signer, failing if the session is incomplete or expired
  */
-export async function executeZkLoginTransaction(
-    transaction: Transaction
-): Promise<{ digest: string; effects: any; objectChanges?: any; events?: any }> {
+async function loadZkLoginSigner(): Promise<ZkLoginSigner> {
     // 1. Retrieve all required data
     const session = getStoredSession();
     const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
@@ -355,23 +435,15 @@ export async function executeZkLoginTransaction(
         throw new Error("Incomplete zkLogin session. Please login again.");
     }
 
+    await assertZkLoginSessionActive(session.maxEpoch);
+
     const zkProof: ZkProof = JSON.parse(proofStr);
     const decodedJwt = jwtDecode<DecodedJwt>(jwt);
 
     // 2. Reconstruct ephemeral key pair
     const ephemeralKeyPair = Ed25519Keypair.fromSecretKey(session.ephemeralSecretKey);
 
-    // 3. Set transaction sender
-    transaction.setSender(zkLoginAddress);
-
-    // 4. Sign the transaction with ephemeral key
-    const client = getSuiClient();
-    const { bytes, signature: userSignature } = await transaction.sign({
-        client,
-        signer: ephemeralKeyPair,
-    });
-
-    // 5. Generate address seed
+    // 3. Generate address seed
     const addressSeed = genAddressSeed(
         BigInt(userSalt),
         ZKLOGIN_CONFIG.KEY_CLAIM_NAME,
@@ -379,39 +451,53 @@ export async function executeZkLoginTransaction(
         decodedJwt.aud as string
     ).toString();
 
-    // 6. Assemble the zkLogin signature
-    const zkLoginSignature = getZkLoginSignature({
-        inputs: {
-            ...zkProof,
-            addressSeed,
+    return {
+        address: zkLoginAddress,
+        async signTransaction(bytes) {
+            // 4. Sign with the ephemeral key and assemble the zkLogin signature
+            const { signature: userSignature } = await ephemeralKeyPair.signTransaction(bytes);
+            return getZkLoginSignature({
+                inputs: {
+                    ...zkProof,
+                    addressSeed,
+                },
+                maxEpoch: session.maxEpoch,
+                userSignature,
+            });
         },
-        maxEpoch: session.maxEpoch,
-        userSignature,
-    });
+    };
+}
+
+/**
+ * Sign and execute a transaction with zkLogin, paying gas from the zkLogin address
+ */
+export async function executeZkLoginTransaction(transaction: Transaction): Promise<EchoTransactionResult> {
+    const signer = await loadZkLoginSigner();
+    const client = getSuiClient();
+
+    transaction.setSender(signer.address);
+    const bytes = await transaction.build({ client });
+    const zkLoginSignature = await signer.signTransaction(bytes);
 
-    // 7. Execute the transaction
     const result = await client.executeTransactionBlock({
         transactionBlock: bytes,
         signature: zkLoginSignature,
-        options: {
-            showEffects: true,
-            showEvents: true,
-            showObjectChanges: true,
-        },
+        options: TRANSACTION_RESULT_OPTIONS,
     });
 
-    return {
+    return assertTransactionSucceeded({
         digest: result.digest,
         effects: result.effects,
         objectChanges: result.objectChanges,
         events: result.events,
-    };
+    });
 }
 
 /**
  * Check if user is logged in with zkLogin
+ * @param currentEpoch - When given, the session must also not have passed its maxEpoch
  */
-export function isZkLoginSessionValid(): boolean {
+export function isZkLoginSessionValid(currentEpoch?: number): boolean {
     if (typeof window === "undefined") return false;
 
     const session = getStoredSession();
@@ -420,9 +506,33 @@ export function isZkLoginSessionValid(): boolean {
 
     if (!session || !zkLoginAddress || !proof) return false;
 
-    // Check if session has expired
-    // We'd need to compare maxEpoch with current epoch, but for now just check if data exists
-    return true;
+    // The ephemeral key signs nothing after maxEpoch
+    return currentEpoch === undefined || currentEpoch <= session.maxEpoch;
+}
+
+/**
+ * Fail early with a clear message instead of a rejected signature once the session has expired
+ */
+async function assertZkLoginSessionActive(maxEpoch: number): Promise<void> {
+    const currentEpoch = await getCurrentEpoch();
+    if (currentEpoch > maxEpoch) {
+        throw new Error(`Your zkLogin session expired at epoch ${maxEpoch}. Renew your session and try again.`);
+    }
+}
+
+/**
+ * The OAuth provider the current zkLogin session signed in with
+ */
+export function getZkLoginProvider(): OAuthProvider | null {
+    if (typeof window === "undefined") return null;
+
+    const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
+    if (!jwt) return null;
+    try {
+        return getOAuthProviderForIssuer(jwtDecode<DecodedJwt>(jwt).iss);
+    } catch {
+        return null;
+    }
 }
 
 /**
@@ -433,6 +543,19 @@ export function getZkLoginAddress(): string | null {
     return window.sessionStorage.getItem("sui_zklogin_address");
 }
 
+/**
+ * Credentials API routes use to verify the signed-in zkLogin user (see lib/zklogin-auth)
+ * @returns null when not signed in with zkLogin
+ */
+export function getZkLoginAuthHeaders(): Record<string, string> | null {
+    if (typeof window === "undefined") return null;
+
+    const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
+    const salt = window.sessionStorage.getItem("sui_zklogin_user_salt");
+    if (!jwt || !salt) return null;
+    return { Authorization: `Bearer ${jwt}`, "X-ZkLogin-Salt": salt };
+}
+
 /**
  * Clear zkLogin session
  */
@@ -444,119 +567,19 @@ export function clearZkLoginSession(): void {
     window.sessionStorage.removeItem("sui_zklogin_proof");
     window.sessionStorage.removeItem("sui_zklogin_user_salt");
     window.sessionStorage.removeItem("sui_zklogin_address");
+    window.sessionStorage.removeItem("sui_zklogin_return_to");
 }
 
 /**
  * Execute a SPONSORED transaction with zkLogin
- * Uses the /api/sponsor endpoint which has the private Enoki API key
- * User doesn't need SUI for gas - Enoki pays!
+ * Uses the /api/sponsor endpoint, so the user doesn't need SUI for gas
  */
-export async function executeSponsoredZkLoginTransaction(
-    transaction: Transaction
-): Promise<{ digest: string; effects: any; objectChanges?: any; events?: any }> {
-    // 1. Retrieve all required data
-    const session = getStoredSession();
-    const jwt = window.sessionStorage.getItem("sui_zklogin_jwt");
-    const proofStr = window.sessionStorage.getItem("sui_zklogin_proof");
-    const userSalt = window.sessionStorage.getItem("sui_zklogin_user_salt");
-    const zkLoginAddress = window.sessionStorage.getItem("sui_zklogin_address");
-
-    if (!session || !jwt || !proofStr || !userSalt || !zkLoginAddress) {
-        throw new Error("Incomplete zkLogin session. Please login again.");
-    }
+export async function executeSponsoredZkLoginTransaction(transaction: Transaction): Promise<EchoTransactionResult> {
+    const signer = await loadZkLoginSigner();
 
-    const zkProof: ZkProof = JSON.parse(proofStr);
-    const decodedJwt = jwtDecode<DecodedJwt>(jwt);
-
-    // 2. Reconstruct ephemeral key pair
-    const ephemeralKeyPair = Ed25519Keypair.fromSecretKey(session.ephemeralSecretKey);
-
-    // 3. Set transaction sender
-    transaction.setSender(zkLoginAddress);
-
-    // 4. Build the transaction KIND only (for sponsorship)
-    const client = getSuiClient();
-    const txKindBytes = await transaction.build({ client, onlyTransactionKind: true });
-
-    // 5. Call the sponsor API to get sponsored transaction
-    console.log("[zkLogin] Requesting sponsored transaction...");
-    const sponsorResponse = await fetch("/api/sponsor", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-            transactionBytes: Buffer.from(txKindBytes).toString("base64"),
-            sender: zkLoginAddress,
-        }),
-    });
-
-    if (!sponsorResponse.ok) {
-        const errorData = await sponsorResponse.json();
-        throw new Error(errorData.error || "Failed to sponsor transaction");
-    }
-
-    const { bytes: sponsoredBytes, digest: sponsorDigest } = await sponsorResponse.json();
-    console.log("[zkLogin] Transaction sponsored, digest:", sponsorDigest);
-
-    // 6. Sign the sponsored transaction with ephemeral key
-    const sponsoredTxBytes = Buffer.from(sponsoredBytes, "base64");
-    const { signature: userSignature } = await ephemeralKeyPair.signTransaction(sponsoredTxBytes);
-
-    // 7. Generate address seed
-    const addressSeed = genAddressSeed(
-        BigInt(userSalt),
-        ZKLOGIN_CONFIG.KEY_CLAIM_NAME,
-        decodedJwt.sub,
-        decodedJwt.aud as string
-    ).toString();
-
-    // 8. Assemble the zkLogin signature
-    const zkLoginSignature = getZkLoginSignature({
-        inputs: {
-            ...zkProof,
-            addressSeed,
-        },
-        maxEpoch: session.maxEpoch,
-        userSignature,
-    });
-
-    // 9. Execute via Enoki (they add sponsor signature and submit)
-    console.log("[zkLogin] Executing sponsored transaction via Enoki...");
-
-    const executeResponse = await fetch("/api/sponsor", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-            digest: sponsorDigest,
-            signature: zkLoginSignature,
-        }),
+    return executeSponsoredTransaction(getSuiClient(), transaction, {
+        sender: signer.address,
+        authHeaders: getZkLoginAuthHeaders() ?? {},
+        signTransaction: bytes => signer.signTransaction(fromBase64(bytes)),
     });
-
-    if (!executeResponse.ok) {
-        const errorData = await executeResponse.json();
-        throw new Error(errorData.error || "Failed to execute sponsored transaction");
-    }
-
-    const executeResult = await executeResponse.json();
-    const finalDigest = executeResult.digest;
-    console.log("[zkLogin] Sponsored transaction executed:", finalDigest);
-
-    // 10. Query the transaction to get objectChanges and events
-    console.log("[zkLogin] Querying transaction details...");
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Wait for indexing
-
-    const txDetails = await client.getTransactionBlock({
-        digest: finalDigest,
-        options: {
-            showEffects: true,
-            showObjectChanges: true,
-            showEvents: true,
-        },
-    });
-
-    return {
-        digest: finalDigest,
-        effects: txDetails.effects,
-        objectChanges: txDetails.objectChanges,
-        events: txDetails.events,
-    };
 }